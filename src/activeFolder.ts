@@ -0,0 +1,58 @@
+import * as vscode from 'vscode';
+
+/**
+ * Follows which workspace folder the developer is working in, so tokens,
+ * profiles and history in multi-root workspaces come from the folder of the
+ * active file. Falls back to the last folder worked in, then the first one.
+ */
+export class ActiveFolderTracker implements vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+    private activeFolder: vscode.WorkspaceFolder | undefined;
+    private changeEmitter = new vscode.EventEmitter<vscode.WorkspaceFolder | undefined>();
+    public readonly onDidChangeActiveFolder = this.changeEmitter.event;
+
+    constructor() {
+        this.activeFolder = this.resolveFolder(vscode.window.activeTextEditor);
+
+        this.disposables.push(
+            vscode.window.onDidChangeActiveTextEditor(editor => this.update(this.resolveFolder(editor))),
+            vscode.workspace.onDidChangeWorkspaceFolders(event => {
+                const removed = event.removed.some(folder => folder.uri.toString() === this.activeFolder?.uri.toString());
+                if (removed || !this.activeFolder) {
+                    this.activeFolder = undefined;
+                    this.update(this.resolveFolder(vscode.window.activeTextEditor));
+                }
+            })
+        );
+    }
+
+    public getActiveFolder(): vscode.WorkspaceFolder | undefined {
+        return this.activeFolder;
+    }
+
+    /** Stable key for per-folder state; '' when no folder is open. */
+    public static getFolderKey(folder: vscode.WorkspaceFolder | undefined): string {
+        return folder ? folder.uri.toString() : '';
+    }
+
+    private resolveFolder(editor: vscode.TextEditor | undefined): vscode.WorkspaceFolder | undefined {
+        // Output panels, untitled files and files outside the workspace keep the current folder
+        const editorFolder = editor ? vscode.workspace.getWorkspaceFolder(editor.document.uri) : undefined;
+        return editorFolder || this.activeFolder || vscode.workspace.workspaceFolders?.[0];
+    }
+
+    private update(folder: vscode.WorkspaceFolder | undefined): void {
+        if (ActiveFolderTracker.getFolderKey(folder) === ActiveFolderTracker.getFolderKey(this.activeFolder)) {
+            return;
+        }
+        this.activeFolder = folder;
+        console.log(`CodeBeat: Active workspace folder is now ${folder ? folder.name : 'none'}`);
+        this.changeEmitter.fire(folder);
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.changeEmitter.dispose();
+    }
+}
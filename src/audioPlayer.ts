@@ -0,0 +1,657 @@
+import * as vscode from 'vscode';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { spawn, ChildProcess } from 'child_process';
+
+interface VoiceOptions {
+    volume: number;   // 0-100
+    startAt: number;  // seconds into the track
+    fadeIn: number;   // seconds, 0 for none
+    fadeOut: number;  // seconds, 0 for none
+}
+
+interface PlayerProfile {
+    name: string;
+    command: string;
+    canSeek: boolean;
+    canFade: boolean;
+    supportsIpc?: boolean;
+    buildArgs(url: string, options: VoiceOptions, ipcPath?: string): string[];
+}
+
+/**
+ * One running player process. Crossfades and interrupts need several of
+ * these alive at the same time.
+ */
+class PlaybackVoice {
+    private readonly startedAt = Date.now();
+    public retired = false;
+
+    constructor(
+        public readonly url: string,
+        public readonly title: string | undefined,
+        public readonly player: PlayerProfile,
+        public readonly options: VoiceOptions,
+        public readonly process: ChildProcess,
+        public readonly isStreaming: boolean,
+        public readonly ipcPath?: string
+    ) {}
+
+    public position(): number {
+        return this.options.startAt + (Date.now() - this.startedAt) / 1000;
+    }
+
+    public isAlive(): boolean {
+        return !this.process.killed && this.process.exitCode === null;
+    }
+
+    public async stop(): Promise<void> {
+        // Retired voices are replaced on purpose, so their exit must not trigger queue handling
+        this.retired = true;
+        if (!this.isAlive()) {
+            return;
+        }
+
+        // Try graceful termination first, force kill if it is still around
+        this.process.kill('SIGTERM');
+        await new Promise(resolve => setTimeout(resolve, 200));
+        if (this.isAlive()) {
+            this.process.kill('SIGKILL');
+        }
+    }
+}
+
+export class AudioPlayer {
+    private background: PlaybackVoice | null = null;
+    private interrupt: PlaybackVoice | null = null;
+    private next: { url: string; title?: string } | null = null;
+    private isMuted: boolean = false;
+    private currentUrl: string | null = null;
+    private currentTitle: string | undefined;
+    private volume: number;
+    private voiceCounter: number = 0;
+    private crossfadeGeneration: number = 0;
+    private pendingInterrupts: number = 0;
+    private outputChannel: vscode.OutputChannel;
+    private configListener: vscode.Disposable;
+
+    constructor(outputChannel: vscode.OutputChannel) {
+        this.outputChannel = outputChannel;
+        this.volume = this.getConfiguredVolume();
+
+        this.configListener = vscode.workspace.onDidChangeConfiguration((event) => {
+            if (event.affectsConfiguration('codebeat.volume')) {
+                this.applyVolume(this.getConfiguredVolume());
+            }
+        });
+    }
+
+    /**
+     * Applies a new volume to everything that is currently playing without
+     * starting the tracks over.
+     */
+    private async applyVolume(volume: number): Promise<void> {
+        if (volume === this.volume) {
+            return;
+        }
+        this.volume = volume;
+        this.outputChannel.appendLine(`🔊 Volume set to ${volume}%`);
+
+        const background = this.background;
+        if (background && background.isAlive()) {
+            const interruptPlaying = this.interrupt !== null && this.interrupt.isAlive();
+            const target = interruptPlaying ? this.getDuckVolume() : volume;
+            const updated = await this.changeVoiceVolume(background, target, 0.3);
+            if (this.background === background) {
+                this.background = updated;
+            }
+        }
+
+        const interrupt = this.interrupt;
+        if (interrupt && interrupt.isAlive()) {
+            const updated = await this.changeVoiceVolume(interrupt, volume, 0.3);
+            if (this.interrupt === interrupt) {
+                this.interrupt = updated;
+            }
+        }
+    }
+
+    /**
+     * Plays a background track, crossfading from whatever is playing now.
+     * While a celebration or failure sting is playing the track is queued and
+     * starts when the interrupt hands control back.
+     */
+    public async playAudio(url: string, title?: string): Promise<void> {
+        // Always update current URL for potential resume after unmute
+        this.currentUrl = url;
+        this.currentTitle = title;
+
+        if (this.isMuted) {
+            this.outputChannel.appendLine('🔇 Audio is muted - not playing automatically');
+            return;
+        }
+
+        if (this.pendingInterrupts > 0 || (this.interrupt && this.interrupt.isAlive())) {
+            this.outputChannel.appendLine(`⏭️  Interrupt in progress - queued "${title || url}" as next track`);
+            this.next = { url, title };
+            return;
+        }
+
+        await this.crossfadeTo(url, title);
+    }
+
+    /**
+     * Plays a short interrupt (celebration or failure sting) over the
+     * background track. The background is ducked and restored (or replaced by
+     * the queued next track) when it finishes.
+     */
+    public async playInterrupt(url: string, title?: string): Promise<void> {
+        if (this.isMuted) {
+            this.outputChannel.appendLine('🔇 Audio is muted - skipping interrupt playback');
+            return;
+        }
+
+        this.outputChannel.appendLine(`\n🎉 Interrupt: ${title || url}`);
+
+        // Tracks arriving while the interrupt starts up must wait for it
+        this.pendingInterrupts++;
+        try {
+            const previousInterrupt = this.interrupt;
+            if (this.background && !previousInterrupt) {
+                this.outputChannel.appendLine(`🔉 Ducking background track to ${this.getDuckVolume()}%`);
+                this.background = await this.changeVoiceVolume(this.background, this.getDuckVolume(), 0.5);
+            }
+
+            const voice = await this.spawnVoice(url, title, {
+                volume: this.volume,
+                startAt: 0,
+                fadeIn: previousInterrupt ? this.getCrossfadeSeconds() : 0,
+                fadeOut: 0
+            });
+
+            if (!voice) {
+                if (!previousInterrupt || !previousInterrupt.isAlive()) {
+                    await this.handBackToBackground();
+                }
+                return;
+            }
+
+            this.interrupt = voice;
+            if (previousInterrupt) {
+                // Streaming interrupt was replaced by its final MP3
+                this.fadeOutAndStop(previousInterrupt, this.getCrossfadeSeconds());
+            }
+        } finally {
+            this.pendingInterrupts--;
+        }
+    }
+
+    private async crossfadeTo(url: string, title?: string): Promise<void> {
+        const generation = ++this.crossfadeGeneration;
+        const previous = this.background;
+        const fadeSeconds = previous && previous.isAlive() ? this.getCrossfadeSeconds() : 0;
+
+        this.outputChannel.appendLine(`\n🎵 Starting automatic playback${fadeSeconds > 0 ? ` with ${fadeSeconds}s crossfade` : ''}...`);
+
+        // The previous track keeps playing until the new one has actually started
+        const voice = await this.spawnVoice(url, title, {
+            volume: this.volume,
+            startAt: 0,
+            fadeIn: fadeSeconds,
+            fadeOut: 0
+        });
+
+        if (!voice) {
+            return;
+        }
+        if (generation !== this.crossfadeGeneration || this.isMuted) {
+            // A newer track (or a mute) arrived while this one was starting up
+            await voice.stop();
+            return;
+        }
+
+        this.background = voice;
+        if (previous) {
+            if (fadeSeconds > 0) {
+                this.fadeOutAndStop(previous, fadeSeconds);
+            } else {
+                await previous.stop();
+            }
+        }
+    }
+
+    private async handBackToBackground(): Promise<void> {
+        if (this.next) {
+            const queued = this.next;
+            this.next = null;
+            this.outputChannel.appendLine(`⏭️  Interrupt finished - playing queued track "${queued.title || queued.url}"`);
+            await this.crossfadeTo(queued.url, queued.title);
+            return;
+        }
+
+        if (this.background && this.background.isAlive()) {
+            this.outputChannel.appendLine('🔊 Interrupt finished - restoring background track');
+            this.background = await this.changeVoiceVolume(this.background, this.volume, 1);
+        }
+    }
+
+    private onVoiceExit(voice: PlaybackVoice, code: number | null): void {
+        if (voice.retired) {
+            return;
+        }
+
+        if (code === 0) {
+            this.outputChannel.appendLine(`🎵 Audio playback completed successfully`);
+        } else if (code !== null) {
+            this.outputChannel.appendLine(`⚠️  ${voice.player.name} exited with code: ${code}`);
+        }
+
+        if (voice === this.interrupt) {
+            this.interrupt = null;
+            if (this.pendingInterrupts === 0) {
+                this.handBackToBackground();
+            }
+        } else if (voice === this.background) {
+            this.background = null;
+            if (this.next && !this.interrupt && this.pendingInterrupts === 0) {
+                const queued = this.next;
+                this.next = null;
+                this.crossfadeTo(queued.url, queued.title);
+            }
+        }
+    }
+
+    /**
+     * Changes the volume of a running voice. mpv is adjusted in place over its
+     * IPC socket; other players are restarted at the current position, which
+     * only works for seekable (non-streaming) sources. A stream keeps its
+     * volume until the next track.
+     */
+    private async changeVoiceVolume(voice: PlaybackVoice, volume: number, rampSeconds: number): Promise<PlaybackVoice> {
+        if (voice.ipcPath) {
+            await this.rampIpcVolume(voice, volume, rampSeconds);
+            voice.options.volume = volume;
+            return voice;
+        }
+
+        if (!voice.player.canSeek || voice.isStreaming) {
+            this.outputChannel.appendLine(`ℹ️  ${voice.player.name} cannot change the volume of a live stream - ${volume}% applies from the next track`);
+            return voice;
+        }
+
+        const replacement = await this.spawnVoice(voice.url, voice.title, {
+            volume,
+            startAt: voice.position(),
+            fadeIn: 0,
+            fadeOut: 0
+        }, voice.player);
+
+        if (!replacement) {
+            return voice;
+        }
+        await voice.stop();
+        return replacement;
+    }
+
+    private fadeOutAndStop(voice: PlaybackVoice, fadeSeconds: number): void {
+        voice.retired = true;
+
+        const fade = async () => {
+            if (voice.ipcPath) {
+                await this.rampIpcVolume(voice, 0, fadeSeconds);
+            } else if (voice.player.canFade && voice.player.canSeek && !voice.isStreaming) {
+                // Restart at the current position with a fade-out filter
+                const fading = await this.spawnVoice(voice.url, voice.title, {
+                    volume: voice.options.volume,
+                    startAt: voice.position(),
+                    fadeIn: 0,
+                    fadeOut: fadeSeconds
+                }, voice.player);
+                await voice.stop();
+                if (fading) {
+                    fading.retired = true;
+                    setTimeout(() => fading.stop(), fadeSeconds * 1000);
+                }
+                return;
+            } else {
+                // No way to fade this player - let both overlap for the crossfade duration
+                await new Promise(resolve => setTimeout(resolve, fadeSeconds * 1000));
+            }
+            await voice.stop();
+        };
+
+        fade().catch(error => this.outputChannel.appendLine(`⚠️  Fade out failed: ${error}`));
+    }
+
+    private async rampIpcVolume(voice: PlaybackVoice, targetVolume: number, rampSeconds: number): Promise<void> {
+        const steps = Math.max(1, Math.round(rampSeconds * 10));
+        const startVolume = voice.options.volume;
+
+        for (let step = 1; step <= steps; step++) {
+            const volume = startVolume + (targetVolume - startVolume) * (step / steps);
+            await this.sendIpcCommand(voice, ['set_property', 'volume', Math.round(volume)]);
+            if (step < steps) {
+                await new Promise(resolve => setTimeout(resolve, (rampSeconds * 1000) / steps));
+            }
+        }
+    }
+
+    private sendIpcCommand(voice: PlaybackVoice, command: Array<string | number>): Promise<void> {
+        return new Promise(resolve => {
+            if (!voice.ipcPath || !voice.isAlive()) {
+                resolve();
+                return;
+            }
+
+            const socket = net.createConnection(voice.ipcPath, () => {
+                socket.end(JSON.stringify({ command }) + '\n');
+            });
+            socket.on('close', () => resolve());
+            socket.on('error', () => resolve());
+        });
+    }
+
+    private async spawnVoice(
+        url: string,
+        title: string | undefined,
+        options: VoiceOptions,
+        preferredPlayer?: PlayerProfile
+    ): Promise<PlaybackVoice | null> {
+        // Detect if this is a streaming URL or direct MP3
+        const isStreamingUrl = url.includes('audiopipe.suno.ai') || url.includes('streaming');
+        const players = preferredPlayer ? [preferredPlayer] : this.getAvailableAudioPlayers(isStreamingUrl);
+
+        if (!preferredPlayer) {
+            this.outputChannel.appendLine(`🌐 URL: ${url}`);
+            if (title) {
+                this.outputChannel.appendLine(`🎼 Title: ${title}`);
+            }
+            this.outputChannel.appendLine(`🔍 Detected ${isStreamingUrl ? 'streaming' : 'direct'} URL type`);
+        }
+
+        try {
+            for (const player of players) {
+                try {
+                    const ipcPath = player.supportsIpc ? this.createIpcPath() : undefined;
+                    const args = player.buildArgs(url, options, ipcPath);
+
+                    const audioProcess = spawn(player.command, args, {
+                        stdio: ['ignore', 'pipe', 'pipe']
+                    });
+
+                    audioProcess.on('spawn', () => {
+                        this.outputChannel.appendLine(`✅ Audio playback started with ${player.name}`);
+                    });
+
+                    let hasError = false;
+                    audioProcess.on('error', (error) => {
+                        hasError = true;
+                        this.outputChannel.appendLine(`❌ Audio player error (${player.name}): ${error.message}`);
+                    });
+
+                    const voice = new PlaybackVoice(url, title, player, { ...options }, audioProcess, isStreamingUrl, ipcPath);
+                    audioProcess.on('exit', (code) => this.onVoiceExit(voice, code));
+
+                    // Wait a moment to see if the process starts successfully; a missing player fails right away
+                    await new Promise<void>(resolve => {
+                        const timer = setTimeout(resolve, 1000);
+                        const settle = () => {
+                            clearTimeout(timer);
+                            resolve();
+                        };
+                        audioProcess.once('error', settle);
+                        audioProcess.once('exit', settle);
+                    });
+
+                    // If process is still running and no error occurred, we consider it successful
+                    if (voice.isAlive() && !hasError) {
+                        if (!preferredPlayer) {
+                            this.outputChannel.appendLine(`🎉 Successfully started ${player.name} for ${isStreamingUrl ? 'streaming' : 'direct'} playback`);
+                        }
+                        return voice;
+                    }
+
+                    if (hasError) {
+                        this.outputChannel.appendLine(`⚠️  ${player.name} had errors, trying next...`);
+                    } else {
+                        this.outputChannel.appendLine(`⚠️  ${player.name} failed to start properly, trying next...`);
+                    }
+                    await voice.stop();
+                } catch (error) {
+                    this.outputChannel.appendLine(`⚠️  Failed to start ${player.name}: ${error}`);
+                }
+            }
+
+            this.outputChannel.appendLine(`❌ No compatible audio player found for ${isStreamingUrl ? 'streaming' : 'direct'} URL`);
+            this.outputChannel.appendLine(`💡 Suggestion: Install mpv (live volume changes and ducking), ffmpeg (for ffplay) or VLC`);
+            if (!preferredPlayer) {
+                this.showBrowserFallback(url);
+            }
+        } catch (error) {
+            this.outputChannel.appendLine(`❌ Audio playback error: ${error}`);
+            this.showBrowserFallback(url);
+        }
+
+        return null;
+    }
+
+    private getAvailableAudioPlayers(isStreamingUrl: boolean = false): PlayerProfile[] {
+        const players: PlayerProfile[] = [];
+
+        // mpv first: volume changes and ducking happen in place over its IPC socket,
+        // the other players have to restart the track for them
+        players.push({
+            name: isStreamingUrl ? 'mpv (streaming)' : 'mpv',
+            command: 'mpv',
+            canSeek: true,
+            canFade: true,
+            supportsIpc: true,
+            buildArgs: (url, options, ipcPath) => [
+                '--no-video', '--really-quiet',
+                ...(isStreamingUrl ? ['--user-agent=CodeBeat-VSCode-Extension/1.0.0'] : []),
+                `--volume=${Math.round(options.volume)}`,
+                ...(options.startAt > 0 ? [`--start=${options.startAt.toFixed(2)}`] : []),
+                ...this.getFadeFilters(options, filters => [`--af=lavfi=[${filters}]`]),
+                ...(ipcPath ? [`--input-ipc-server=${ipcPath}`] : []),
+                url
+            ]
+        });
+
+        // ffplay (comes with ffmpeg) - seeks and fades through its audio filter graph
+        players.push({
+            name: isStreamingUrl ? 'FFplay (streaming)' : 'FFplay',
+            command: 'ffplay',
+            canSeek: true,
+            canFade: true,
+            buildArgs: (url, options) => [
+                '-nodisp', '-autoexit', '-loglevel', 'quiet',
+                ...(isStreamingUrl ? ['-reconnect', '1', '-reconnect_streamed', '1'] : []),
+                '-volume', `${Math.round(options.volume)}`,
+                ...(options.startAt > 0 ? ['-ss', options.startAt.toFixed(2)] : []),
+                ...this.getFadeFilters(options, filters => ['-af', filters]),
+                url
+            ]
+        });
+
+        // VLC (headless, excellent for streaming)
+        players.push({
+            name: isStreamingUrl ? 'VLC (streaming)' : 'VLC',
+            command: 'vlc',
+            canSeek: true,
+            canFade: false,
+            buildArgs: (url, options) => [
+                '--intf', 'dummy', '--play-and-exit',
+                ...(isStreamingUrl ? ['--no-video'] : []),
+                `--gain=${(options.volume / 100).toFixed(2)}`,
+                ...(options.startAt > 0 ? [`--start-time=${options.startAt.toFixed(2)}`] : []),
+                url
+            ]
+        });
+
+        if (process.platform === 'darwin') {
+            if (isStreamingUrl) {
+                // curl + afplay for macOS (download then play)
+                players.push({
+                    name: 'curl + afplay (macOS)',
+                    command: 'sh',
+                    canSeek: false,
+                    canFade: false,
+                    buildArgs: (url, options) => {
+                        const curlCommand = `curl -s -L "${url}" | afplay -v ${(options.volume / 100).toFixed(2)} -`;
+                        this.outputChannel.appendLine(`🔄 Using curl + afplay for streaming: ${curlCommand.substring(0, 50)}...`);
+                        return ['-c', curlCommand];
+                    }
+                });
+            } else {
+                // macOS specific for local files, ahead of everything but mpv
+                players.splice(1, 0, {
+                    name: 'afplay (macOS)',
+                    command: 'afplay',
+                    canSeek: false,
+                    canFade: false,
+                    buildArgs: (url, options) => ['-v', (options.volume / 100).toFixed(2), url]
+                });
+            }
+        }
+
+        return players;
+    }
+
+    private getFadeFilters(options: VoiceOptions, toArgs: (filters: string) => string[]): string[] {
+        const filters: string[] = [];
+        // Filter timestamps continue from the seek position, so fades start there
+        if (options.fadeIn > 0) {
+            filters.push(`afade=t=in:st=${options.startAt.toFixed(2)}:d=${options.fadeIn}`);
+        }
+        if (options.fadeOut > 0) {
+            filters.push(`afade=t=out:st=${options.startAt.toFixed(2)}:d=${options.fadeOut}`);
+        }
+        return filters.length > 0 ? toArgs(filters.join(',')) : [];
+    }
+
+    private createIpcPath(): string {
+        this.voiceCounter++;
+        const name = `codebeat-mpv-${process.pid}-${this.voiceCounter}`;
+        return process.platform === 'win32' ? `\\\\.\\pipe\\${name}` : path.join(os.tmpdir(), `${name}.sock`);
+    }
+
+    private getConfiguredVolume(): number {
+        const volume = vscode.workspace.getConfiguration('codebeat').get('volume', 50);
+        return Math.max(0, Math.min(100, volume));
+    }
+
+    private getCrossfadeSeconds(): number {
+        return vscode.workspace.getConfiguration('codebeat').get('crossfadeDuration', 3);
+    }
+
+    private getDuckVolume(): number {
+        const duckLevel = vscode.workspace.getConfiguration('codebeat').get('celebrationDuckLevel', 30);
+        return Math.round(this.volume * duckLevel / 100);
+    }
+
+    private showBrowserFallback(url: string): void {
+        const isStreamingUrl = url.includes('audiopipe.suno.ai');
+
+        vscode.window.showInformationMessage(
+            `🎵 CodeBeat: ${isStreamingUrl ? 'Streaming requires compatible audio player.' : 'Audio player not found.'} Opening in browser...`,
+            'Open Audio',
+            'Install ffmpeg'
+        ).then(selection => {
+            if (selection === 'Open Audio') {
+                vscode.env.openExternal(vscode.Uri.parse(url));
+            } else if (selection === 'Install ffmpeg') {
+                // Open ffmpeg installation page
+                const installUrl = process.platform === 'darwin'
+                    ? 'https://formulae.brew.sh/formula/ffmpeg'
+                    : 'https://ffmpeg.org/download.html';
+                vscode.env.openExternal(vscode.Uri.parse(installUrl));
+            }
+        });
+
+        this.outputChannel.appendLine(`🌐 Browser fallback: Opening ${url} in default browser`);
+
+        if (isStreamingUrl) {
+            this.outputChannel.appendLine(`💡 For automatic playback, install one of these audio players:`);
+            this.outputChannel.appendLine(`   • ffmpeg (includes ffplay): brew install ffmpeg (macOS) or apt install ffmpeg (Linux)`);
+            this.outputChannel.appendLine(`   • VLC: https://www.videolan.org/vlc/`);
+            this.outputChannel.appendLine(`   • mpv: https://mpv.io/`);
+        }
+    }
+
+    public async stopAudio(): Promise<void> {
+        const voices = [this.background, this.interrupt].filter((voice): voice is PlaybackVoice => voice !== null);
+        this.crossfadeGeneration++;
+        this.background = null;
+        this.interrupt = null;
+        this.next = null;
+
+        if (voices.length > 0) {
+            this.outputChannel.appendLine('⏹️  Stopping audio playback...');
+            await Promise.all(voices.map(voice => voice.stop()));
+            this.outputChannel.appendLine('✅ Audio process stopped');
+        }
+
+        // Additional cleanup: Kill any remaining audio processes that might be hanging
+        await this.killAnyRemainingAudioProcesses();
+    }
+
+    private async killAnyRemainingAudioProcesses(): Promise<void> {
+        try {
+            // Only kill audio processes that contain suno.ai URLs to avoid killing system audio
+            if (process.platform === 'darwin' || process.platform === 'linux') {
+                // Kill processes that are playing suno.ai URLs specifically
+                const killSunoProcesses = spawn('pkill', ['-f', 'suno.ai'], { stdio: 'ignore' });
+                await new Promise(resolve => {
+                    killSunoProcesses.on('exit', resolve);
+                    setTimeout(resolve, 500); // Timeout after 500ms
+                });
+
+                this.outputChannel.appendLine('🧹 Cleaned up any remaining Suno audio processes');
+            }
+        } catch (error) {
+            // Ignore cleanup errors - this is just a safety measure
+        }
+    }
+
+    public toggleMute(): void {
+        this.setMuted(!this.isMuted);
+
+        vscode.window.showInformationMessage(
+            `🎵 CodeBeat: Audio ${this.isMuted ? 'muted' : 'unmuted'}`
+        );
+    }
+
+    public setMuted(muted: boolean): void {
+        if (this.isMuted === muted) {
+            return;
+        }
+        this.isMuted = muted;
+
+        if (this.isMuted) {
+            this.outputChannel.appendLine('🔇 Audio muted - stopping playback');
+            // Immediately stop audio when muted
+            this.stopAudio();
+        } else {
+            this.outputChannel.appendLine('🔊 Audio unmuted');
+            if (this.currentUrl) {
+                this.outputChannel.appendLine('▶️  Resuming playback...');
+                // Resume playback with the last URL
+                this.playAudio(this.currentUrl, this.currentTitle);
+            }
+        }
+    }
+
+    public getMuteStatus(): boolean {
+        return this.isMuted;
+    }
+
+    public isAudioPlaying(): boolean {
+        return [this.background, this.interrupt].some(voice => voice !== null && voice.isAlive());
+    }
+
+    public dispose(): void {
+        this.configListener.dispose();
+        this.stopAudio();
+    }
+}
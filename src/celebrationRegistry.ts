@@ -0,0 +1,210 @@
+import { MusicParameters } from './musicParameterGenerator';
+import { CelebrationType } from './musicBackend';
+
+export type CelebrationTemplate = Omit<MusicParameters, 'complexity' | 'context'>;
+
+export interface CelebrationDefinition {
+    type: CelebrationType;
+    label: string;
+    emoji: string;
+    message: string;
+    cooldown: number; // seconds before this type can play again
+    music: CelebrationTemplate;
+    builtIn: boolean;
+}
+
+/**
+ * All celebration types CodeBeat knows: the built-in ones plus those defined
+ * in the `codebeat.customCelebrations` setting or `.codebeat/rules.json`.
+ * A custom definition with a built-in type replaces the built-in one.
+ */
+export class CelebrationRegistry {
+    private custom: Map<string, CelebrationDefinition> = new Map();
+
+    public static readonly fallbackType = 'compilation_success';
+
+    private readonly builtIns: CelebrationDefinition[] = [
+        {
+            type: 'compilation_success',
+            label: 'Compilation Success',
+            emoji: '🎉',
+            message: 'Code compiled successfully!',
+            cooldown: 5,
+            builtIn: true,
+            music: {
+                bpm: 130,
+                mood: 'triumphant',
+                genre: 'epic orchestral',
+                energy: 9,
+                instruments: ['orchestral', 'brass', 'timpani', 'strings'],
+                structure: 'epic build with climactic drop',
+                duration: 45,
+                tags: ['celebration', 'success', 'compilation', 'victory'],
+                prompt: 'Epic orchestral celebration with triumphant brass and powerful timpani, building to a victorious climax for successful code compilation'
+            }
+        },
+        {
+            type: 'bug_fix',
+            label: 'Bug Fix',
+            emoji: '🐛✨',
+            message: 'Bug resolved!',
+            cooldown: 5,
+            builtIn: true,
+            music: {
+                bpm: 110,
+                mood: 'relieved',
+                genre: 'uplifting electronic',
+                energy: 7,
+                instruments: ['piano', 'strings', 'electronic', 'light percussion'],
+                structure: 'tension release with harmonic resolution',
+                duration: 30,
+                tags: ['relief', 'resolution', 'bug_fix', 'harmony'],
+                prompt: 'Uplifting electronic music with tension release and harmonic resolution, celebrating the successful fixing of a bug'
+            }
+        },
+        {
+            type: 'test_pass',
+            label: 'Tests Passed',
+            emoji: '✅',
+            message: 'All tests passed!',
+            cooldown: 5,
+            builtIn: true,
+            music: {
+                bpm: 120,
+                mood: 'confident',
+                genre: 'uplifting pop electronic',
+                energy: 8,
+                instruments: ['synth', 'electronic beats', 'piano', 'bass'],
+                structure: 'uplifting major key celebration',
+                duration: 35,
+                tags: ['confidence', 'testing', 'validation', 'success'],
+                prompt: 'Confident uplifting electronic music in major key, celebrating successful test completion and code validation'
+            }
+        },
+        {
+            type: 'deployment',
+            label: 'Deployment',
+            emoji: '🚀',
+            message: 'Deployment successful!',
+            cooldown: 5,
+            builtIn: true,
+            music: {
+                bpm: 140,
+                mood: 'victorious',
+                genre: 'full orchestral finale',
+                energy: 10,
+                instruments: ['full orchestra', 'choir', 'brass', 'strings', 'timpani'],
+                structure: 'full orchestral finale with choir',
+                duration: 60,
+                tags: ['deployment', 'finale', 'achievement', 'launch'],
+                prompt: 'Magnificent full orchestral finale with choir, celebrating the successful deployment and launch of the project'
+            }
+        },
+        {
+            type: 'commit',
+            label: 'Commit',
+            emoji: '📝',
+            message: 'Changes committed!',
+            cooldown: 5,
+            builtIn: true,
+            music: {
+                bpm: 115,
+                mood: 'satisfied',
+                genre: 'light funk',
+                energy: 6,
+                instruments: ['clean guitar', 'bass', 'claps', 'electric piano'],
+                structure: 'short upbeat flourish',
+                duration: 15,
+                tags: ['commit', 'progress', 'checkpoint'],
+                prompt: 'Short upbeat funky flourish with clean guitar and claps, celebrating a freshly committed piece of work'
+            }
+        }
+    ];
+
+    public get(type: CelebrationType): CelebrationDefinition | undefined {
+        return this.custom.get(type) || this.builtIns.find(definition => definition.type === type);
+    }
+
+    public has(type: string): boolean {
+        return this.get(type) !== undefined;
+    }
+
+    public getAll(): CelebrationDefinition[] {
+        const builtIns = this.builtIns.map(definition => this.custom.get(definition.type) || definition);
+        const additions = Array.from(this.custom.values()).filter(definition => !this.builtIns.some(builtIn => builtIn.type === definition.type));
+        return [...builtIns, ...additions];
+    }
+
+    public setCustomDefinitions(definitions: CelebrationDefinition[]): void {
+        this.custom = new Map(definitions.map(definition => [definition.type, definition]));
+    }
+
+    /**
+     * Validates a user-written definition. Music fields that are left out
+     * come from the built-in type named in `basedOn` (compilation_success by
+     * default).
+     */
+    public parseDefinition(raw: unknown, reportError: (message: string) => void): CelebrationDefinition | null {
+        if (!raw || typeof raw !== 'object') {
+            reportError('Celebration must be an object');
+            return null;
+        }
+
+        const definition = raw as { [key: string]: any };
+        if (typeof definition.type !== 'string' || !/^[a-z][a-z0-9_]*$/.test(definition.type)) {
+            reportError('"type" must be a lowercase identifier such as "pr_merged"');
+            return null;
+        }
+
+        const basedOn = definition.basedOn ?? CelebrationRegistry.fallbackType;
+        const base = this.builtIns.find(builtIn => builtIn.type === basedOn);
+        if (!base) {
+            reportError(`"basedOn" must be one of ${this.builtIns.map(builtIn => builtIn.type).join(', ')}`);
+            return null;
+        }
+
+        const cooldown = definition.cooldown ?? 5;
+        if (typeof cooldown !== 'number' || cooldown < 0) {
+            reportError('"cooldown" must be a number of seconds, 0 or more');
+            return null;
+        }
+
+        const music = definition.music ?? {};
+        if (typeof music !== 'object') {
+            reportError('"music" must be an object');
+            return null;
+        }
+        for (const field of ['bpm', 'energy', 'duration']) {
+            if (music[field] !== undefined && typeof music[field] !== 'number') {
+                reportError(`"music.${field}" must be a number`);
+                return null;
+            }
+        }
+        for (const field of ['instruments', 'tags']) {
+            if (music[field] !== undefined && !(Array.isArray(music[field]) && music[field].every((item: unknown) => typeof item === 'string'))) {
+                reportError(`"music.${field}" must be an array of strings`);
+                return null;
+            }
+        }
+
+        const label = typeof definition.label === 'string'
+            ? definition.label
+            : definition.type.split('_').map((word: string) => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+        return {
+            type: definition.type,
+            label,
+            emoji: typeof definition.emoji === 'string' ? definition.emoji : base.emoji,
+            message: typeof definition.message === 'string' ? definition.message : `${label}!`,
+            cooldown,
+            builtIn: false,
+            music: {
+                ...base.music,
+                ...music,
+                energy: Math.max(1, Math.min(10, music.energy ?? base.music.energy)),
+                tags: music.tags ?? ['celebration', definition.type],
+                prompt: typeof music.prompt === 'string' ? music.prompt : `${base.music.prompt.split(',')[0]}, celebrating: ${label}`
+            }
+        };
+    }
+}
@@ -1,18 +1,41 @@
 import * as vscode from 'vscode';
-import { TandemApiClient } from './tandemApiClient';
+import * as crypto from 'crypto';
+import { TandemApiClient, CodeAnalysis } from './tandemApiClient';
+import { LocalCodeAnalyzer } from './localCodeAnalyzer';
 import { MusicParameterGenerator } from './musicParameterGenerator';
-import { SunoApiClient } from './sunoApiClient';
+import { MusicBackend, MusicTriggerType } from './musicBackend';
+import { WorkspaceIndexer } from './workspaceIndexer';
+import { SessionRecorder } from './sessionRecorder';
+import { FlowStateDetector, FlowSnapshot } from './flowStateDetector';
+import { DebugSessionTracker } from './debugSessionTracker';
+import { PrivacyGuard } from './privacyGuard';
+
+interface AnalyzedDocument {
+    analysis: CodeAnalysis;
+    languageId: string;
+    content: string;
+    document: vscode.TextDocument;
+}
 
 export class CodeMonitor implements vscode.Disposable {
     private disposables: vscode.Disposable[] = [];
     private analysisTimer: NodeJS.Timeout | undefined;
     private lastAnalyzedContent: string = '';
     private isMonitoring: boolean = false;
+    private remoteUnavailableUntil: number = 0;
+    private lastAnalyzed: AnalyzedDocument | undefined;
+    private readonly remoteRetryDelay = 60000; // 1 minute before trying the remote API again in auto mode
 
     constructor(
         private tandemClient: TandemApiClient,
+        private localAnalyzer: LocalCodeAnalyzer,
         private musicGenerator: MusicParameterGenerator,
-        private sunoApiClient: SunoApiClient
+        private musicBackend: MusicBackend,
+        private workspaceIndexer: WorkspaceIndexer,
+        private flowStateDetector: FlowStateDetector,
+        private debugSessionTracker: DebugSessionTracker,
+        private sessionRecorder: SessionRecorder,
+        private privacyGuard: PrivacyGuard
     ) {}
 
     public startMonitoring(): void {
@@ -33,7 +56,12 @@ export class CodeMonitor implements vscode.Disposable {
             (event) => this.onDocumentChanged(event)
         );
 
-        this.disposables.push(activeEditorDisposable, documentChangeDisposable);
+        // A new flow state changes the music even when the code does not
+        const flowStateDisposable = this.flowStateDetector.onDidChangeState(
+            (snapshot) => this.onFlowStateChanged(snapshot)
+        );
+
+        this.disposables.push(activeEditorDisposable, documentChangeDisposable, flowStateDisposable);
 
         // Analyze current editor if available
         if (vscode.window.activeTextEditor) {
@@ -76,6 +104,35 @@ export class CodeMonitor implements vscode.Disposable {
         this.scheduleAnalysis(event.document);
     }
 
+    /**
+     * Plays a new take of the music for the last analyzed file after the
+     * generator picked a new seed. Returns false if nothing new plays, e.g.
+     * while a debug session keeps its own music.
+     */
+    public async reshuffle(): Promise<boolean> {
+        const config = vscode.workspace.getConfiguration('codebeat');
+        if (!this.isMonitoring || !this.lastAnalyzed || !config.get('enabled', true)) {
+            return false;
+        }
+
+        const flow = config.get('flowDetection', true) ? this.flowStateDetector.getSnapshot() : undefined;
+        return this.generateMusic(this.lastAnalyzed, flow, 'manual');
+    }
+
+    private async onFlowStateChanged(snapshot: FlowSnapshot): Promise<void> {
+        const config = vscode.workspace.getConfiguration('codebeat');
+        if (!this.isMonitoring || !this.lastAnalyzed || !config.get('enabled', true) || !config.get('flowDetection', true)) {
+            return;
+        }
+
+        console.log(`CodeBeat: Flow state changed to ${snapshot.state}, regenerating music`);
+        try {
+            await this.generateMusic(this.lastAnalyzed, snapshot);
+        } catch (error) {
+            console.error('CodeBeat: Error generating music for flow state:', error);
+        }
+    }
+
     private scheduleAnalysis(document: vscode.TextDocument): void {
         // Clear existing timer
         if (this.analysisTimer) {
@@ -119,26 +176,23 @@ export class CodeMonitor implements vscode.Disposable {
             const fileExtension = document.fileName.split('.').pop() || '';
             const languageId = document.languageId;
             
-            // Analyze code with Tandemn API
-            const codeAnalysis = await this.tandemClient.analyzeCode(content, languageId, fileExtension);
+            // Analyze code with the configured engine (Tandemn API or local analyzer)
+            const codeAnalysis = await this.analyzeWithConfiguredEngine(document, content, languageId, fileExtension);
             
             if (codeAnalysis) {
-                // Generate music parameters based on analysis
-                const musicParams = this.musicGenerator.generateFromAnalysis(
-                    codeAnalysis,
-                    languageId,
-                    content.split('\n').length
-                );
-
-                // Send to Suno (mock) API with code context
-                const codeContext = {
-                    code: content,
-                    language: languageId,
-                    fileName: document.fileName
-                };
-                await this.sunoApiClient.generateMusic(musicParams, 'code_analysis', codeContext);
-
-                console.log(`CodeBeat: Generated music for ${languageId} code complexity`);
+                const flow = config.get('flowDetection', true) ? this.flowStateDetector.getSnapshot() : undefined;
+
+                // Keep the music steady during flow unless the code itself changed character
+                const previous = this.lastAnalyzed;
+                this.lastAnalyzed = { analysis: codeAnalysis, languageId, content, document };
+                if (flow?.state === 'in_flow' && previous &&
+                    previous.languageId === languageId &&
+                    previous.analysis.complexity === codeAnalysis.complexity) {
+                    console.log('CodeBeat: In flow and nothing changed character, keeping the current music');
+                    return;
+                }
+
+                await this.generateMusic(this.lastAnalyzed, flow);
             }
 
         } catch (error) {
@@ -147,6 +201,94 @@ export class CodeMonitor implements vscode.Disposable {
         }
     }
 
+    /** Returns false if the music was left alone, true once new music was requested. */
+    private async generateMusic(
+        analyzed: AnalyzedDocument,
+        flow: FlowSnapshot | undefined,
+        triggerType: MusicTriggerType = 'code_analysis'
+    ): Promise<boolean> {
+        const config = vscode.workspace.getConfiguration('codebeat');
+        if (config.get('debugMusic', true) && this.debugSessionTracker.isDebugging()) {
+            console.log('CodeBeat: Debug session running, keeping the investigation music');
+            return false;
+        }
+
+        const { analysis, languageId, content, document } = analyzed;
+        const lineCount = content.split('\n').length;
+        const fileName = vscode.workspace.asRelativePath(document.uri);
+        const seedKey = `${fileName}|${crypto.createHash('sha1').update(content).digest('hex')}`;
+
+        // Generate music parameters based on analysis
+        let musicParams = this.musicGenerator.generateFromAnalysis(analysis, languageId, lineCount, seedKey);
+
+        // The codebase profile sets the soundtrack; the active file only adjusts it
+        const profile = config.get('workspaceProfile', true) ? this.workspaceIndexer.getProfile() : undefined;
+        if (profile) {
+            musicParams = this.musicGenerator.generateFromProfile(profile, musicParams);
+        }
+
+        if (flow) {
+            musicParams = this.musicGenerator.applyFlowState(musicParams, flow);
+        }
+
+        this.sessionRecorder.record('code_analysis', {
+            analysis,
+            languageId,
+            lineCount,
+            fileName,
+            seedKey,
+            profile,
+            flow
+        });
+
+        // Send to the active music backend with code context
+        const codeContext = {
+            code: content,
+            language: languageId,
+            fileName: document.fileName
+        };
+        await this.musicBackend.generateMusic(musicParams, triggerType, codeContext);
+
+        console.log(`CodeBeat: Generated music for ${languageId} code complexity`);
+        return true;
+    }
+
+    private async analyzeWithConfiguredEngine(
+        document: vscode.TextDocument,
+        content: string,
+        languageId: string,
+        fileExtension: string
+    ): Promise<CodeAnalysis | null> {
+        const config = vscode.workspace.getConfiguration('codebeat');
+        const engine = config.get<string>('analysisEngine', 'auto');
+
+        if (engine === 'local') {
+            return this.localAnalyzer.analyzeCode(content, languageId, fileExtension);
+        }
+
+        // In auto mode, skip the remote API for a while after it failed instead of waiting on it every time
+        if (engine === 'auto' && Date.now() < this.remoteUnavailableUntil) {
+            console.log('CodeBeat: Tandemn API recently unreachable, using local analyzer');
+            return this.localAnalyzer.analyzeCode(content, languageId, fileExtension);
+        }
+
+        // Files that may not leave the machine are always analyzed locally
+        const remoteContent = this.privacyGuard.prepareForRemote(document, content);
+        if (remoteContent.kind === 'blocked') {
+            console.log(`CodeBeat: Not sending ${vscode.workspace.asRelativePath(document.uri)} to Tandemn (${remoteContent.reason}), using local analyzer`);
+            return this.localAnalyzer.analyzeCode(content, languageId, fileExtension);
+        }
+
+        const remoteAnalysis = await this.tandemClient.analyzeCode(remoteContent, languageId, fileExtension);
+        if (remoteAnalysis || engine !== 'auto') {
+            return remoteAnalysis;
+        }
+
+        console.log('CodeBeat: Tandemn API unavailable, falling back to local analyzer');
+        this.remoteUnavailableUntil = Date.now() + this.remoteRetryDelay;
+        return this.localAnalyzer.analyzeCode(content, languageId, fileExtension);
+    }
+
     public dispose(): void {
         this.disposables.forEach(d => d.dispose());
         this.disposables = [];
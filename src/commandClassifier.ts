@@ -0,0 +1,112 @@
+/**
+ * Checks shared by success and failure detection to tell what kind of
+ * command a task or terminal command line runs.
+ */
+
+/** A user-defined way to recognize a command, see SuccessRuleStore. */
+export interface CommandMatcher {
+    taskFilter?: RegExp;
+    commandFilter?: RegExp;
+}
+
+export function matchesCommand(matcher: CommandMatcher, taskName: string, command: string): boolean {
+    if (!matcher.taskFilter && !matcher.commandFilter) {
+        return false;
+    }
+    return (!matcher.taskFilter || matcher.taskFilter.test(taskName)) &&
+        (!matcher.commandFilter || matcher.commandFilter.test(command));
+}
+
+type CommandKind = 'build' | 'test' | 'deploy';
+
+interface CommandKeywords {
+    programs: string[]; // tools that only ever do this, e.g. `jest`
+    scripts: string[]; // scripts and subcommands of a runner, e.g. `npm run build`, `cargo test`
+    taskNames: string[]; // words in a task's name
+}
+
+const commandKeywords: { [kind in CommandKind]: CommandKeywords } = {
+    build: {
+        programs: ['tsc', 'webpack', 'rollup', 'parcel', 'esbuild', 'swc', 'babel', 'cmake', 'ninja', 'msbuild', 'javac', 'gcc', 'g++', 'clang', 'clang++', 'rustc'],
+        scripts: ['build', 'compile', 'all', 'package', 'assemble'],
+        taskNames: ['build', 'compile', 'webpack', 'tsc']
+    },
+    test: {
+        programs: ['jest', 'mocha', 'jasmine', 'karma', 'cypress', 'playwright', 'vitest', 'ava', 'tap', 'pytest', 'phpunit', 'rspec', 'ctest', 'tox', 'nox'],
+        scripts: ['test', 'tests', 'spec', 'e2e', 'pytest', 'unittest', 'rspec', 'jest', 'vitest', 'mocha'],
+        taskNames: ['test', 'tests', 'spec', 'e2e', 'jest', 'mocha', 'vitest', 'pytest']
+    },
+    deploy: {
+        programs: ['vercel'],
+        scripts: ['deploy', 'publish', 'release', 'push'],
+        taskNames: ['deploy', 'publish', 'release']
+    }
+};
+
+// Tools whose first argument names what they run: a package script, subcommand or module
+const runners = [
+    'npm', 'yarn', 'pnpm', 'bun', 'deno', 'cargo', 'go', 'dotnet', 'mix', 'flutter', 'dart', 'swift',
+    'python', 'python3', 'py', 'make', 'rake', 'bundle', 'mvn', 'mvnw', 'gradle', 'gradlew', 'sbt', 'lein', 'ant',
+    'poetry', 'uv', 'hatch', 'nx', 'turbo', 'lerna', 'ng', 'vite', 'next', 'nuxt', 'php',
+    'docker', 'helm', 'serverless', 'sls', 'cdk', 'firebase', 'netlify', 'fly', 'flyctl', 'wrangler'
+];
+
+// Words before the command itself, and arguments that hand over to the actual script
+const commandPrefixes = ['sudo', 'npx', 'pnpx', 'bunx', 'time', 'env', 'nohup', 'exec'];
+const launcherArguments = ['run', 'run-script', 'exec', 'x', 'manage.py', 'artisan'];
+
+/**
+ * Whether one of the commands in a command line is of the given kind. Only
+ * whole words count: the program itself (`jest`), or a known runner and the
+ * script or subcommand it runs (`npm run test:unit`, `cargo build`,
+ * `docker push`). `make` without a target builds.
+ */
+function commandLineIs(kind: CommandKind, command: string): boolean {
+    const keywords = commandKeywords[kind];
+    return command.toLowerCase().split(/&&|\|\||[;|\n]/).some(segment => {
+        const words = segment.trim().split(/\s+/).filter(word => word.length > 0);
+        while (words.length > 0 && (commandPrefixes.includes(words[0]) || /^\w+=/.test(words[0]))) {
+            words.shift();
+        }
+        if (words.length === 0) {
+            return false;
+        }
+
+        const program = words[0].split(/[\/\\]/).pop()!.replace(/\.(exe|cmd|bat)$/, '');
+        if (keywords.programs.includes(program)) {
+            return true;
+        }
+        if (!runners.includes(program)) {
+            return false;
+        }
+
+        const script = words.slice(1).find(word => !word.startsWith('-') && !launcherArguments.includes(word));
+        if (script === undefined) {
+            return kind === 'build' && program === 'make';
+        }
+        return keywords.scripts.some(name => script === name || script.startsWith(`${name}:`)) ||
+            keywords.programs.includes(script);
+    });
+}
+
+function taskNameIs(kind: CommandKind, taskName: string): boolean {
+    const words = taskName.toLowerCase().split(/[^a-z0-9+]+/);
+    return commandKeywords[kind].taskNames.some(name => words.includes(name));
+}
+
+function isCommandOfKind(kind: CommandKind, taskName: string, command: string, customMatchers: CommandMatcher[]): boolean {
+    return taskNameIs(kind, taskName) || commandLineIs(kind, command) ||
+        customMatchers.some(matcher => matchesCommand(matcher, taskName, command));
+}
+
+export function isBuildCommand(taskName: string, command: string, customMatchers: CommandMatcher[] = []): boolean {
+    return isCommandOfKind('build', taskName, command, customMatchers);
+}
+
+export function isTestCommand(taskName: string, command: string, customMatchers: CommandMatcher[] = []): boolean {
+    return isCommandOfKind('test', taskName, command, customMatchers);
+}
+
+export function isDeployCommand(taskName: string, command: string, customMatchers: CommandMatcher[] = []): boolean {
+    return isCommandOfKind('deploy', taskName, command, customMatchers);
+}
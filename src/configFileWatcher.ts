@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+
+/**
+ * Watches a `.codebeat/*.json` file in every workspace folder and asks its
+ * owner to reload once the file, the workspace folders or anything else
+ * passed to `scheduleReload` stops changing.
+ */
+export class ConfigFileWatcher implements vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+    private reloadTimer: NodeJS.Timeout | undefined;
+    private readonly reloadDelay = 300;
+
+    constructor(relativePath: string, private reload: () => void) {
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${relativePath}`);
+        watcher.onDidCreate(() => this.scheduleReload());
+        watcher.onDidChange(() => this.scheduleReload());
+        watcher.onDidDelete(() => this.scheduleReload());
+
+        this.disposables.push(
+            watcher,
+            vscode.workspace.onDidChangeWorkspaceFolders(() => this.scheduleReload())
+        );
+    }
+
+    public scheduleReload(): void {
+        if (this.reloadTimer) {
+            clearTimeout(this.reloadTimer);
+        }
+        // Editors often write a file several times in a row when saving
+        this.reloadTimer = setTimeout(() => {
+            this.reloadTimer = undefined;
+            this.reload();
+        }, this.reloadDelay);
+    }
+
+    /**
+     * The line holding the n-th `"key":` in a config file, for diagnostics.
+     * Without a JSON parser that keeps positions this is the closest stand-in
+     * for a property's location; the first line is used if the key is missing.
+     */
+    public static findKeyRange(text: string, key: string, occurrence: number = 0): vscode.Range {
+        const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        const match = Array.from(text.matchAll(new RegExp(`"${escaped}"\\s*:`, 'g')))[occurrence];
+        if (match && match.index !== undefined) {
+            const line = text.slice(0, match.index).split('\n').length - 1;
+            return new vscode.Range(line, 0, line, text.split('\n')[line].length);
+        }
+        return new vscode.Range(0, 0, 0, 0);
+    }
+
+    public dispose(): void {
+        if (this.reloadTimer) {
+            clearTimeout(this.reloadTimer);
+            this.reloadTimer = undefined;
+        }
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
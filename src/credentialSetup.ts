@@ -0,0 +1,102 @@
+import * as vscode from 'vscode';
+import { CredentialStore, CredentialKind, CredentialStatus, CredentialCheck } from './credentialStore';
+import { TandemApiClient } from './tandemApiClient';
+import { SunoApiClient } from './sunoApiClient';
+import { ActiveFolderTracker } from './activeFolder';
+
+/**
+ * The `CodeBeat: Configure Credentials` flow: pick a credential, enter it,
+ * check it with a test request and keep it in secret storage.
+ */
+export class CredentialSetup {
+    private readonly statusLabels: { [status in CredentialStatus]: string } = {
+        'missing': 'Not set',
+        'unverified': 'Set',
+        'valid': 'Working',
+        'invalid': 'Rejected by the service'
+    };
+
+    constructor(
+        private credentials: CredentialStore,
+        private tandemClient: TandemApiClient,
+        private sunoClient: SunoApiClient,
+        private folderTracker: ActiveFolderTracker
+    ) {}
+
+    public async configure(preselected?: CredentialKind): Promise<void> {
+        const kinds: CredentialKind[] = ['sunoApiToken', 'tandemApiKey'];
+        const kind = preselected ?? (await vscode.window.showQuickPick(
+            kinds.map(candidate => ({
+                label: `$(key) ${CredentialStore.labels[candidate]}`,
+                description: this.statusLabels[this.credentials.getStatus(candidate, this.folderTracker.getActiveFolder())],
+                credential: candidate
+            })),
+            { placeHolder: 'Which credential do you want to set?' }
+        ))?.credential;
+        if (!kind) {
+            return;
+        }
+
+        // In multi-root workspaces a Suno token can belong to a single folder
+        let folder: vscode.WorkspaceFolder | undefined;
+        const folders = vscode.workspace.workspaceFolders || [];
+        if (kind === 'sunoApiToken' && folders.length > 1) {
+            const scope = await vscode.window.showQuickPick(
+                [
+                    { label: 'All folders', description: 'Default token', folder: undefined as vscode.WorkspaceFolder | undefined },
+                    ...folders.map(candidate => ({ label: candidate.name, description: 'Only for this folder', folder: candidate }))
+                ],
+                { placeHolder: 'Where should this token be used?' }
+            );
+            if (!scope) {
+                return;
+            }
+            folder = scope.folder;
+        }
+
+        const value = (await vscode.window.showInputBox({
+            title: `CodeBeat: ${CredentialStore.labels[kind]}${folder ? ` for ${folder.name}` : ''}`,
+            prompt: kind === 'sunoApiToken' ? 'Paste your Suno API token' : 'Paste your Tandemn API key',
+            password: true,
+            ignoreFocusOut: true,
+            validateInput: input => input.trim().length === 0 ? 'The credential cannot be empty' : undefined
+        }))?.trim();
+        if (!value) {
+            return;
+        }
+
+        const check = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `CodeBeat: Checking ${CredentialStore.labels[kind]}...` },
+            (): Promise<CredentialCheck> => kind === 'sunoApiToken'
+                ? this.sunoClient.validateToken(value)
+                : this.tandemClient.validateApiKey(value)
+        );
+
+        if (check === 'invalid') {
+            const choice = await vscode.window.showErrorMessage(
+                `CodeBeat: The ${CredentialStore.labels[kind]} was rejected. Nothing was saved.`,
+                'Try Again'
+            );
+            if (choice) {
+                await this.configure(kind);
+            }
+            return;
+        }
+        if (check === 'unreachable') {
+            const choice = await vscode.window.showWarningMessage(
+                `CodeBeat: Could not reach the service to check the ${CredentialStore.labels[kind]}. Save it anyway?`,
+                'Save',
+                'Cancel'
+            );
+            if (choice !== 'Save') {
+                return;
+            }
+        }
+
+        if (check === 'valid') {
+            this.credentials.reportStatus(value, true);
+        }
+        await this.credentials.store(kind, value, folder);
+        vscode.window.showInformationMessage(`🔑 CodeBeat: ${CredentialStore.labels[kind]} saved in secure storage`);
+    }
+}
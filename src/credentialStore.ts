@@ -0,0 +1,194 @@
+import * as vscode from 'vscode';
+import * as dotenv from 'dotenv';
+import { ActiveFolderTracker } from './activeFolder';
+
+export type CredentialKind = 'tandemApiKey' | 'sunoApiToken';
+export type CredentialStatus = 'missing' | 'unverified' | 'valid' | 'invalid';
+export type CredentialCheck = 'valid' | 'invalid' | 'unreachable';
+
+/**
+ * API credentials kept in VS Code's secret storage instead of settings and
+ * `.env` files. The Suno token can be set for all folders or overridden per
+ * workspace folder; `SUNO_API_TOKEN` in the environment is the last resort.
+ * Whether a credential works is learned from the responses of real requests.
+ */
+export class CredentialStore implements vscode.Disposable {
+    private values: Map<string, string> = new Map();
+    private statuses: Map<string, CredentialStatus> = new Map(); // by credential value, never persisted
+    private disposables: vscode.Disposable[] = [];
+    private changeEmitter = new vscode.EventEmitter<void>();
+    public readonly onDidChange = this.changeEmitter.event;
+
+    public static readonly labels: { [kind in CredentialKind]: string } = {
+        'tandemApiKey': 'Tandemn API key',
+        'sunoApiToken': 'Suno API token'
+    };
+
+    private static readonly migratedFoldersKey = 'codebeat.migratedEnvFolders';
+
+    constructor(private secrets: vscode.SecretStorage, private memento: vscode.Memento) {}
+
+    public async initialize(): Promise<void> {
+        await this.loadSecret(this.getSecretKey('tandemApiKey'));
+        await this.loadSecret(this.getSecretKey('sunoApiToken'));
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            await this.loadSecret(this.getSecretKey('sunoApiToken', folder));
+        }
+
+        this.disposables.push(
+            // Another window may have stored or deleted a credential
+            this.secrets.onDidChange(async event => {
+                if (event.key.startsWith('codebeat.')) {
+                    await this.loadSecret(event.key);
+                    this.changeEmitter.fire();
+                }
+            }),
+            vscode.workspace.onDidChangeWorkspaceFolders(async event => {
+                for (const folder of event.added) {
+                    await this.loadSecret(this.getSecretKey('sunoApiToken', folder));
+                }
+                await this.migrateEnvFiles(event.added);
+                this.changeEmitter.fire();
+            })
+        );
+    }
+
+    public getTandemApiKey(): string | undefined {
+        return this.values.get(this.getSecretKey('tandemApiKey'));
+    }
+
+    public getSunoToken(folder: vscode.WorkspaceFolder | undefined): string | undefined {
+        return (folder && this.values.get(this.getSecretKey('sunoApiToken', folder))) ||
+            this.values.get(this.getSecretKey('sunoApiToken')) ||
+            process.env.SUNO_API_TOKEN;
+    }
+
+    public getStatus(kind: CredentialKind, folder?: vscode.WorkspaceFolder): CredentialStatus {
+        const value = kind === 'tandemApiKey' ? this.getTandemApiKey() : this.getSunoToken(folder);
+        if (!value) {
+            return 'missing';
+        }
+        return this.statuses.get(value) || 'unverified';
+    }
+
+    /** Called with the outcome of a request made with the credential. */
+    public reportStatus(value: string, valid: boolean): void {
+        const status: CredentialStatus = valid ? 'valid' : 'invalid';
+        if (this.statuses.get(value) !== status) {
+            this.statuses.set(value, status);
+            this.changeEmitter.fire();
+        }
+    }
+
+    /** A folder scopes a Suno token to that folder. */
+    public async store(kind: CredentialKind, value: string, folder?: vscode.WorkspaceFolder): Promise<void> {
+        const key = this.getSecretKey(kind, folder);
+        await this.secrets.store(key, value);
+        this.values.set(key, value);
+        this.changeEmitter.fire();
+    }
+
+    /**
+     * Moves credentials from the old places into secret storage: the
+     * `codebeat.tandemApiKey` setting, which is cleared afterwards, and
+     * `SUNO_API_TOKEN` in each folder's `.env`, which is left untouched.
+     */
+    public async migrate(): Promise<void> {
+        await this.migrateTandemSetting();
+        await this.migrateEnvFiles(vscode.workspace.workspaceFolders || []);
+    }
+
+    private async migrateTandemSetting(): Promise<void> {
+        const globalConfig = vscode.workspace.getConfiguration('codebeat');
+        const scopes = [
+            { config: globalConfig, target: vscode.ConfigurationTarget.Global, value: globalConfig.inspect<string>('tandemApiKey')?.globalValue },
+            { config: globalConfig, target: vscode.ConfigurationTarget.Workspace, value: globalConfig.inspect<string>('tandemApiKey')?.workspaceValue },
+            ...(vscode.workspace.workspaceFolders || []).map(folder => {
+                const config = vscode.workspace.getConfiguration('codebeat', folder.uri);
+                return { config, target: vscode.ConfigurationTarget.WorkspaceFolder, value: config.inspect<string>('tandemApiKey')?.workspaceFolderValue };
+            })
+        ].filter(scope => typeof scope.value === 'string');
+
+        if (scopes.length === 0) {
+            return;
+        }
+
+        // Scopes are ordered from least to most specific, like VS Code resolves them
+        const key = scopes.map(scope => scope.value!.trim()).filter(value => value.length > 0).pop();
+        if (key && !this.getTandemApiKey()) {
+            await this.secrets.store(this.getSecretKey('tandemApiKey'), key);
+            this.values.set(this.getSecretKey('tandemApiKey'), key);
+        }
+        for (const scope of scopes) {
+            await scope.config.update('tandemApiKey', undefined, scope.target);
+        }
+
+        console.log('CodeBeat: Moved the Tandemn API key from settings into secret storage');
+        vscode.window.showInformationMessage('CodeBeat: Your Tandemn API key was moved from settings into secure storage.');
+        this.changeEmitter.fire();
+    }
+
+    private async migrateEnvFiles(folders: readonly vscode.WorkspaceFolder[]): Promise<void> {
+        // Each folder is migrated once, so a token set up later is never replaced by a stale .env
+        const migratedFolders = this.memento.get<string[]>(CredentialStore.migratedFoldersKey, []);
+        const migratedFrom: string[] = [];
+        for (const folder of folders) {
+            const folderKey = ActiveFolderTracker.getFolderKey(folder);
+            if (migratedFolders.includes(folderKey)) {
+                continue;
+            }
+            const token = await this.readEnvToken(folder);
+            if (!token) {
+                continue;
+            }
+            migratedFolders.push(folderKey);
+            if (token === this.getSunoToken(folder)) {
+                continue;
+            }
+
+            // The first token becomes the default, tokens that differ from it stay with their folder
+            const globalKey = this.getSecretKey('sunoApiToken');
+            const key = this.values.has(globalKey) ? this.getSecretKey('sunoApiToken', folder) : globalKey;
+            await this.secrets.store(key, token);
+            this.values.set(key, token);
+            migratedFrom.push(folder.name);
+        }
+        await this.memento.update(CredentialStore.migratedFoldersKey, migratedFolders);
+
+        if (migratedFrom.length > 0) {
+            console.log(`CodeBeat: Moved SUNO_API_TOKEN from .env into secret storage (${migratedFrom.join(', ')})`);
+            vscode.window.showInformationMessage(
+                `CodeBeat: SUNO_API_TOKEN from .env in ${migratedFrom.join(', ')} is now kept in secure storage. You can remove it from .env.`
+            );
+            this.changeEmitter.fire();
+        }
+    }
+
+    private async readEnvToken(folder: vscode.WorkspaceFolder): Promise<string | undefined> {
+        try {
+            const content = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder.uri, '.env'));
+            return dotenv.parse(Buffer.from(content)).SUNO_API_TOKEN || undefined;
+        } catch {
+            return undefined; // No .env in this folder
+        }
+    }
+
+    private async loadSecret(key: string): Promise<void> {
+        const value = await this.secrets.get(key);
+        if (value) {
+            this.values.set(key, value);
+        } else {
+            this.values.delete(key);
+        }
+    }
+
+    private getSecretKey(kind: CredentialKind, folder?: vscode.WorkspaceFolder): string {
+        return folder ? `codebeat.${kind}:${ActiveFolderTracker.getFolderKey(folder)}` : `codebeat.${kind}`;
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.changeEmitter.dispose();
+    }
+}
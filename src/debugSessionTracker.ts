@@ -0,0 +1,178 @@
+import * as vscode from 'vscode';
+import { MusicParameterGenerator } from './musicParameterGenerator';
+import { MusicBackend } from './musicBackend';
+import { SessionRecorder } from './sessionRecorder';
+
+export type DebugState = 'investigating' | 'paused' | 'exception' | 'resolved';
+
+export interface DebugSummary {
+    sessionName: string;
+    breakpointCount: number;
+    breakpointHits: number;
+    exceptionCount: number;
+}
+
+/**
+ * Follows debug sessions and switches to investigation music while one is
+ * running: a tension sting on exceptions and calmer music after a clean end.
+ */
+export class DebugSessionTracker implements vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+    private isTracking: boolean = false;
+    private activeSessions: Set<string> = new Set();
+    private summary: DebugSummary | undefined;
+    private exitCode: number | undefined;
+    private hasPausedMusic: boolean = false;
+    private lastExceptionSting: number = 0;
+    private readonly exceptionStingCooldown = 10000; // Stepping through a throw can stop several times in a row
+
+    constructor(
+        private musicGenerator: MusicParameterGenerator,
+        private musicBackend: MusicBackend,
+        private sessionRecorder: SessionRecorder
+    ) {}
+
+    public startTracking(): void {
+        if (this.isTracking) {
+            return;
+        }
+
+        this.isTracking = true;
+        console.log('CodeBeat: Starting debug session tracking...');
+
+        const tracker = this;
+        this.disposables.push(
+            vscode.debug.onDidStartDebugSession(session => this.onSessionStarted(session)),
+            vscode.debug.onDidTerminateDebugSession(session => this.onSessionTerminated(session)),
+            vscode.debug.onDidChangeBreakpoints(() => this.onBreakpointsChanged()),
+            vscode.debug.registerDebugAdapterTrackerFactory('*', {
+                createDebugAdapterTracker(): vscode.DebugAdapterTracker {
+                    return {
+                        onDidSendMessage: message => tracker.onAdapterMessage(message),
+                        onExit: code => {
+                            if (code !== undefined) {
+                                tracker.exitCode = code;
+                            }
+                        }
+                    };
+                }
+            })
+        );
+    }
+
+    public isDebugging(): boolean {
+        return this.activeSessions.size > 0;
+    }
+
+    private onSessionStarted(session: vscode.DebugSession): void {
+        // Child sessions (e.g. one per worker in js-debug) belong to the parent's investigation
+        if (session.parentSession) {
+            return;
+        }
+
+        const isFirst = this.activeSessions.size === 0;
+        this.activeSessions.add(session.id);
+        if (!isFirst) {
+            return;
+        }
+
+        console.log(`CodeBeat: Debug session "${session.name}" started`);
+        this.summary = {
+            sessionName: session.name,
+            breakpointCount: this.countBreakpoints(),
+            breakpointHits: 0,
+            exceptionCount: 0
+        };
+        this.exitCode = undefined;
+        this.hasPausedMusic = false;
+        this.playDebugMusic('investigating', this.summary);
+    }
+
+    private onSessionTerminated(session: vscode.DebugSession): void {
+        if (!this.activeSessions.delete(session.id) || this.activeSessions.size > 0 || !this.summary) {
+            return;
+        }
+
+        const endedCleanly = this.summary.exceptionCount === 0 && (this.exitCode === undefined || this.exitCode === 0);
+        console.log(`CodeBeat: Debug session "${session.name}" ended ${endedCleanly ? 'cleanly' : `with exit code ${this.exitCode}`}`);
+
+        // After a messy end the editor's own music takes over again on the next change
+        if (endedCleanly) {
+            this.playDebugMusic('resolved', this.summary);
+        }
+        this.summary = undefined;
+    }
+
+    private onBreakpointsChanged(): void {
+        if (this.summary) {
+            this.summary.breakpointCount = this.countBreakpoints();
+        }
+    }
+
+    private onAdapterMessage(message: any): void {
+        if (!this.summary || message?.type !== 'event') {
+            return;
+        }
+
+        if (message.event === 'exited' && typeof message.body?.exitCode === 'number') {
+            this.exitCode = message.body.exitCode;
+        }
+
+        if (message.event !== 'stopped') {
+            return;
+        }
+
+        const reason = message.body?.reason;
+        if (reason === 'exception') {
+            this.summary.exceptionCount++;
+            this.onException(this.summary, message.body?.text || message.body?.description);
+        } else if (reason === 'breakpoint' || reason === 'function breakpoint' || reason === 'data breakpoint') {
+            this.summary.breakpointHits++;
+            // Only the first hit changes the music; stepping afterwards would churn tracks
+            if (!this.hasPausedMusic) {
+                this.hasPausedMusic = true;
+                this.playDebugMusic('paused', this.summary);
+            }
+        }
+    }
+
+    private onException(summary: DebugSummary, description: string | undefined): void {
+        vscode.window.setStatusBarMessage(`🐞 CodeBeat: Stopped on exception${description ? ` - ${description}` : ''}`, 5000);
+
+        const now = Date.now();
+        if (now - this.lastExceptionSting < this.exceptionStingCooldown) {
+            return;
+        }
+        this.lastExceptionSting = now;
+        this.playDebugMusic('exception', summary);
+    }
+
+    private async playDebugMusic(state: DebugState, summary: DebugSummary): Promise<void> {
+        try {
+            const config = vscode.workspace.getConfiguration('codebeat');
+            if (!config.get('enabled', true) || !config.get('debugMusic', true)) {
+                return;
+            }
+
+            const musicParams = this.musicGenerator.generateFromDebugState(state, summary);
+            this.sessionRecorder.record('debug', { debugState: state, ...summary });
+
+            // The exception sting plays over the investigation music instead of replacing it
+            await this.musicBackend.generateMusic(musicParams, state === 'exception' ? 'failure_sting' : 'debug_session');
+
+            console.log(`CodeBeat: Generated ${state} debug music for "${summary.sessionName}"`);
+        } catch (error) {
+            console.error('CodeBeat: Error generating debug music:', error);
+        }
+    }
+
+    private countBreakpoints(): number {
+        return vscode.debug.breakpoints.filter(breakpoint => breakpoint.enabled).length;
+    }
+
+    public dispose(): void {
+        this.isTracking = false;
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import { MusicParameterGenerator } from './musicParameterGenerator';
-import { SunoApiClient } from './sunoApiClient';
+import { MusicBackend } from './musicBackend';
+import { SessionRecorder } from './sessionRecorder';
 
 export interface DiagnosticSummary {
     errorCount: number;
@@ -20,7 +21,8 @@ export class DiagnosticTracker implements vscode.Disposable {
 
     constructor(
         private musicGenerator: MusicParameterGenerator,
-        private sunoApiClient: SunoApiClient
+        private musicBackend: MusicBackend,
+        private sessionRecorder: SessionRecorder
     ) {}
 
     public startTracking(): void {
@@ -98,6 +100,10 @@ export class DiagnosticTracker implements vscode.Disposable {
         const newSummary = this.createDiagnosticSummary(diagnostics);
         
         console.log(`CodeBeat: Diagnostic summary - ${newSummary.errorCount} errors, ${newSummary.warningCount} warnings`);
+        this.sessionRecorder.record('diagnostics', {
+            ...newSummary,
+            previousErrorCount: this.lastDiagnosticSummary?.errorCount
+        });
 
         // Check if diagnostics have improved
         const hasImproved = this.hasImproved(this.lastDiagnosticSummary, newSummary);
@@ -183,8 +189,8 @@ export class DiagnosticTracker implements vscode.Disposable {
                 fileName: activeEditor.document.fileName
             } : undefined;
 
-            // Send to Suno (mock) API
-            await this.sunoApiClient.generateMusic(musicParams, 'error_feedback', codeContext);
+            // Send to the active music backend
+            await this.musicBackend.generateMusic(musicParams, 'error_feedback', codeContext);
 
             console.log(`CodeBeat: Generated diagnostic feedback music - ${current.errorCount} errors, ${current.warningCount} warnings`);
 
@@ -198,7 +204,11 @@ export class DiagnosticTracker implements vscode.Disposable {
         if (previous.errorCount > 0 && current.errorCount === 0) {
             console.log('CodeBeat: All errors resolved - triggering bug fix celebration!');
             
-            this.sunoApiClient.generateCelebration('bug_fix', `Fixed ${previous.errorCount} errors`);
+            this.musicBackend.generateCelebration('bug_fix', `Fixed ${previous.errorCount} errors`);
+            this.sessionRecorder.record('celebration', {
+                celebrationType: 'bug_fix',
+                description: `Fixed ${previous.errorCount} errors`
+            });
             
             vscode.window.showInformationMessage(
                 `🐛✨ CodeBeat: All errors resolved! Fixed ${previous.errorCount} error(s)`
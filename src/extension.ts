@@ -3,33 +3,127 @@ import { CodeMonitor } from './codeMonitor';
 import { TerminalListener } from './terminalListener';
 import { DiagnosticTracker } from './diagnosticTracker';
 import { TandemApiClient } from './tandemApiClient';
+import { LocalCodeAnalyzer } from './localCodeAnalyzer';
 import { MusicParameterGenerator } from './musicParameterGenerator';
 import { SuccessDetectionSystem } from './successDetectionSystem';
+import { FailureDetectionSystem } from './failureDetectionSystem';
 import { SunoApiClient } from './sunoApiClient';
+import { TrackCache } from './trackCache';
+import { LocalSynthBackend } from './localSynthBackend';
+import { MusicBackendManager } from './musicBackend';
+import { TrackHistory } from './trackHistory';
+import { NowPlayingPanel } from './nowPlayingPanel';
+import { WorkspaceIndexer } from './workspaceIndexer';
+import { SessionRecorder } from './sessionRecorder';
+import { SessionReplayer } from './sessionReplayer';
+import { FlowStateDetector } from './flowStateDetector';
+import { DebugSessionTracker } from './debugSessionTracker';
+import { GitIntegration } from './gitIntegration';
+import { SuccessRuleStore } from './successRules';
+import { CelebrationRegistry } from './celebrationRegistry';
+import { MusicProfileStore } from './musicProfile';
+import { ActiveFolderTracker } from './activeFolder';
+import { CredentialStore, CredentialKind, CredentialStatus } from './credentialStore';
+import { CredentialSetup } from './credentialSetup';
+import { PrivacyGuard } from './privacyGuard';
+import { HttpClient } from './httpClient';
+import { GenerationQuota } from './generationQuota';
 
-export function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext) {
     console.log('CodeBeat extension is now active!');
 
     // Initialize core components
-    const tandemClient = new TandemApiClient();
-    const musicGenerator = new MusicParameterGenerator();
-    const sunoClient = new SunoApiClient();
+    const folderTracker = new ActiveFolderTracker();
+    const credentials = new CredentialStore(context.secrets, context.globalState);
+    await credentials.initialize();
+    await credentials.migrate();
+
+    const tandemHttp = new HttpClient('Tandemn', { timeoutMs: 20000, maxRetries: 2, failureThreshold: 3 });
+    const sunoHttp = new HttpClient('Suno');
+    const generationQuota = new GenerationQuota(context.globalState);
+    const tandemClient = new TandemApiClient(credentials, tandemHttp);
+    const localAnalyzer = new LocalCodeAnalyzer();
+    const privacyGuard = new PrivacyGuard(localAnalyzer);
+    const celebrationRegistry = new CelebrationRegistry();
+    const musicProfiles = new MusicProfileStore(folderTracker);
+    const musicGenerator = new MusicParameterGenerator(celebrationRegistry, musicProfiles);
+    const audioHttp = new HttpClient('Suno audio', { timeoutMs: 60000, maxRetries: 2 });
+    const trackCache = new TrackCache(context.globalStorageUri, audioHttp);
+    const sessionRecorder = new SessionRecorder(context.storageUri ?? context.globalStorageUri, folderTracker);
+    const sunoClient = new SunoApiClient(musicGenerator, trackCache, sessionRecorder, folderTracker, credentials, sunoHttp, generationQuota);
+    const localSynth = new LocalSynthBackend(context.globalStorageUri, musicGenerator);
+    const musicBackend = new MusicBackendManager([sunoClient, localSynth]);
+    const trackHistory = new TrackHistory(context.globalState, folderTracker);
+    const trackHistoryListener = musicBackend.onDidChangeTrack(track => trackHistory.record(track));
     
-    const codeMonitor = new CodeMonitor(tandemClient, musicGenerator, sunoClient);
-    const terminalListener = new TerminalListener();
-    const diagnosticTracker = new DiagnosticTracker(musicGenerator, sunoClient);
-    const successDetectionSystem = new SuccessDetectionSystem(sunoClient);
+    const workspaceIndexer = new WorkspaceIndexer(localAnalyzer, context.workspaceState, folderTracker);
+    const flowStateDetector = new FlowStateDetector();
+    const debugSessionTracker = new DebugSessionTracker(musicGenerator, musicBackend, sessionRecorder);
+    const codeMonitor = new CodeMonitor(tandemClient, localAnalyzer, musicGenerator, musicBackend, workspaceIndexer, flowStateDetector, debugSessionTracker, sessionRecorder, privacyGuard);
+    const terminalListener = new TerminalListener(sessionRecorder, privacyGuard);
+    const diagnosticTracker = new DiagnosticTracker(musicGenerator, musicBackend, sessionRecorder);
+    const successRules = new SuccessRuleStore(celebrationRegistry);
+    const successDetectionSystem = new SuccessDetectionSystem(musicBackend, context.workspaceState, celebrationRegistry, successRules, sessionRecorder);
+    const failureDetectionSystem = new FailureDetectionSystem(musicGenerator, musicBackend, successRules, sessionRecorder);
+    const gitIntegration = new GitIntegration(musicGenerator, musicBackend, successDetectionSystem, sessionRecorder);
+    const sessionReplayer = new SessionReplayer(sessionRecorder, musicGenerator, musicBackend);
+    const credentialSetup = new CredentialSetup(credentials, tandemClient, sunoClient, folderTracker);
 
     // Create status bar item
     const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
     statusBarItem.name = 'CodeBeat Control';
     
     let isPlaying = true; // Extension starts enabled by default
+
+    /** The first credential the current settings need that is missing or was rejected. */
+    function getCredentialProblem(): { kind: CredentialKind; status: CredentialStatus } | undefined {
+        const config = vscode.workspace.getConfiguration('codebeat');
+        const sunoStatus = credentials.getStatus('sunoApiToken', folderTracker.getActiveFolder());
+        if (config.get('backend', 'suno') === 'suno' && (sunoStatus === 'missing' || sunoStatus === 'invalid')) {
+            return { kind: 'sunoApiToken', status: sunoStatus };
+        }
+
+        // In auto mode a missing Tandemn key just means local analysis
+        const engine = config.get<string>('analysisEngine', 'auto');
+        const tandemStatus = credentials.getStatus('tandemApiKey');
+        if ((engine === 'remote' && tandemStatus === 'missing') || (engine !== 'local' && tandemStatus === 'invalid')) {
+            return { kind: 'tandemApiKey', status: tandemStatus };
+        }
+        return undefined;
+    }
     
+    /** Status bar additions for Suno: generations running or waiting, pauses and today's usage. */
+    function describeSunoActivity(): { text: string; tooltip: string } {
+        if (musicBackend.getActiveBackend() !== sunoClient) {
+            return { text: '', tooltip: '' };
+        }
+        const queue = sunoClient.getQueueState();
+        const usage = generationQuota.getUsage();
+        const retryAt = sunoHttp.isOpen() ? sunoHttp.getRetryAt() : undefined;
+        const label = (triggerType: string) => triggerType.replace(/_/g, ' ');
+        const queueLines = [
+            ...(queue.submitting ? [`Requesting ${label(queue.submitting.triggerType)} music`] : []),
+            ...queue.polling.map(generation => `Generating ${label(generation.triggerType)} music`),
+            ...queue.pending.map(generation => `Waiting: ${label(generation.triggerType)} (priority ${generation.priority})`)
+        ];
+        const lines = [
+            ...(retryAt ? [`Suno paused after repeated failures until ${new Date(retryAt).toLocaleTimeString()}`] : []),
+            ...queueLines,
+            usage.limit > 0 ? `Suno generations today: ${usage.used} of ${usage.limit}` : `Suno generations today: ${usage.used}`
+        ];
+
+        const count = usage.limit > 0 ? `${usage.used}/${usage.limit}` : `${usage.used}`;
+        const icon = retryAt ? ' $(debug-disconnect)' : queueLines.length > 0 ? ' $(sync~spin)' : '';
+        return { text: `${icon} ${count}`, tooltip: `\n${lines.join('\n')}` };
+    }
+
     function updateStatusBar() {
         const config = vscode.workspace.getConfiguration('codebeat');
         const isEnabled = config.get('enabled', true);
-        const isMuted = sunoClient.getMuteStatus();
+        const isMuted = musicBackend.isMuted();
+        const volume = config.get('volume', 50);
+        const credentialProblem = getCredentialProblem();
+        const sunoActivity = describeSunoActivity();
         
         if (!isEnabled) {
             // Extension is disabled
@@ -37,16 +131,24 @@ export function activate(context: vscode.ExtensionContext) {
             statusBarItem.tooltip = 'CodeBeat is disabled - Click to enable';
             statusBarItem.command = 'codebeat.play';
             statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+        } else if (credentialProblem) {
+            // Enabled, but a credential it needs is missing or invalid
+            const label = CredentialStore.labels[credentialProblem.kind];
+            const isInvalid = credentialProblem.status === 'invalid';
+            statusBarItem.text = '$(key) CodeBeat';
+            statusBarItem.tooltip = `CodeBeat: ${label} ${isInvalid ? 'was rejected' : 'is missing'} - Click to configure credentials`;
+            statusBarItem.command = 'codebeat.configureCredentials';
+            statusBarItem.backgroundColor = new vscode.ThemeColor(isInvalid ? 'statusBarItem.errorBackground' : 'statusBarItem.warningBackground');
         } else if (isMuted) {
             // Extension enabled but audio muted
-            statusBarItem.text = '$(mute) CodeBeat';
-            statusBarItem.tooltip = 'CodeBeat audio is muted - Click to unmute';
+            statusBarItem.text = `$(mute) CodeBeat${sunoActivity.text}`;
+            statusBarItem.tooltip = `CodeBeat audio is muted (volume ${volume}%) - Click to unmute${sunoActivity.tooltip}`;
             statusBarItem.command = 'codebeat.toggleAudio';
             statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
         } else {
             // Extension enabled and audio playing
-            statusBarItem.text = '$(unmute) CodeBeat';
-            statusBarItem.tooltip = 'CodeBeat audio is playing - Click to mute';
+            statusBarItem.text = `$(unmute) CodeBeat${sunoActivity.text}`;
+            statusBarItem.tooltip = `CodeBeat audio is playing (volume ${volume}%) - Click to mute${sunoActivity.tooltip}`;
             statusBarItem.command = 'codebeat.toggleAudio';
             statusBarItem.backgroundColor = undefined;
         }
@@ -55,10 +157,25 @@ export function activate(context: vscode.ExtensionContext) {
     
     updateStatusBar();
 
+    const configListener = vscode.workspace.onDidChangeConfiguration((event) => {
+        if (['enabled', 'volume', 'backend', 'analysisEngine'].some(setting => event.affectsConfiguration(`codebeat.${setting}`))) {
+            updateStatusBar();
+        }
+        if (event.affectsConfiguration('codebeat.workspaceProfile')) {
+            workspaceIndexer.start();
+        }
+    });
+
     // Set up event listeners and monitoring
+    successRules.start();
+    musicProfiles.start();
+    workspaceIndexer.start();
+    flowStateDetector.start();
     codeMonitor.startMonitoring();
-    terminalListener.startListening(successDetectionSystem);
+    terminalListener.startListening(successDetectionSystem, failureDetectionSystem);
     diagnosticTracker.startTracking();
+    debugSessionTracker.startTracking();
+    gitIntegration.start();
 
     // Register commands
     const playCommand = vscode.commands.registerCommand('codebeat.play', () => {
@@ -77,7 +194,7 @@ export function activate(context: vscode.ExtensionContext) {
         
         // Stop monitoring and audio playback
         codeMonitor.stopMonitoring();
-        sunoClient.stopAudio();
+        musicBackend.stop();
         updateStatusBar();
         
         vscode.window.showInformationMessage('⏹️ CodeBeat stopped');
@@ -93,34 +210,119 @@ export function activate(context: vscode.ExtensionContext) {
             vscode.window.showInformationMessage('🎵 CodeBeat enabled');
         } else {
             codeMonitor.stopMonitoring();
-            sunoClient.stopAudio(); // Stop audio when disabling
+            musicBackend.stop(); // Stop audio when disabling
             vscode.window.showInformationMessage('⏹️ CodeBeat disabled');
         }
         
         updateStatusBar();
     });
 
-    const celebrateCommand = vscode.commands.registerCommand('codebeat.celebrateNow', () => {
-        successDetectionSystem.triggerCelebration('compilation_success', 'User triggered celebration');
+    const celebrateCommand = vscode.commands.registerCommand('codebeat.celebrateNow', async () => {
+        const picked = await vscode.window.showQuickPick(
+            celebrationRegistry.getAll().map(definition => ({
+                label: `${definition.emoji} ${definition.label}`,
+                description: definition.type,
+                detail: definition.builtIn ? undefined : 'Custom celebration',
+                type: definition.type
+            })),
+            { placeHolder: 'Choose a celebration to play' }
+        );
+        if (picked) {
+            successDetectionSystem.triggerCelebration(picked.type, 'User triggered celebration');
+        }
+    });
+
+    const reshuffleCommand = vscode.commands.registerCommand('codebeat.reshuffle', async () => {
+        musicGenerator.reshuffle();
+        if (!await codeMonitor.reshuffle()) {
+            vscode.window.showInformationMessage('CodeBeat: The next analyzed file will use the new seed');
+        }
     });
 
     const toggleAudioCommand = vscode.commands.registerCommand('codebeat.toggleAudio', () => {
-        sunoClient.toggleAudio();
+        musicBackend.mute(!musicBackend.isMuted());
+        vscode.window.showInformationMessage(
+            `🎵 CodeBeat: Audio ${musicBackend.isMuted() ? 'muted' : 'unmuted'}`
+        );
         updateStatusBar(); // Update status bar to reflect mute status change
     });
 
+    function changeVolume(delta: number) {
+        const config = vscode.workspace.getConfiguration('codebeat');
+        const volume = Math.max(0, Math.min(100, config.get('volume', 50) + delta));
+        // The audio players pick the new value up from the configuration change
+        config.update('volume', volume, vscode.ConfigurationTarget.Global);
+        vscode.window.setStatusBarMessage(`🔊 CodeBeat volume: ${volume}%`, 2000);
+    }
+
+    const volumeUpCommand = vscode.commands.registerCommand('codebeat.volumeUp', () => {
+        changeVolume(10);
+    });
+
+    const volumeDownCommand = vscode.commands.registerCommand('codebeat.volumeDown', () => {
+        changeVolume(-10);
+    });
+
+    const showPlayerCommand = vscode.commands.registerCommand('codebeat.showPlayer', () => {
+        NowPlayingPanel.createOrShow(trackHistory, musicBackend);
+    });
+
+    const replaySessionCommand = vscode.commands.registerCommand('codebeat.replaySession', () => {
+        sessionReplayer.replaySession();
+    });
+
+    const configureCredentialsCommand = vscode.commands.registerCommand('codebeat.configureCredentials', () => {
+        credentialSetup.configure();
+    });
+
+    const credentialStatusListeners = [
+        credentials.onDidChange(() => updateStatusBar()),
+        folderTracker.onDidChangeActiveFolder(() => updateStatusBar())
+    ];
+    const sunoActivityListeners = [
+        sunoClient.onDidChangeQueue(() => updateStatusBar()),
+        sunoHttp.onDidChangeState(() => updateStatusBar()),
+        generationQuota.onDidChange(() => updateStatusBar())
+    ];
+
     // Add disposables to context
     context.subscriptions.push(
         playCommand,
         stopCommand,
         toggleCommand,
         celebrateCommand,
+        reshuffleCommand,
         toggleAudioCommand,
+        volumeUpCommand,
+        volumeDownCommand,
+        showPlayerCommand,
+        replaySessionCommand,
+        configureCredentialsCommand,
+        ...credentialStatusListeners,
+        ...sunoActivityListeners,
         statusBarItem,
+        configListener,
         codeMonitor,
+        workspaceIndexer,
+        flowStateDetector,
         terminalListener,
         diagnosticTracker,
-        sunoClient
+        debugSessionTracker,
+        successDetectionSystem,
+        successRules,
+        musicProfiles,
+        gitIntegration,
+        trackHistoryListener,
+        trackHistory,
+        sessionReplayer,
+        sessionRecorder,
+        musicBackend,
+        credentials,
+        generationQuota,
+        sunoHttp,
+        tandemHttp,
+        audioHttp,
+        folderTracker
     );
 
     // Show welcome message
@@ -0,0 +1,214 @@
+import * as vscode from 'vscode';
+import { MusicBackend, FailureKind, TrackInfo } from './musicBackend';
+import { MusicParameterGenerator } from './musicParameterGenerator';
+import { isBuildCommand, isTestCommand, isDeployCommand } from './commandClassifier';
+import { SessionRecorder } from './sessionRecorder';
+import { SuccessRuleStore } from './successRules';
+
+export interface FailureEvent {
+    taskName: string;
+    command: string;
+    origin: 'task' | 'shell'; // a configured task, or a command typed into a terminal
+    exitCode?: number;
+    output?: string;
+    timestamp: Date;
+}
+
+export class FailureDetectionSystem {
+    private lastFailureTime: Date = new Date(0);
+    private failureCooldown: number = 5000; // 5 seconds between failure stings
+    private readonly stingTimeout: number = 30000;
+    private failureStreaks: Map<string, number> = new Map();
+
+    private readonly crashPatterns: RegExp[] = [
+        /segmentation fault/i,
+        /core dumped/i,
+        /panicked at/i,
+        /Traceback \(most recent call last\)/,
+        /unhandled (promise )?rejection/i,
+        /uncaught (exception|error)/i,
+        /out of memory/i,
+        /stack overflow/i
+    ];
+
+    private readonly testFailurePatterns: RegExp[] = [
+        /\d+ (failing|failed)/i,
+        /tests? failed/i,
+        /^FAIL\s/m,
+        /assertion ?error/i
+    ];
+
+    private readonly compileErrorPatterns: RegExp[] = [
+        /error TS\d+/,
+        /error\[E\d+\]/,
+        /^\S+:\d+(:\d+)?: (fatal )?error\b/m,
+        /compilation failed/i,
+        /build failed/i,
+        /syntax ?error/i,
+        /cannot find (symbol|module)/i
+    ];
+
+    private readonly deployFailurePatterns: RegExp[] = [
+        /(deploy(ment)?|publish|release) failed/i,
+        /failed to (deploy|publish|push)/i,
+        /npm ERR! code E\d{3}/
+    ];
+
+    // Exit codes of processes killed by SIGABRT, SIGKILL and SIGSEGV
+    private readonly crashExitCodes = [134, 137, 139];
+
+    // Exit codes of processes stopped with Ctrl+C (SIGINT) or SIGTERM
+    private readonly interruptExitCodes = [130, 143];
+
+    constructor(
+        private musicGenerator: MusicParameterGenerator,
+        private musicBackend: MusicBackend,
+        private successRules: SuccessRuleStore,
+        private sessionRecorder: SessionRecorder
+    ) {}
+
+    public detectFailure(event: FailureEvent): void {
+        const config = vscode.workspace.getConfiguration('codebeat');
+        if (!config.get('enabled', true) || !config.get('failureMusic', true)) {
+            return;
+        }
+
+        if (event.exitCode !== undefined && this.interruptExitCodes.includes(event.exitCode)) {
+            console.log(`CodeBeat: "${event.command}" was interrupted (exit code ${event.exitCode}), no sting`);
+            return;
+        }
+
+        const failureKind = this.classifyFailure(event);
+        if (!failureKind) {
+            console.log(`CodeBeat: Ignoring unrecognized failure of "${event.command}"`);
+            return;
+        }
+
+        const key = this.getStreakKey(event.taskName, event.command);
+        const streak = (this.failureStreaks.get(key) || 0) + 1;
+        this.failureStreaks.set(key, streak);
+
+        console.log(`CodeBeat: Detected ${failureKind} for "${event.command}" (streak ${streak})`);
+
+        // Check cooldown period
+        if (this.isInCooldown()) {
+            console.log('CodeBeat: Failure detection in cooldown period, skipping sting');
+            return;
+        }
+        this.lastFailureTime = new Date();
+        this.sessionRecorder.record('failure', { failureKind, streak, command: event.command, exitCode: event.exitCode });
+
+        this.showFailureNotification(failureKind, streak);
+        this.playFailureMusic(failureKind, streak);
+    }
+
+    public recordSuccess(taskName: string, command: string): void {
+        this.failureStreaks.delete(this.getStreakKey(taskName, command));
+    }
+
+    private classifyFailure(event: FailureEvent): FailureKind | null {
+        const output = event.output || '';
+        const taskName = event.taskName.toLowerCase();
+        const command = event.command.toLowerCase();
+
+        if ((event.exitCode !== undefined && this.crashExitCodes.includes(event.exitCode)) ||
+            this.crashPatterns.some(pattern => pattern.test(output))) {
+            return 'crash';
+        }
+
+        // Commands typed into a terminal fail for all sorts of reasons, so only their output counts
+        if (event.origin === 'shell') {
+            return this.classifyFromOutput(event, output);
+        }
+
+        // The command of a configured task tells us most reliably what failed
+        if (isTestCommand(taskName, command, this.successRules.getCommandMatchers('test'))) {
+            return 'test_failure';
+        }
+        if (isDeployCommand(taskName, command, this.successRules.getCommandMatchers('deploy'))) {
+            return 'deploy_failure';
+        }
+        if (isBuildCommand(taskName, command, this.successRules.getCommandMatchers('build'))) {
+            return 'compile_error';
+        }
+
+        // Unknown command: only react when the output looks like a real failure
+        return this.classifyFromOutput(event, output);
+    }
+
+    private classifyFromOutput(event: FailureEvent, output: string): FailureKind | null {
+        if (this.testFailurePatterns.some(pattern => pattern.test(output))) {
+            return 'test_failure';
+        }
+        if (this.compileErrorPatterns.some(pattern => pattern.test(output))) {
+            return 'compile_error';
+        }
+        if (this.deployFailurePatterns.some(pattern => pattern.test(output)) &&
+            isDeployCommand(event.taskName.toLowerCase(), event.command.toLowerCase(), this.successRules.getCommandMatchers('deploy'))) {
+            return 'deploy_failure';
+        }
+        return null;
+    }
+
+    private async playFailureMusic(failureKind: FailureKind, streak: number): Promise<void> {
+        const { sting, debugging } = this.musicGenerator.generateFromFailure(failureKind, streak);
+
+        // Listen before generating: the local backend reports its track right away
+        const stingStarted = this.waitForSting();
+        try {
+            const response = await this.musicBackend.generateMusic(sting, 'failure_sting');
+            if (response.status !== 'error') {
+                await stingStarted.promise;
+            }
+
+            // The audio player queues this behind the sting if it is still playing
+            await this.musicBackend.generateMusic(debugging, 'error_feedback');
+        } catch (error) {
+            console.error('CodeBeat: Failed to play failure music:', error);
+        } finally {
+            // The sting may never start if generating it failed
+            stingStarted.cancel();
+        }
+    }
+
+    /** Resolves once the sting starts playing or fails, or after a timeout. */
+    private waitForSting(): { promise: Promise<void>; cancel: () => void } {
+        let finish = () => {};
+        const promise = new Promise<void>(resolve => {
+            const timeout = setTimeout(() => finish(), this.stingTimeout);
+            const listener = this.musicBackend.onDidChangeTrack((track: TrackInfo) => {
+                if (track.triggerType === 'failure_sting' &&
+                    (track.status === 'streaming' || track.status === 'complete' || track.status === 'error')) {
+                    finish();
+                }
+            });
+            finish = () => {
+                clearTimeout(timeout);
+                listener.dispose();
+                resolve();
+            };
+        });
+        return { promise, cancel: () => finish() };
+    }
+
+    private getStreakKey(taskName: string, command: string): string {
+        return (command || taskName).trim().toLowerCase();
+    }
+
+    private isInCooldown(): boolean {
+        const now = new Date();
+        return (now.getTime() - this.lastFailureTime.getTime()) < this.failureCooldown;
+    }
+
+    private showFailureNotification(failureKind: FailureKind, streak: number): void {
+        const messages = {
+            'compile_error': 'Build failed',
+            'test_failure': 'Tests failed',
+            'deploy_failure': 'Deployment failed',
+            'crash': 'Program crashed'
+        };
+
+        const repeat = streak > 1 ? ` (${streak} times in a row)` : '';
+        vscode.window.setStatusBarMessage(`💥 CodeBeat: ${messages[failureKind]}${repeat} - time to debug`, 5000);
+    }
+}
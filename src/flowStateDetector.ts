@@ -0,0 +1,203 @@
+import * as vscode from 'vscode';
+
+export type FlowState = 'warming_up' | 'in_flow' | 'thrashing' | 'idle';
+
+export interface FlowSnapshot {
+    state: FlowState;
+    charsPerMinute: number;
+    editBursts: number;
+    undoRatio: number; // share of edits that were undo/redo, 0-1
+    fileSwitchesPerMinute: number;
+    debugSessionsStarted: number;
+    idleSeconds: number;
+    activeMinutes: number; // length of the current uninterrupted working stretch
+}
+
+interface EditSample {
+    time: number;
+    chars: number;
+    isUndo: boolean;
+}
+
+/**
+ * Classifies how the developer is working from editor activity: typing
+ * cadence, edit bursts, idle gaps, undo frequency, file switching and debug
+ * sessions over a sliding window.
+ */
+export class FlowStateDetector implements vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+    private edits: EditSample[] = [];
+    private fileSwitches: number[] = [];
+    private debugStarts: number[] = [];
+    private activeDebugSessions: number = 0;
+    private lastActivity: number = Date.now();
+    private activeSince: number = Date.now();
+    private lastDocumentUri: string | undefined;
+    private state: FlowState = 'warming_up';
+    private evaluationTimer: NodeJS.Timeout | undefined;
+
+    private stateEmitter = new vscode.EventEmitter<FlowSnapshot>();
+    public readonly onDidChangeState = this.stateEmitter.event;
+
+    private readonly windowMs = 5 * 60 * 1000;
+    private readonly idleThresholdMs = 3 * 60 * 1000;
+    private readonly flowWarmupMs = 10 * 60 * 1000;
+    private readonly burstGapMs = 2000; // Edits closer together than this belong to one burst
+    private readonly maxCharsPerEdit = 100; // Pastes and formatter runs are not typing
+    private readonly evaluationInterval = 15000;
+
+    public start(): void {
+        if (this.disposables.length > 0) {
+            return;
+        }
+
+        this.lastDocumentUri = vscode.window.activeTextEditor?.document.uri.toString();
+
+        this.disposables.push(
+            vscode.workspace.onDidChangeTextDocument(event => this.onDocumentChanged(event)),
+            vscode.window.onDidChangeActiveTextEditor(editor => this.onActiveEditorChanged(editor)),
+            vscode.debug.onDidStartDebugSession(() => {
+                this.activeDebugSessions++;
+                this.debugStarts.push(Date.now());
+                this.markActivity();
+            }),
+            vscode.debug.onDidTerminateDebugSession(() => {
+                this.activeDebugSessions = Math.max(0, this.activeDebugSessions - 1);
+                this.markActivity();
+            })
+        );
+
+        this.evaluationTimer = setInterval(() => this.evaluate(), this.evaluationInterval);
+    }
+
+    public getState(): FlowState {
+        return this.state;
+    }
+
+    public getSnapshot(): FlowSnapshot {
+        return this.buildSnapshot(Date.now());
+    }
+
+    private onDocumentChanged(event: vscode.TextDocumentChangeEvent): void {
+        // Output channels and other virtual documents change without the developer typing
+        if (event.document.uri.scheme !== 'file' && event.document.uri.scheme !== 'untitled') {
+            return;
+        }
+        if (event.contentChanges.length === 0) {
+            return;
+        }
+
+        const chars = event.contentChanges.reduce(
+            (sum, change) => sum + Math.max(change.text.length, change.rangeLength), 0
+        );
+        this.edits.push({
+            time: Date.now(),
+            chars: Math.min(chars, this.maxCharsPerEdit),
+            isUndo: event.reason === vscode.TextDocumentChangeReason.Undo ||
+                event.reason === vscode.TextDocumentChangeReason.Redo
+        });
+        this.markActivity();
+    }
+
+    private onActiveEditorChanged(editor: vscode.TextEditor | undefined): void {
+        if (!editor) {
+            return;
+        }
+
+        const uri = editor.document.uri.toString();
+        if (uri !== this.lastDocumentUri) {
+            this.lastDocumentUri = uri;
+            this.fileSwitches.push(Date.now());
+            this.markActivity();
+        }
+    }
+
+    private markActivity(): void {
+        const now = Date.now();
+        if (now - this.lastActivity >= this.idleThresholdMs) {
+            // Coming back from a break starts a new working stretch
+            this.activeSince = now;
+        }
+        this.lastActivity = now;
+
+        if (this.state === 'idle') {
+            this.evaluate();
+        }
+    }
+
+    private evaluate(): void {
+        const snapshot = this.buildSnapshot(Date.now());
+        if (snapshot.state !== this.state) {
+            console.log(`CodeBeat: Flow state ${this.state} -> ${snapshot.state}`, snapshot);
+            this.state = snapshot.state;
+            this.stateEmitter.fire(snapshot);
+        }
+    }
+
+    private buildSnapshot(now: number): FlowSnapshot {
+        const windowStart = now - this.windowMs;
+        this.edits = this.edits.filter(edit => edit.time >= windowStart);
+        this.fileSwitches = this.fileSwitches.filter(time => time >= windowStart);
+        this.debugStarts = this.debugStarts.filter(time => time >= windowStart);
+
+        const idleMs = now - this.lastActivity;
+        const activeMs = idleMs >= this.idleThresholdMs ? 0 : now - this.activeSince;
+        // Rates are per minute of the window, or of the stretch if it is shorter
+        const minutes = Math.max(1, Math.min(this.windowMs, activeMs)) / 60000;
+
+        const typedChars = this.edits.filter(edit => !edit.isUndo).reduce((sum, edit) => sum + edit.chars, 0);
+        const undoCount = this.edits.filter(edit => edit.isUndo).length;
+        const editBursts = this.edits.filter(
+            (edit, index) => index === 0 || edit.time - this.edits[index - 1].time > this.burstGapMs
+        ).length;
+
+        const snapshot: FlowSnapshot = {
+            state: this.state,
+            charsPerMinute: Math.round(typedChars / minutes),
+            editBursts,
+            undoRatio: Math.round((undoCount / Math.max(1, this.edits.length)) * 100) / 100,
+            fileSwitchesPerMinute: Math.round((this.fileSwitches.length / minutes) * 10) / 10,
+            debugSessionsStarted: this.debugStarts.length,
+            idleSeconds: Math.round(idleMs / 1000),
+            activeMinutes: Math.round(activeMs / 60000)
+        };
+        snapshot.state = this.classify(snapshot, idleMs, activeMs);
+        return snapshot;
+    }
+
+    private classify(snapshot: FlowSnapshot, idleMs: number, activeMs: number): FlowState {
+        // A running debug session counts as work even without typing
+        if (idleMs >= this.idleThresholdMs && this.activeDebugSessions === 0) {
+            return 'idle';
+        }
+
+        const isUndoHeavy = this.edits.length >= 10 && snapshot.undoRatio >= 0.3;
+        const isHopping = snapshot.fileSwitchesPerMinute >= 2 && snapshot.charsPerMinute < 40;
+        const isRestartingDebugger = snapshot.debugSessionsStarted >= 4;
+        if (isUndoHeavy || isHopping || isRestartingDebugger) {
+            return 'thrashing';
+        }
+
+        // Staying in flow needs less than getting into it, so short pauses don't break it
+        const minCharsPerMinute = this.state === 'in_flow' ? 15 : 30;
+        if (activeMs >= this.flowWarmupMs &&
+            snapshot.charsPerMinute >= minCharsPerMinute &&
+            snapshot.editBursts >= 3 &&
+            snapshot.fileSwitchesPerMinute < 1 &&
+            snapshot.undoRatio < 0.15) {
+            return 'in_flow';
+        }
+
+        return 'warming_up';
+    }
+
+    public dispose(): void {
+        if (this.evaluationTimer) {
+            clearInterval(this.evaluationTimer);
+            this.evaluationTimer = undefined;
+        }
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.stateEmitter.dispose();
+    }
+}
@@ -0,0 +1,103 @@
+import { MusicParameters } from './musicParameterGenerator';
+import { MusicTriggerType, CodeContext, isInterruptTrigger } from './musicBackend';
+import { SunoApiResponse } from './sunoApiClient';
+
+/** Interrupts play over the background music, so each channel only supersedes its own tracks. */
+export type PlaybackChannel = 'interrupt' | 'background';
+
+export interface GenerationRequest {
+    id: string;
+    params: MusicParameters;
+    triggerType: MusicTriggerType;
+    codeContext?: CodeContext;
+    priority: number;
+    channel: PlaybackChannel;
+    enqueuedAt: number;
+    resolve: (response: SunoApiResponse) => void;
+}
+
+/** A request as shown to the user, without its parameters and callbacks. */
+export interface QueuedGeneration {
+    requestId: string;
+    triggerType: MusicTriggerType;
+    priority: number;
+    enqueuedAt: string;
+}
+
+export interface GenerationQueueState {
+    submitting: QueuedGeneration | undefined;
+    polling: QueuedGeneration[];
+    pending: QueuedGeneration[];
+}
+
+const triggerPriorities: { [trigger in MusicTriggerType]: number } = {
+    'success_celebration': 5,
+    'failure_sting': 4,
+    'error_feedback': 3,
+    'debug_session': 3,
+    'code_analysis': 2,
+    'manual': 1
+};
+
+export function getTriggerPriority(triggerType: MusicTriggerType): number {
+    return triggerPriorities[triggerType];
+}
+
+export function getPlaybackChannel(triggerType: MusicTriggerType): PlaybackChannel {
+    return isInterruptTrigger(triggerType) ? 'interrupt' : 'background';
+}
+
+export function describeGeneration(request: GenerationRequest): QueuedGeneration {
+    return {
+        requestId: request.id,
+        triggerType: request.triggerType,
+        priority: request.priority,
+        enqueuedAt: new Date(request.enqueuedAt).toISOString()
+    };
+}
+
+/**
+ * Generation requests waiting for their turn, highest priority first and
+ * oldest first within a priority. Only the newest waiting background request
+ * of each trigger type is kept: music for a file the user already left is
+ * not worth an API call. Celebrations and stings each mark an event of their
+ * own, so none of them is ever replaced.
+ */
+export class GenerationQueue {
+    private pending: GenerationRequest[] = [];
+
+    /** Adds a request and returns the waiting requests it replaces. */
+    public enqueue(request: GenerationRequest): GenerationRequest[] {
+        const supersedes = (candidate: GenerationRequest) =>
+            request.channel === 'background' && candidate.triggerType === request.triggerType;
+        const superseded = this.pending.filter(supersedes);
+        this.pending = this.pending.filter(candidate => !supersedes(candidate));
+        this.pending.push(request);
+        this.pending.sort((a, b) => b.priority - a.priority || a.enqueuedAt - b.enqueuedAt);
+        return superseded;
+    }
+
+    /** Removes and returns the first request that is not blocked. */
+    public takeNext(isBlocked: (request: GenerationRequest) => boolean): GenerationRequest | undefined {
+        const index = this.pending.findIndex(request => !isBlocked(request));
+        if (index < 0) {
+            return undefined;
+        }
+        return this.pending.splice(index, 1)[0];
+    }
+
+    /** Number of waiting requests ahead of a queued one. */
+    public countAhead(request: GenerationRequest): number {
+        return this.pending.indexOf(request);
+    }
+
+    public getPending(): GenerationRequest[] {
+        return [...this.pending];
+    }
+
+    public clear(): GenerationRequest[] {
+        const cleared = this.pending;
+        this.pending = [];
+        return cleared;
+    }
+}
@@ -0,0 +1,66 @@
+import * as vscode from 'vscode';
+
+export interface GenerationUsage {
+    date: string; // local day, YYYY-MM-DD
+    used: number;
+    limit: number; // 0 means no limit
+}
+
+/**
+ * Counts the Suno generations started per day against the
+ * `codebeat.dailyGenerationQuota` setting. The count is kept in global state
+ * so it covers every workspace and survives restarts; it starts over at
+ * local midnight.
+ */
+export class GenerationQuota implements vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+    private changeEmitter = new vscode.EventEmitter<GenerationUsage>();
+    public readonly onDidChange = this.changeEmitter.event;
+
+    private static readonly storageKey = 'codebeat.generationUsage';
+
+    constructor(private memento: vscode.Memento) {
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('codebeat.dailyGenerationQuota')) {
+                    this.changeEmitter.fire(this.getUsage());
+                }
+            })
+        );
+    }
+
+    public getUsage(): GenerationUsage {
+        const today = GenerationQuota.getToday();
+        const stored = this.memento.get<{ date: string; used: number }>(GenerationQuota.storageKey);
+        return {
+            date: today,
+            used: stored && stored.date === today ? stored.used : 0,
+            limit: Math.max(0, vscode.workspace.getConfiguration('codebeat').get('dailyGenerationQuota', 0))
+        };
+    }
+
+    public isExhausted(): boolean {
+        const usage = this.getUsage();
+        return usage.limit > 0 && usage.used >= usage.limit;
+    }
+
+    /** Called once for every generation the API accepted. */
+    public async record(): Promise<void> {
+        const usage = this.getUsage();
+        usage.used++;
+        await this.memento.update(GenerationQuota.storageKey, { date: usage.date, used: usage.used });
+        this.changeEmitter.fire(usage);
+    }
+
+    private static getToday(): string {
+        const now = new Date();
+        const pad = (value: number) => value.toString().padStart(2, '0');
+        return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.changeEmitter.dispose();
+    }
+}
@@ -0,0 +1,76 @@
+/*
+ * The part of the built-in Git extension's API (extensions/git/src/api/git.d.ts
+ * in the VS Code repository) that CodeBeat uses.
+ */
+
+import { Uri, Event } from 'vscode';
+
+export interface Branch {
+    readonly type: number;
+    readonly name?: string;
+    readonly commit?: string;
+    readonly upstream?: { readonly remote: string; readonly name: string };
+    readonly ahead?: number;
+    readonly behind?: number;
+}
+
+export interface CommitShortStat {
+    readonly files: number;
+    readonly insertions: number;
+    readonly deletions: number;
+}
+
+export interface Commit {
+    readonly hash: string;
+    readonly message: string;
+    readonly parents: string[];
+    readonly authorDate?: Date;
+    readonly shortStat?: CommitShortStat;
+}
+
+export interface Change {
+    readonly uri: Uri;
+    readonly originalUri: Uri;
+    readonly renameUri: Uri | undefined;
+    readonly status: number;
+}
+
+export interface RepositoryState {
+    readonly HEAD: Branch | undefined;
+    readonly mergeChanges: Change[];
+    readonly indexChanges: Change[];
+    readonly workingTreeChanges: Change[];
+    readonly onDidChange: Event<void>;
+}
+
+export interface LogOptions {
+    readonly maxEntries?: number;
+    readonly path?: string;
+    readonly range?: string;
+    readonly shortStats?: boolean;
+}
+
+export interface Repository {
+    readonly rootUri: Uri;
+    readonly state: RepositoryState;
+    readonly onDidCommit: Event<void>;
+    getCommit(ref: string): Promise<Commit>;
+    log(options?: LogOptions): Promise<Commit[]>;
+    diffBetween(ref1: string, ref2: string): Promise<Change[]>;
+}
+
+export type APIState = 'uninitialized' | 'initialized';
+
+export interface API {
+    readonly state: APIState;
+    readonly onDidChangeState: Event<APIState>;
+    readonly repositories: Repository[];
+    readonly onDidOpenRepository: Event<Repository>;
+    readonly onDidCloseRepository: Event<Repository>;
+}
+
+export interface GitExtension {
+    readonly enabled: boolean;
+    readonly onDidChangeEnablement: Event<boolean>;
+    getAPI(version: 1): API;
+}
@@ -0,0 +1,192 @@
+import * as vscode from 'vscode';
+import { API, GitExtension, Repository, CommitShortStat } from './git';
+import { MusicParameterGenerator } from './musicParameterGenerator';
+import { MusicBackend, CelebrationIntensity } from './musicBackend';
+import { SuccessDetectionSystem } from './successDetectionSystem';
+import { SessionRecorder } from './sessionRecorder';
+
+interface RepositorySnapshot {
+    headName?: string;
+    headCommit?: string;
+    upstream?: string;
+    ahead: number;
+    conflictCount: number;
+}
+
+/**
+ * Reacts to repository state from the built-in Git extension: commits,
+ * merge conflicts, resolving them and pushes.
+ */
+export class GitIntegration implements vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+    private repositoryDisposables: Map<string, vscode.Disposable[]> = new Map();
+    private snapshots: Map<string, RepositorySnapshot> = new Map();
+    private readonly largeCommitLines = 150;
+    private readonly largeCommitFiles = 10;
+
+    constructor(
+        private musicGenerator: MusicParameterGenerator,
+        private musicBackend: MusicBackend,
+        private successDetectionSystem: SuccessDetectionSystem,
+        private sessionRecorder: SessionRecorder
+    ) {}
+
+    public async start(): Promise<void> {
+        if (this.disposables.length > 0) {
+            return;
+        }
+
+        const extension = vscode.extensions.getExtension<GitExtension>('vscode.git');
+        if (!extension) {
+            console.log('CodeBeat: Git extension not available, git events disabled');
+            return;
+        }
+
+        try {
+            const gitExtension = extension.isActive ? extension.exports : await extension.activate();
+            if (!gitExtension.enabled) {
+                console.log('CodeBeat: Git is disabled (git.enabled), git events disabled');
+                return;
+            }
+
+            const api: API = gitExtension.getAPI(1);
+            api.repositories.forEach(repository => this.watchRepository(repository));
+            this.disposables.push(
+                api.onDidOpenRepository(repository => this.watchRepository(repository)),
+                api.onDidCloseRepository(repository => this.unwatchRepository(repository))
+            );
+            console.log(`CodeBeat: Watching ${api.repositories.length} git repositories`);
+        } catch (error) {
+            console.error('CodeBeat: Could not connect to the Git extension:', error);
+        }
+    }
+
+    private watchRepository(repository: Repository): void {
+        const key = repository.rootUri.toString();
+        if (this.repositoryDisposables.has(key)) {
+            return;
+        }
+
+        // The state at open time is the baseline, not an event
+        this.snapshots.set(key, this.takeSnapshot(repository));
+        this.repositoryDisposables.set(key, [
+            repository.state.onDidChange(() => this.onRepositoryChanged(repository)),
+            repository.onDidCommit(() => this.onCommit(repository))
+        ]);
+    }
+
+    private unwatchRepository(repository: Repository): void {
+        const key = repository.rootUri.toString();
+        this.repositoryDisposables.get(key)?.forEach(d => d.dispose());
+        this.repositoryDisposables.delete(key);
+        this.snapshots.delete(key);
+    }
+
+    private onRepositoryChanged(repository: Repository): void {
+        const key = repository.rootUri.toString();
+        const previous = this.snapshots.get(key);
+        const current = this.takeSnapshot(repository);
+        this.snapshots.set(key, current);
+
+        if (!previous || !this.isEnabled()) {
+            return;
+        }
+
+        if (previous.conflictCount === 0 && current.conflictCount > 0) {
+            this.onMergeConflict(current.conflictCount);
+        } else if (previous.conflictCount > 0 && current.conflictCount === 0) {
+            // Aborting a merge clears the conflicts too, but leaves nothing staged and HEAD where it was
+            const resolved = repository.state.indexChanges.length > 0 || current.headCommit !== previous.headCommit;
+            if (resolved) {
+                this.successDetectionSystem.requestCelebration(
+                    'bug_fix',
+                    `Resolved ${previous.conflictCount} merge conflict(s)`,
+                    { conflictCount: previous.conflictCount }
+                );
+            }
+        }
+
+        // A push leaves HEAD where it was and brings the branch level with its upstream
+        const sameHead = current.headName === previous.headName && current.headCommit === previous.headCommit;
+        const pushedCommits = previous.upstream === current.upstream && previous.ahead > 0 && current.ahead === 0;
+        const publishedBranch = !previous.upstream && current.upstream !== undefined && current.ahead === 0;
+        if (sameHead && current.upstream && (pushedCommits || publishedBranch)) {
+            const description = pushedCommits
+                ? `Pushed ${previous.ahead} commit(s) to ${current.upstream}`
+                : `Published ${current.headName} to ${current.upstream}`;
+            this.successDetectionSystem.requestCelebration('deployment', description, { upstream: current.upstream });
+        }
+    }
+
+    private async onCommit(repository: Repository): Promise<void> {
+        if (!this.isEnabled()) {
+            return;
+        }
+
+        try {
+            const [commit] = await repository.log({ maxEntries: 1, shortStats: true });
+            if (!commit) {
+                return;
+            }
+
+            const stats = commit.shortStat ?? await this.countChangedFiles(repository, commit.hash, commit.parents[0]);
+            const linesChanged = stats.insertions + stats.deletions;
+            const intensity: CelebrationIntensity = linesChanged >= this.largeCommitLines || stats.files >= this.largeCommitFiles
+                ? 'normal'
+                : 'minor';
+            const summary = commit.message.split('\n')[0].slice(0, 80);
+
+            this.successDetectionSystem.requestCelebration(
+                'commit',
+                `${stats.files} file(s), +${stats.insertions} -${stats.deletions}: ${summary}`,
+                { ...stats, parents: commit.parents.length },
+                intensity
+            );
+        } catch (error) {
+            console.error('CodeBeat: Could not read the new commit:', error);
+        }
+    }
+
+    private async countChangedFiles(repository: Repository, hash: string, parent: string | undefined): Promise<CommitShortStat> {
+        // Older Git extensions don't report line stats; fall back to the file count
+        const changes = parent ? await repository.diffBetween(parent, hash) : [];
+        return { files: changes.length, insertions: 0, deletions: 0 };
+    }
+
+    private async onMergeConflict(conflictCount: number): Promise<void> {
+        console.log(`CodeBeat: ${conflictCount} merge conflict(s) detected`);
+        vscode.window.setStatusBarMessage(`⚔️ CodeBeat: ${conflictCount} merge conflict(s) - time to untangle`, 5000);
+
+        try {
+            const musicParams = this.musicGenerator.generateFromMergeConflict(conflictCount);
+            this.sessionRecorder.record('git', { gitEvent: 'merge_conflict', conflictCount });
+            await this.musicBackend.generateMusic(musicParams, 'failure_sting');
+        } catch (error) {
+            console.error('CodeBeat: Failed to play merge conflict cue:', error);
+        }
+    }
+
+    private takeSnapshot(repository: Repository): RepositorySnapshot {
+        const head = repository.state.HEAD;
+        return {
+            headName: head?.name,
+            headCommit: head?.commit,
+            upstream: head?.upstream ? `${head.upstream.remote}/${head.upstream.name}` : undefined,
+            ahead: head?.ahead ?? 0,
+            conflictCount: repository.state.mergeChanges.length
+        };
+    }
+
+    private isEnabled(): boolean {
+        const config = vscode.workspace.getConfiguration('codebeat');
+        return config.get('enabled', true) && config.get('gitEvents', true);
+    }
+
+    public dispose(): void {
+        this.repositoryDisposables.forEach(disposables => disposables.forEach(d => d.dispose()));
+        this.repositoryDisposables.clear();
+        this.snapshots.clear();
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
@@ -0,0 +1,221 @@
+import * as vscode from 'vscode';
+import fetch, { Response } from 'node-fetch';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface HttpClientOptions {
+    timeoutMs: number;
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    maxRetryAfterMs: number; // a longer Retry-After pauses the service instead of waiting
+    failureThreshold: number; // failed requests in a row that open the circuit
+    cooldownMs: number;
+}
+
+export interface HttpRequest {
+    method?: 'GET' | 'POST';
+    headers?: { [name: string]: string };
+    body?: string;
+    timeoutMs?: number;
+    maxRetries?: number;
+}
+
+/** Thrown without a network call while a service is paused after repeated failures. */
+export class CircuitOpenError extends Error {
+    constructor(public readonly service: string, public readonly retryAt: number) {
+        super(`${service} is paused after repeated failures until ${new Date(retryAt).toLocaleTimeString()}`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+/**
+ * Shared HTTP layer for the Suno and Tandemn APIs. Requests time out,
+ * network errors, 429 and 5xx responses are retried with exponential backoff
+ * and jitter (or after `Retry-After`), and a circuit breaker stops calling a
+ * service that keeps failing until a cooldown has passed. Other responses,
+ * including 4xx errors, are returned to the caller as they are.
+ */
+export class HttpClient implements vscode.Disposable {
+    private state: CircuitState = 'closed';
+    private consecutiveFailures = 0;
+    private openUntil = 0;
+    private cooldownTimer: NodeJS.Timeout | undefined;
+    private stateEmitter = new vscode.EventEmitter<CircuitState>();
+    public readonly onDidChangeState = this.stateEmitter.event;
+    private readonly options: HttpClientOptions;
+
+    private static readonly defaults: HttpClientOptions = {
+        timeoutMs: 30000,
+        maxRetries: 3,
+        baseDelayMs: 1000,
+        maxDelayMs: 30000,
+        maxRetryAfterMs: 60000,
+        failureThreshold: 5,
+        cooldownMs: 2 * 60 * 1000
+    };
+
+    private static readonly retryableStatuses = [408, 429, 500, 502, 503, 504];
+
+    constructor(public readonly service: string, options: Partial<HttpClientOptions> = {}) {
+        this.options = { ...HttpClient.defaults, ...options };
+    }
+
+    public async request(url: string, request: HttpRequest = {}): Promise<Response> {
+        this.checkCircuit();
+
+        const method = request.method || 'GET';
+        const maxRetries = request.maxRetries ?? this.options.maxRetries;
+        for (let attempt = 0; ; attempt++) {
+            let response: Response | undefined;
+            let error: unknown;
+            try {
+                response = await this.send(url, method, request);
+            } catch (sendError) {
+                error = sendError;
+            }
+
+            if (response && !HttpClient.retryableStatuses.includes(response.status)) {
+                this.recordSuccess();
+                return response;
+            }
+
+            // A POST that timed out may still have been processed, so it is not sent twice
+            const isTimeout = error instanceof Error && error.name === 'TimeoutError';
+            if (attempt >= maxRetries || (isTimeout && method !== 'GET')) {
+                this.recordFailure();
+                if (response) {
+                    return response;
+                }
+                throw error;
+            }
+
+            let delay = this.getBackoffDelay(attempt);
+            const retryAfter = response?.status === 429 ? this.getRetryAfter(response) : undefined;
+            if (retryAfter !== undefined) {
+                if (retryAfter > this.options.maxRetryAfterMs) {
+                    console.log(`CodeBeat: ${this.service} is rate limited for ${Math.round(retryAfter / 1000)}s, pausing requests`);
+                    this.open(Date.now() + retryAfter);
+                    return response!;
+                }
+                delay = retryAfter;
+            }
+
+            const reason = response ? `${response.status} ${response.statusText}` : `${error}`;
+            console.log(`CodeBeat: ${this.service} request failed (${reason}), retry ${attempt + 1}/${maxRetries} in ${(delay / 1000).toFixed(1)}s`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+        }
+    }
+
+    /** Exponential backoff with jitter: between half and all of `baseDelay * 2^attempt`. */
+    public getBackoffDelay(attempt: number): number {
+        const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * Math.pow(2, attempt));
+        return ceiling / 2 + Math.random() * ceiling / 2;
+    }
+
+    public isOpen(): boolean {
+        return this.state === 'open' && Date.now() < this.openUntil;
+    }
+
+    public getState(): CircuitState {
+        return this.state;
+    }
+
+    /** When an open circuit lets the next request through. */
+    public getRetryAt(): number | undefined {
+        return this.state === 'open' ? this.openUntil : undefined;
+    }
+
+    private async send(url: string, method: string, request: HttpRequest): Promise<Response> {
+        const timeoutMs = request.timeoutMs ?? this.options.timeoutMs;
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeoutMs);
+        try {
+            return await fetch(url, {
+                method,
+                headers: request.headers,
+                body: request.body,
+                signal: controller.signal,
+                timeout: timeoutMs // node-fetch also applies this while the body is read
+            });
+        } catch (error) {
+            if (error instanceof Error && (error.name === 'AbortError' || (error as { type?: string }).type === 'request-timeout')) {
+                const timeoutError = new Error(`${this.service} request timed out after ${timeoutMs / 1000}s`);
+                timeoutError.name = 'TimeoutError';
+                throw timeoutError;
+            }
+            throw error;
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+
+    private getRetryAfter(response: Response): number | undefined {
+        const header = response.headers.get('retry-after');
+        if (!header) {
+            return undefined;
+        }
+        // Either a number of seconds or an HTTP date
+        const seconds = Number(header);
+        if (!isNaN(seconds)) {
+            return Math.max(0, seconds * 1000);
+        }
+        const date = Date.parse(header);
+        return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+    }
+
+    private checkCircuit(): void {
+        if (this.state !== 'open') {
+            return;
+        }
+        if (Date.now() < this.openUntil) {
+            throw new CircuitOpenError(this.service, this.openUntil);
+        }
+        // The cooldown is over: let requests through until one of them decides
+        this.setState('half_open');
+    }
+
+    private recordSuccess(): void {
+        this.consecutiveFailures = 0;
+        this.setState('closed');
+    }
+
+    private recordFailure(): void {
+        this.consecutiveFailures++;
+        if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+            console.log(`CodeBeat: ${this.service} failed ${this.consecutiveFailures} times in a row, pausing requests for ${this.options.cooldownMs / 1000}s`);
+            this.open(Date.now() + this.options.cooldownMs);
+        }
+    }
+
+    private open(until: number): void {
+        this.openUntil = until;
+        this.setState('open');
+
+        // Tell listeners when requests may go through again, even if none is made
+        if (this.cooldownTimer) {
+            clearTimeout(this.cooldownTimer);
+        }
+        this.cooldownTimer = setTimeout(() => {
+            this.cooldownTimer = undefined;
+            if (this.state === 'open') {
+                this.setState('half_open');
+            }
+        }, Math.max(0, until - Date.now()));
+    }
+
+    private setState(state: CircuitState): void {
+        if (this.state !== state || state === 'open') {
+            this.state = state;
+            this.stateEmitter.fire(state);
+        }
+    }
+
+    public dispose(): void {
+        if (this.cooldownTimer) {
+            clearTimeout(this.cooldownTimer);
+            this.cooldownTimer = undefined;
+        }
+        this.stateEmitter.dispose();
+    }
+}
@@ -0,0 +1,389 @@
+import { CodeAnalysis } from './tandemApiClient';
+
+export interface CodeMetrics {
+    lineCount: number;
+    codeLineCount: number;
+    cyclomaticComplexity: number;
+    maxNestingDepth: number;
+    functionCount: number;
+    averageFunctionComplexity: number;
+}
+
+/**
+ * Offline replacement for the Tandemn analysis. Derives a CodeAnalysis from
+ * structural metrics and identifier heuristics so music still follows the
+ * code when the remote API is unavailable or disabled.
+ */
+export class LocalCodeAnalyzer {
+    // Languages where block structure comes from indentation rather than braces
+    private readonly indentationLanguages = ['python', 'yaml', 'coffeescript', 'pug', 'haml'];
+
+    private readonly hashCommentLanguages = ['python', 'ruby', 'shellscript', 'perl', 'r', 'yaml', 'coffeescript', 'dockerfile', 'makefile', 'powershell'];
+
+    // Identifier hints used to guess what kind of code this is
+    private readonly codeTypeHints: { [key in CodeAnalysis['codeType']]: RegExp[] } = {
+        'test': [
+            /\bdescribe\s*\(/, /\bit\s*\(/, /\btest\s*\(/, /\bexpect\s*\(/, /\bassert\w*\b/,
+            /@Test\b/, /\bdef\s+test_\w+/, /\bfunc\s+Test\w+/, /#\[test\]/, /\bunittest\b/, /\bpytest\b/
+        ],
+        'ui_frontend': [
+            /\bReact\b/, /\buse(State|Effect|Memo|Ref|Callback)\b/, /<\/?[a-z]+[\s>]/, /\bclassName\b/,
+            /\bdocument\./, /\bwindow\./, /\baddEventListener\b/, /\brender\s*\(/, /\b[cC]omponent\b/, /\bstyle\b/
+        ],
+        'backend_api': [
+            /\bexpress\b/, /\b[rR]outer\b/, /\bapp\.(get|post|put|delete|use)\s*\(/, /\breq(uest)?\b/, /\bres(ponse)?\b/,
+            /\bhttp\b/i, /@(Get|Post|Put|Delete|Request)Mapping\b/, /\bController\b/, /\bmiddleware\b/, /\b(SELECT|INSERT|UPDATE)\b/,
+            /\bdatabase\b/i, /\bendpoint\b/i
+        ],
+        'data_structure': [
+            /\b(class|struct|interface)\s+\w*(Node|Tree|List|Queue|Stack|Heap|Graph|Map|Set|Buffer)\b/,
+            /\.(push|pop|shift|unshift|enqueue|dequeue|peek)\s*\(/, /\b(left|right|next|prev|parent|children)\b/,
+            /\bstruct\b/, /\binterface\b/
+        ],
+        'algorithm': [
+            /\bsort\w*\b/i, /\bsearch\w*\b/i, /\bbinary\b/i, /\bmemo\w*\b/i, /\bdp\b/, /\bmatrix\b/i,
+            /\b(bfs|dfs|dijkstra|traverse)\b/i, /\bMath\.\w+/, /\bpivot\b/, /\bpartition\b/
+        ],
+        'utility': [
+            /\butil\w*\b/i, /\bhelper\w*\b/i, /\bformat\w*\b/i, /\bparse\w*\b/i, /\bconvert\w*\b/i
+        ]
+    };
+
+    /** Pass `metrics` when the caller has already computed them for this code. */
+    public analyzeCode(
+        code: string,
+        languageId: string,
+        fileExtension: string,
+        metrics: CodeMetrics = this.computeMetrics(code, languageId)
+    ): CodeAnalysis {
+        const complexity = this.classifyComplexity(metrics);
+        const codeType = this.detectCodeType(code, languageId, fileExtension);
+        const patterns = this.detectPatterns(code, languageId, metrics);
+
+        const analysis: CodeAnalysis = {
+            complexity,
+            mood: this.getMoodForComplexity(complexity),
+            patterns,
+            codeType,
+            recommendedBPM: this.getRecommendedBPM(complexity, codeType, metrics),
+            energy: this.getEnergy(complexity, codeType, metrics),
+            genre: this.getGenre(complexity, codeType),
+            description: `Local analysis: ${metrics.functionCount} functions, cyclomatic complexity ${metrics.cyclomaticComplexity}, max nesting depth ${metrics.maxNestingDepth}`
+        };
+
+        return analysis;
+    }
+
+    public computeMetrics(code: string, languageId: string): CodeMetrics {
+        const stripped = this.stripCommentsAndStrings(code, languageId);
+        const lines = code.split('\n');
+        const codeLines = stripped.split('\n').filter(line => line.trim().length > 0);
+
+        const decisionPoints = this.countDecisionPoints(stripped);
+        const functionCount = this.countFunctions(stripped);
+        const cyclomaticComplexity = 1 + decisionPoints;
+
+        return {
+            lineCount: lines.length,
+            codeLineCount: codeLines.length,
+            cyclomaticComplexity,
+            maxNestingDepth: this.getMaxNestingDepth(stripped, languageId),
+            functionCount,
+            averageFunctionComplexity: Math.round((cyclomaticComplexity / Math.max(1, functionCount)) * 10) / 10
+        };
+    }
+
+    private stripCommentsAndStrings(code: string, languageId: string): string {
+        let result = code
+            // Block comments, keeping line breaks so line counts stay meaningful
+            .replace(/\/\*[\s\S]*?\*\//g, match => match.replace(/[^\n]/g, ''))
+            // Template literals and triple-quoted strings
+            .replace(/`(?:\\[\s\S]|[^`\\])*`/g, match => '``' + match.replace(/[^\n]/g, ''))
+            .replace(/("""|''')[\s\S]*?\1/g, match => match.replace(/[^\n]/g, ''))
+            // Single-line strings
+            .replace(/"(?:\\.|[^"\\\n])*"/g, '""')
+            .replace(/'(?:\\.|[^'\\\n])*'/g, "''");
+
+        if (this.hashCommentLanguages.includes(languageId)) {
+            result = result.replace(/#.*$/gm, '');
+        } else {
+            result = result.replace(/\/\/.*$/gm, '');
+        }
+
+        return result;
+    }
+
+    private countDecisionPoints(code: string): number {
+        const decisionPatterns = [
+            /\b(if|elif|elsif|for|foreach|while|case|catch|except|when|guard|unless|until)\b/g,
+            /&&|\|\|/g,
+            /\b(and|or)\b/g,
+            /\?(?![?.:])/g
+        ];
+
+        return decisionPatterns.reduce((total, pattern) => {
+            const matches = code.match(pattern);
+            return total + (matches ? matches.length : 0);
+        }, 0);
+    }
+
+    private countFunctions(code: string): number {
+        const functionPatterns = [
+            /\bfunction\b/g,
+            /=>/g,
+            /\b(def|fn|func|fun|sub)\s+\w+/g,
+            // Methods: name(args) { ... } not preceded by a control keyword
+            /^[ \t]*(?:(?:public|private|protected|static|async|override|final|virtual|abstract)\s+)*(?!(?:if|for|while|switch|catch|return|else|new)\b)\w+\s*\([^)]*\)\s*(?::\s*[\w<>[\],\s|.]+)?\s*\{/gm
+        ];
+
+        return functionPatterns.reduce((total, pattern) => {
+            const matches = code.match(pattern);
+            return total + (matches ? matches.length : 0);
+        }, 0);
+    }
+
+    private getMaxNestingDepth(code: string, languageId: string): number {
+        const hasBraces = code.includes('{');
+
+        if (this.indentationLanguages.includes(languageId) || !hasBraces) {
+            return this.getIndentationDepth(code);
+        }
+
+        let depth = 0;
+        let maxDepth = 0;
+        for (const char of code) {
+            if (char === '{') {
+                depth++;
+                maxDepth = Math.max(maxDepth, depth);
+            } else if (char === '}') {
+                depth = Math.max(0, depth - 1);
+            }
+        }
+        return maxDepth;
+    }
+
+    private getIndentationDepth(code: string): number {
+        const indents = code
+            .split('\n')
+            .filter(line => line.trim().length > 0)
+            .map(line => line.replace(/\t/g, '    ').match(/^ */)![0].length);
+
+        // Use the smallest non-zero indent as the unit (usually 2 or 4 spaces)
+        const nonZero = indents.filter(indent => indent > 0);
+        if (nonZero.length === 0) {
+            return 0;
+        }
+        const unit = Math.min(...nonZero);
+        return Math.max(...indents.map(indent => Math.floor(indent / unit)));
+    }
+
+    private classifyComplexity(metrics: CodeMetrics): CodeAnalysis['complexity'] {
+        let score = 0;
+
+        // Total decision points in the file
+        if (metrics.cyclomaticComplexity > 10) score++;
+        if (metrics.cyclomaticComplexity > 25) score++;
+        if (metrics.cyclomaticComplexity > 50) score++;
+
+        // Deeply nested blocks are harder to follow than flat ones
+        if (metrics.maxNestingDepth >= 3) score++;
+        if (metrics.maxNestingDepth >= 5) score++;
+
+        // Branch-heavy functions
+        if (metrics.averageFunctionComplexity >= 5) score++;
+        if (metrics.averageFunctionComplexity >= 10) score++;
+
+        if (score <= 1) return 'simple';
+        if (score <= 3) return 'moderate';
+        if (score <= 5) return 'complex';
+        return 'very_complex';
+    }
+
+    private detectCodeType(code: string, languageId: string, fileExtension: string): CodeAnalysis['codeType'] {
+        if (['html', 'css', 'scss', 'less', 'vue', 'svelte', 'javascriptreact', 'typescriptreact'].includes(languageId) ||
+            ['jsx', 'tsx'].includes(fileExtension)) {
+            return 'ui_frontend';
+        }
+
+        let bestType: CodeAnalysis['codeType'] = 'utility';
+        let bestScore = 0;
+
+        for (const [codeType, hints] of Object.entries(this.codeTypeHints)) {
+            const score = hints.filter(hint => hint.test(code)).length;
+            // Tests are the most distinctive signal, so give them a head start
+            const weightedScore = codeType === 'test' ? score * 1.5 : score;
+
+            if (weightedScore > bestScore) {
+                bestScore = weightedScore;
+                bestType = codeType as CodeAnalysis['codeType'];
+            }
+        }
+
+        // A couple of incidental hits are not enough to classify the file
+        return bestScore >= 2 ? bestType : 'utility';
+    }
+
+    private detectPatterns(code: string, languageId: string, metrics: CodeMetrics): string[] {
+        const patterns: string[] = [languageId];
+
+        const patternChecks: Array<[string, RegExp]> = [
+            ['classes', /\bclass\s+\w+/],
+            ['async', /\b(async|await|Promise|Future|goroutine|go\s+func)\b/],
+            ['loops', /\b(for|while|foreach)\b/],
+            ['error_handling', /\b(try|catch|except|rescue|Result<)\b/],
+            ['higher_order_functions', /\.(map|filter|reduce|forEach|flatMap)\s*\(/],
+            ['generics', /\w<[A-Z]\w*(,\s*[A-Z]\w*)*>/],
+            ['regex', /\/[^\/\n]+\/[gimsuy]*\.test\(|\bRegExp\b|\bre\.(match|compile|search)\b/]
+        ];
+
+        for (const [name, regex] of patternChecks) {
+            if (regex.test(code)) {
+                patterns.push(name);
+            }
+        }
+
+        if (this.hasRecursion(code, languageId)) {
+            patterns.push('recursion');
+        }
+        if (metrics.maxNestingDepth >= 5) {
+            patterns.push('deep_nesting');
+        }
+
+        return patterns;
+    }
+
+    private hasRecursion(code: string, languageId: string): boolean {
+        // A named function whose own body calls it again; calls from elsewhere in the file don't count
+        const stripped = this.stripCommentsAndStrings(code, languageId);
+        const declarationPattern = /\b(?:function|def|fn|func)\s+(\w+)/g;
+        let match: RegExpExecArray | null;
+        while ((match = declarationPattern.exec(stripped)) !== null) {
+            const body = this.getFunctionBody(stripped, match.index + match[0].length, languageId);
+            if (new RegExp(`\\b${match[1]}\\s*\\(`).test(body)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /** The body of the function whose name ends at `start`, by indentation or by braces. */
+    private getFunctionBody(code: string, start: number, languageId: string): string {
+        if (this.indentationLanguages.includes(languageId)) {
+            const lineStart = code.lastIndexOf('\n', start) + 1;
+            const declarationIndent = code.slice(lineStart).match(/^[ \t]*/)![0].length;
+            const bodyLines: string[] = [];
+            for (const line of code.slice(code.indexOf('\n', start) + 1 || code.length).split('\n')) {
+                if (line.trim().length > 0 && line.match(/^[ \t]*/)![0].length <= declarationIndent) {
+                    break;
+                }
+                bodyLines.push(line);
+            }
+            return bodyLines.join('\n');
+        }
+
+        // Skip the parameter list, which may contain braces of its own (destructuring, object types)
+        let index = code.indexOf('(', start);
+        for (let depth = 0; index >= 0 && index < code.length; index++) {
+            depth += code[index] === '(' ? 1 : code[index] === ')' ? -1 : 0;
+            if (depth === 0) {
+                break;
+            }
+        }
+        const open = code.indexOf('{', index);
+        const semicolon = code.indexOf(';', index);
+        if (index < 0 || open < 0 || (semicolon >= 0 && semicolon < open)) {
+            return ''; // A declaration without a body, such as an overload signature
+        }
+
+        let depth = 0;
+        for (let end = open; end < code.length; end++) {
+            depth += code[end] === '{' ? 1 : code[end] === '}' ? -1 : 0;
+            if (depth === 0) {
+                return code.slice(open + 1, end);
+            }
+        }
+        return code.slice(open + 1);
+    }
+
+    private getMoodForComplexity(complexity: CodeAnalysis['complexity']): CodeAnalysis['mood'] {
+        const moods: { [key in CodeAnalysis['complexity']]: CodeAnalysis['mood'] } = {
+            'simple': 'calm',
+            'moderate': 'focused',
+            'complex': 'energetic',
+            'very_complex': 'intense'
+        };
+        return moods[complexity];
+    }
+
+    private getRecommendedBPM(
+        complexity: CodeAnalysis['complexity'],
+        codeType: CodeAnalysis['codeType'],
+        metrics: CodeMetrics
+    ): number {
+        // Same guideline ranges the Tandemn prompt asks for
+        const complexityRanges: { [key in CodeAnalysis['complexity']]: [number, number] } = {
+            'simple': [60, 80],
+            'moderate': [80, 100],
+            'complex': [90, 120],
+            'very_complex': [100, 140]
+        };
+        const codeTypeRanges: { [key: string]: [number, number] } = {
+            'ui_frontend': [110, 140],
+            'data_structure': [80, 100],
+            'algorithm': [90, 120]
+        };
+
+        let [min, max] = complexityRanges[complexity];
+        const typeRange = codeTypeRanges[codeType];
+        if (typeRange) {
+            // Blend towards the code type preference without leaving the complexity band entirely
+            min = Math.round((min + typeRange[0]) / 2);
+            max = Math.round((max + typeRange[1]) / 2);
+        }
+
+        // Position inside the range follows how dense the branching is
+        const density = metrics.cyclomaticComplexity / Math.max(1, metrics.codeLineCount);
+        const position = Math.min(1, density * 4);
+
+        return Math.max(60, Math.min(140, Math.round(min + (max - min) * position)));
+    }
+
+    private getEnergy(
+        complexity: CodeAnalysis['complexity'],
+        codeType: CodeAnalysis['codeType'],
+        metrics: CodeMetrics
+    ): number {
+        const baseEnergy: { [key in CodeAnalysis['complexity']]: number } = {
+            'simple': 3,
+            'moderate': 5,
+            'complex': 7,
+            'very_complex': 9
+        };
+
+        let energy = baseEnergy[complexity];
+        if (codeType === 'ui_frontend' || codeType === 'test') {
+            energy++;
+        }
+        if (metrics.maxNestingDepth >= 6) {
+            energy++;
+        }
+
+        return Math.max(1, Math.min(10, energy));
+    }
+
+    private getGenre(complexity: CodeAnalysis['complexity'], codeType: CodeAnalysis['codeType']): string {
+        if (complexity === 'simple') {
+            return 'ambient';
+        }
+
+        const genres: { [key in CodeAnalysis['codeType']]: string } = {
+            'algorithm': 'electronic',
+            'data_structure': 'ambient',
+            'ui_frontend': 'electronic',
+            'backend_api': 'orchestral',
+            'utility': 'jazz',
+            'test': 'rock'
+        };
+        return genres[codeType];
+    }
+}
@@ -0,0 +1,177 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { MusicParameters, MusicParameterGenerator } from './musicParameterGenerator';
+import { SunoApiResponse } from './sunoApiClient';
+import { AudioPlayer } from './audioPlayer';
+import { ProceduralSynthesizer } from './proceduralSynthesizer';
+import { MusicBackend, MusicTriggerType, CelebrationType, CelebrationIntensity, CodeContext, TrackInfo, isInterruptTrigger } from './musicBackend';
+
+/**
+ * Built-in backend that synthesizes loops on disk, so CodeBeat makes sound
+ * without an API token or network connection.
+ */
+export class LocalSynthBackend implements MusicBackend {
+    public readonly id = 'local';
+    private lastGeneratedId: number = 0;
+    private outputChannel: vscode.OutputChannel;
+    private audioPlayer: AudioPlayer;
+    private synthesizer = new ProceduralSynthesizer();
+    private readonly maxRenderedFiles = 10;
+    private trackEmitter = new vscode.EventEmitter<TrackInfo>();
+    public readonly onDidChangeTrack = this.trackEmitter.event;
+
+    constructor(
+        private storageUri: vscode.Uri,
+        private musicGenerator: MusicParameterGenerator
+    ) {
+        this.outputChannel = vscode.window.createOutputChannel('CodeBeat - Local Synth');
+        this.audioPlayer = new AudioPlayer(this.outputChannel);
+        this.outputChannel.appendLine('🎹 CodeBeat Local Synthesizer Initialized');
+    }
+
+    public async generateMusic(
+        params: MusicParameters,
+        triggerType: MusicTriggerType,
+        codeContext?: CodeContext
+    ): Promise<SunoApiResponse> {
+        const requestId = this.generateRequestId();
+        const title = `${params.genre} (${params.bpm} BPM, ${params.mood})`;
+
+        this.outputChannel.appendLine(`\n🎹 Rendering ${triggerType} loop ${requestId}`);
+        this.outputChannel.appendLine(`• ${params.bpm} BPM, energy ${params.energy}/10, ${params.mood} mood`);
+        this.outputChannel.appendLine(`• Instruments: ${params.instruments.join(', ')}`);
+        if (codeContext?.fileName) {
+            this.outputChannel.appendLine(`• Source: ${codeContext.fileName}`);
+        }
+
+        try {
+            const outputDir = path.join(this.storageUri.fsPath, 'local-synth');
+            await fs.promises.mkdir(outputDir, { recursive: true });
+
+            const filePath = path.join(outputDir, `${requestId}.wav`);
+            const startTime = Date.now();
+            await fs.promises.writeFile(filePath, this.synthesizer.render(params));
+            this.outputChannel.appendLine(`✅ Rendered ${filePath} in ${Date.now() - startTime}ms`);
+
+            await this.removeOldRenders(outputDir);
+
+            if (isInterruptTrigger(triggerType)) {
+                this.audioPlayer.playInterrupt(filePath, title);
+            } else {
+                this.audioPlayer.playAudio(filePath, title);
+            }
+            this.trackEmitter.fire({
+                id: requestId,
+                status: 'complete',
+                title,
+                audioUrl: filePath,
+                bpm: params.bpm,
+                genre: params.genre,
+                mood: params.mood,
+                triggerType,
+                timestamp: new Date().toISOString()
+            });
+
+            return {
+                id: requestId,
+                status: 'complete',
+                audio_url: filePath,
+                title,
+                created_at: new Date().toISOString(),
+                metadata: {
+                    bpm: params.bpm,
+                    genre: params.genre,
+                    duration: params.duration,
+                    tags: params.tags.join(', '),
+                    prompt: params.prompt
+                }
+            };
+        } catch (error) {
+            this.outputChannel.appendLine(`❌ Local synthesis failed: ${error}`);
+            console.error('CodeBeat: Local synthesis error:', error);
+
+            return {
+                id: requestId,
+                status: 'error',
+                metadata: {
+                    bpm: params.bpm,
+                    genre: params.genre,
+                    duration: params.duration,
+                    error_type: 'synthesis_error',
+                    error_message: `${error}`
+                }
+            };
+        }
+    }
+
+    public async generateCelebration(
+        celebrationType: CelebrationType,
+        context?: string,
+        intensity?: CelebrationIntensity
+    ): Promise<SunoApiResponse> {
+        const celebrationParams = this.musicGenerator.generateFromCelebration(celebrationType, context, intensity);
+        return this.generateMusic(celebrationParams, 'success_celebration');
+    }
+
+    private async removeOldRenders(outputDir: string): Promise<void> {
+        const files = (await fs.promises.readdir(outputDir))
+            .filter(file => file.endsWith('.wav'))
+            .map(file => path.join(outputDir, file));
+
+        if (files.length <= this.maxRenderedFiles) {
+            return;
+        }
+
+        const withTimes = await Promise.all(files.map(async file => ({
+            file,
+            mtime: (await fs.promises.stat(file)).mtimeMs
+        })));
+        withTimes.sort((a, b) => a.mtime - b.mtime);
+
+        for (const { file } of withTimes.slice(0, withTimes.length - this.maxRenderedFiles)) {
+            await fs.promises.unlink(file).catch(() => undefined);
+        }
+    }
+
+    private generateRequestId(): string {
+        this.lastGeneratedId++;
+        const timestamp = Date.now().toString(36);
+        return `codebeat_local_${timestamp}_${this.lastGeneratedId.toString().padStart(3, '0')}`;
+    }
+
+    public playTrack(track: TrackInfo): void {
+        if (!track.audioUrl) {
+            return;
+        }
+        if (!fs.existsSync(track.audioUrl)) {
+            // Old renders are cleaned up after a while
+            vscode.window.showWarningMessage(`CodeBeat: "${track.title}" is no longer available on disk`);
+            return;
+        }
+        this.audioPlayer.playAudio(track.audioUrl, track.title);
+        this.trackEmitter.fire({ ...track, timestamp: new Date().toISOString() });
+    }
+
+    public mute(muted: boolean): void {
+        this.audioPlayer.setMuted(muted);
+    }
+
+    public isMuted(): boolean {
+        return this.audioPlayer.getMuteStatus();
+    }
+
+    public isAudioPlaying(): boolean {
+        return this.audioPlayer.isAudioPlaying();
+    }
+
+    public stop(): void {
+        this.audioPlayer.stopAudio();
+    }
+
+    public dispose(): void {
+        this.trackEmitter.dispose();
+        this.audioPlayer.dispose();
+        this.outputChannel.dispose();
+    }
+}
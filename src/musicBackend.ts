@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import { MusicParameters } from './musicParameterGenerator';
+import { SunoApiResponse } from './sunoApiClient';
+
+export type MusicTriggerType = 'code_analysis' | 'success_celebration' | 'failure_sting' | 'error_feedback' | 'debug_session' | 'manual';
+
+export type BuiltInCelebrationType = 'compilation_success' | 'bug_fix' | 'test_pass' | 'deployment' | 'commit';
+
+/** A built-in type or one defined by the user, e.g. `pr_merged` (see CelebrationRegistry). */
+export type CelebrationType = BuiltInCelebrationType | (string & {});
+
+/** How big a celebration should be, e.g. a single test file vs. a new record. */
+export type CelebrationIntensity = 'minor' | 'normal' | 'major';
+
+export type FailureKind = 'compile_error' | 'test_failure' | 'deploy_failure' | 'crash';
+
+export interface CodeContext {
+    code: string;
+    language: string;
+    fileName?: string;
+}
+
+export interface TrackInfo {
+    id: string;
+    status: SunoApiResponse['status'];
+    title: string;
+    audioUrl?: string;
+    imageUrl?: string;
+    bpm: number;
+    genre: string;
+    mood: string;
+    triggerType: MusicTriggerType;
+    timestamp: string;
+}
+
+/**
+ * Short clips that play over the background music instead of replacing it.
+ */
+export function isInterruptTrigger(triggerType: MusicTriggerType): boolean {
+    return triggerType === 'success_celebration' || triggerType === 'failure_sting';
+}
+
+/**
+ * A source of generated music. Components talk to this interface so the
+ * Suno API and the built-in synthesizer are interchangeable.
+ */
+export interface MusicBackend extends vscode.Disposable {
+    readonly id: string;
+    readonly onDidChangeTrack: vscode.Event<TrackInfo>;
+    generateMusic(params: MusicParameters, triggerType: MusicTriggerType, codeContext?: CodeContext): Promise<SunoApiResponse>;
+    generateCelebration(celebrationType: CelebrationType, context?: string, intensity?: CelebrationIntensity): Promise<SunoApiResponse>;
+    playTrack(track: TrackInfo): void;
+    stop(): void;
+    mute(muted: boolean): void;
+    isMuted(): boolean;
+    isAudioPlaying(): boolean;
+}
+
+/**
+ * Routes calls to the backend selected by the `codebeat.backend` setting and
+ * switches over live when the setting changes.
+ */
+export class MusicBackendManager implements MusicBackend {
+    public readonly id = 'manager';
+    private activeBackend: MusicBackend;
+    private disposables: vscode.Disposable[] = [];
+    private trackEmitter = new vscode.EventEmitter<TrackInfo>();
+    public readonly onDidChangeTrack = this.trackEmitter.event;
+
+    constructor(private backends: MusicBackend[]) {
+        this.activeBackend = this.resolveConfiguredBackend();
+        console.log(`CodeBeat: Using ${this.activeBackend.id} music backend`);
+
+        this.disposables.push(
+            vscode.workspace.onDidChangeConfiguration((event) => {
+                if (event.affectsConfiguration('codebeat.backend')) {
+                    this.switchBackend(this.resolveConfiguredBackend());
+                }
+            }),
+            ...backends.map(backend => backend.onDidChangeTrack(track => this.trackEmitter.fire(track)))
+        );
+    }
+
+    public getBackends(): MusicBackend[] {
+        return this.backends;
+    }
+
+    public getActiveBackend(): MusicBackend {
+        return this.activeBackend;
+    }
+
+    public generateMusic(params: MusicParameters, triggerType: MusicTriggerType, codeContext?: CodeContext): Promise<SunoApiResponse> {
+        return this.activeBackend.generateMusic(params, triggerType, codeContext);
+    }
+
+    public generateCelebration(celebrationType: CelebrationType, context?: string, intensity?: CelebrationIntensity): Promise<SunoApiResponse> {
+        return this.activeBackend.generateCelebration(celebrationType, context, intensity);
+    }
+
+    public playTrack(track: TrackInfo): void {
+        this.activeBackend.playTrack(track);
+    }
+
+    public stop(): void {
+        this.activeBackend.stop();
+    }
+
+    public mute(muted: boolean): void {
+        this.activeBackend.mute(muted);
+    }
+
+    public isMuted(): boolean {
+        return this.activeBackend.isMuted();
+    }
+
+    public isAudioPlaying(): boolean {
+        return this.activeBackend.isAudioPlaying();
+    }
+
+    private resolveConfiguredBackend(): MusicBackend {
+        const config = vscode.workspace.getConfiguration('codebeat');
+        const backendId = config.get<string>('backend', 'suno');
+        const backend = this.backends.find(candidate => candidate.id === backendId);
+
+        if (!backend) {
+            console.warn(`CodeBeat: Unknown music backend "${backendId}", using ${this.backends[0].id}`);
+            return this.backends[0];
+        }
+        return backend;
+    }
+
+    private switchBackend(backend: MusicBackend): void {
+        if (backend === this.activeBackend) {
+            return;
+        }
+
+        console.log(`CodeBeat: Switching music backend from ${this.activeBackend.id} to ${backend.id}`);
+
+        // Only one backend may be audible; carry the mute state over to the new one
+        const wasMuted = this.activeBackend.isMuted();
+        this.activeBackend.stop();
+        backend.mute(wasMuted);
+        this.activeBackend = backend;
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.trackEmitter.dispose();
+        this.backends.forEach(backend => backend.dispose());
+    }
+}
@@ -1,4 +1,11 @@
 import { CodeAnalysis } from './tandemApiClient';
+import { CelebrationType, CelebrationIntensity, FailureKind } from './musicBackend';
+import { WorkspaceProfile } from './workspaceIndexer';
+import { FlowState, FlowSnapshot } from './flowStateDetector';
+import { DebugState, DebugSummary } from './debugSessionTracker';
+import { CelebrationRegistry } from './celebrationRegistry';
+import { MusicProfileStore } from './musicProfile';
+import { hashString, createSeededRandom } from './seededRandom';
 
 export interface MusicParameters {
     bpm: number;
@@ -14,28 +21,48 @@ export interface MusicParameters {
     context: string;
 }
 
+export type DiagnosticSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface FailureMusic {
+    sting: MusicParameters;
+    debugging: MusicParameters;
+}
+
 export class MusicParameterGenerator {
-    
+    private shuffleSeed = 0; // 0 until the user reshuffles
+
+    constructor(
+        private celebrationRegistry: CelebrationRegistry,
+        private profileStore: MusicProfileStore
+    ) {}
+
+    /**
+     * `sourceKey` identifies the analyzed code, e.g. its path and a hash of
+     * its content. Choices left to chance are seeded from it, the other
+     * inputs and the workspace profile, so the same code always gets the
+     * same parameters until the user reshuffles.
+     */
     public generateFromAnalysis(
         analysis: CodeAnalysis,
         languageId: string,
-        lineCount: number
+        lineCount: number,
+        sourceKey: string = ''
     ): MusicParameters {
         // NOTE: While this analyzes individual files, the generated music represents the ENTIRE CODEBASE context
         // The audio system ensures only ONE stream plays globally across all components
         // AUDIO CONTINUITY: Current audio keeps playing while new music is being generated
         
-        // Calculate overall complexity score factoring in both code complexity and file size
-        const complexityScore = this.calculateOverallComplexityScore(analysis, lineCount);
+        const complexityScore = this.calculateOverallComplexityScore(analysis);
         console.log(`CodeBeat: Generating CODEBASE music parameters for ${analysis.complexity} ${languageId} code (${lineCount} lines)`);
         console.log(`CodeBeat: Overall complexity score: ${complexityScore}/10`);
         console.log('CodeBeat: Input analysis for music generation:', JSON.stringify(analysis, null, 2));
 
-        const baseParams = this.getBaseParameters(analysis);
+        const random = this.createRandom([sourceKey, languageId, lineCount, JSON.stringify(analysis)]);
+        const baseParams = this.getBaseParameters(analysis, random);
         console.log('CodeBeat: Base music parameters:', JSON.stringify(baseParams, null, 2));
         
         const contextualParams = this.applyContextualModifications(baseParams, languageId, lineCount);
-        console.log('CodeBeat: Contextual music parameters (after language/size modifications):', JSON.stringify(contextualParams, null, 2));
+        console.log('CodeBeat: Contextual music parameters (after language modifications):', JSON.stringify(contextualParams, null, 2));
         
         const finalParams = this.generatePrompt(contextualParams, analysis);
         console.log('CodeBeat: Final generated music parameters:', JSON.stringify(finalParams, null, 2));
@@ -44,6 +71,118 @@ export class MusicParameterGenerator {
         return finalParams;
     }
 
+    /**
+     * A stable "project soundtrack" derived from the workspace profile. The
+     * parameters for the active file only nudge tempo and energy, so the music
+     * does not jump around while switching between files.
+     */
+    public generateFromProfile(
+        profile: WorkspaceProfile,
+        fileParams?: MusicParameters
+    ): MusicParameters {
+        const fileWeight = 0.25;
+        const moods: { [key in CodeAnalysis['complexity']]: CodeAnalysis['mood'] } = {
+            'simple': 'calm',
+            'moderate': 'focused',
+            'complex': 'energetic',
+            'very_complex': 'intense'
+        };
+
+        // Deterministic tempo and energy so the same project always sounds the same
+        const projectAnalysis: CodeAnalysis = {
+            complexity: profile.complexity,
+            mood: moods[profile.complexity],
+            patterns: [],
+            codeType: profile.dominantCodeType,
+            recommendedBPM: Math.round(60 + (profile.averageComplexity - 1) * 20),
+            energy: Math.round(2 + (profile.averageComplexity - 1) * 2),
+            genre: '',
+            description: `Soundtrack for ${profile.fileCount} ${profile.dominantLanguage} files`
+        };
+
+        const random = this.createRandom([profile.dominantLanguage, profile.fileCount, JSON.stringify(projectAnalysis)]);
+        const baseParams = this.getBaseParameters(projectAnalysis, random);
+        const projectParams: MusicParameters = {
+            ...baseParams,
+            ...this.getLanguageModifications(baseParams, profile.dominantLanguage),
+            duration: 90,
+            context: 'project_soundtrack'
+        };
+
+        const testTag = profile.testRatio >= 0.3 ? 'well_tested' : profile.testRatio < 0.05 ? 'untested' : 'tested';
+        projectParams.tags = [...projectParams.tags, 'project_soundtrack', `${profile.fileCount}_files`, testTag];
+
+        if (fileParams) {
+            projectParams.bpm = Math.round(projectParams.bpm * (1 - fileWeight) + fileParams.bpm * fileWeight);
+            projectParams.energy = Math.round(projectParams.energy * (1 - fileWeight) + fileParams.energy * fileWeight);
+            // A file that is simpler or harder than the rest of the project adds a little colour
+            if (fileParams.complexity !== projectParams.complexity && fileParams.instruments.length > 0) {
+                projectParams.instruments = [...projectParams.instruments, fileParams.instruments[0]];
+                projectParams.tags = [...projectParams.tags, `file_${fileParams.complexity}`];
+            }
+        }
+
+        const finalParams = this.generatePrompt(projectParams, projectAnalysis);
+        console.log('CodeBeat: Project soundtrack parameters:', JSON.stringify(finalParams, null, 2));
+        return finalParams;
+    }
+
+    /**
+     * Shapes the music around how the developer is working: steady while in
+     * flow, calmer while thrashing and quiet when idle. Applied last, so it
+     * wins over the intensity suggested by the code itself.
+     */
+    public applyFlowState(params: MusicParameters, flow: FlowSnapshot): MusicParameters {
+        let adjusted: MusicParameters;
+        switch (flow.state) {
+            case 'in_flow':
+                // Hold a mid tempo and long tracks so nothing breaks concentration
+                adjusted = {
+                    ...params,
+                    bpm: Math.max(80, Math.min(115, params.bpm)),
+                    energy: Math.max(4, Math.min(7, params.energy)),
+                    structure: 'steady hypnotic groove without abrupt changes',
+                    duration: Math.max(params.duration, 120)
+                };
+                break;
+            case 'thrashing':
+                adjusted = {
+                    ...params,
+                    bpm: Math.max(55, Math.min(params.bpm - 25, 85)),
+                    energy: Math.max(1, Math.min(params.energy - 3, 4)),
+                    mood: 'calm',
+                    genre: 'calming ambient',
+                    instruments: ['soft piano', 'warm pad', 'gentle strings'],
+                    structure: 'slow grounding progression'
+                };
+                break;
+            case 'idle':
+                adjusted = {
+                    ...params,
+                    bpm: Math.min(params.bpm, 65),
+                    energy: Math.min(params.energy, 2),
+                    instruments: ['ambient pad', 'soft piano'],
+                    structure: 'sparse ambient drift'
+                };
+                break;
+            default:
+                // Warming up: ease in slightly below the intensity of the code
+                adjusted = {
+                    ...params,
+                    bpm: Math.max(60, params.bpm - 10),
+                    energy: Math.max(1, params.energy - 1)
+                };
+        }
+
+        adjusted.tags = [...params.tags.filter(tag => !this.isFlowTag(tag)), flow.state];
+        console.log(`CodeBeat: Applied flow state ${flow.state} (${flow.charsPerMinute} chars/min, ${flow.fileSwitchesPerMinute} switches/min, undo ratio ${flow.undoRatio})`);
+        return this.generatePrompt(adjusted, null);
+    }
+
+    private isFlowTag(tag: string): tag is FlowState {
+        return tag === 'warming_up' || tag === 'in_flow' || tag === 'thrashing' || tag === 'idle';
+    }
+
     public generateFromDiagnostics(
         errorCount: number,
         warningCount: number,
@@ -90,7 +229,240 @@ export class MusicParameterGenerator {
         return finalParams;
     }
 
-    private getBaseParameters(analysis: CodeAnalysis): MusicParameters {
+    /**
+     * Music for a debug session: a suspenseful "investigation" bed, a quieter
+     * variant once paused at a breakpoint, a short tension sting for
+     * exceptions and a calm resolution after a clean end.
+     */
+    public generateFromDebugState(state: DebugState, summary: DebugSummary): MusicParameters {
+        console.log(`CodeBeat: Generating ${state} debug music - ${summary.breakpointCount} breakpoints, ${summary.exceptionCount} exceptions`);
+
+        // Many breakpoints means a deeper investigation, up to three levels
+        const depth = Math.min(3, Math.floor(summary.breakpointCount / 3));
+        const debugStates: { [key in DebugState]: Omit<MusicParameters, 'prompt' | 'context'> } = {
+            'investigating': {
+                bpm: 85 + depth * 5,
+                mood: 'curious',
+                genre: 'investigative minimal electronic',
+                energy: 4 + depth,
+                complexity: 'debugging',
+                instruments: ['pulsing synth', 'muted piano', 'ticking percussion', 'deep bass'],
+                structure: 'steady suspenseful loop',
+                duration: 90,
+                tags: ['debugging', 'investigation', 'suspense']
+            },
+            'paused': {
+                bpm: 70,
+                mood: 'suspenseful',
+                genre: 'ambient suspense',
+                energy: 3,
+                complexity: 'debugging',
+                instruments: ['ambient pad', 'muted piano', 'soft pulse'],
+                structure: 'hovering drone with sparse motifs',
+                duration: 90,
+                tags: ['debugging', 'breakpoint', 'inspection']
+            },
+            'exception': {
+                bpm: 110,
+                mood: 'alarming',
+                genre: 'cinematic tension',
+                energy: 8,
+                complexity: 'failure',
+                instruments: ['staccato strings', 'low brass', 'impact percussion'],
+                structure: 'short sting with unresolved ending',
+                duration: 10,
+                tags: ['exception', 'tension', 'debugging']
+            },
+            'resolved': {
+                bpm: 75,
+                mood: 'relieved',
+                genre: 'warm ambient',
+                energy: 3,
+                complexity: 'moderate',
+                instruments: ['piano', 'warm pad', 'soft strings'],
+                structure: 'gentle resolution to the tonic',
+                duration: 60,
+                tags: ['debugging', 'resolved', 'calm']
+            }
+        };
+
+        const baseParams: MusicParameters = {
+            ...debugStates[state],
+            tags: [...debugStates[state].tags, `${summary.breakpointCount}_breakpoints`],
+            prompt: '',
+            context: `debug_${state}`
+        };
+
+        const finalParams = this.generatePrompt(baseParams, null);
+        console.log('CodeBeat: Final debug music parameters:', JSON.stringify(finalParams, null, 2));
+        return finalParams;
+    }
+
+    /**
+     * A tension cue for a merge that stopped on conflicts; more conflicts
+     * make it darker and longer.
+     */
+    public generateFromMergeConflict(conflictCount: number): MusicParameters {
+        const severity = Math.min(3, Math.floor(conflictCount / 3));
+
+        const baseParams: MusicParameters = {
+            bpm: 95 + severity * 5,
+            mood: severity >= 2 ? 'ominous' : 'tense',
+            genre: 'cinematic tension',
+            energy: Math.min(10, 6 + severity),
+            complexity: 'failure',
+            instruments: ['clashing strings', 'low brass', 'taiko drums'],
+            structure: 'two clashing motifs left unresolved',
+            duration: 10 + severity * 3,
+            tags: ['merge_conflict', 'tension', `${conflictCount}_conflicts`],
+            prompt: '',
+            context: 'merge_conflict_sting'
+        };
+
+        return this.generatePrompt(baseParams, null);
+    }
+
+    public generateFromCelebration(
+        celebrationType: CelebrationType,
+        context?: string,
+        intensity: CelebrationIntensity = 'normal'
+    ): MusicParameters {
+        const definition = this.celebrationRegistry.get(celebrationType) ||
+            this.celebrationRegistry.get(CelebrationRegistry.fallbackType)!;
+
+        const overrides = this.profileStore.getProfile().celebrations[celebrationType];
+        const music = this.removeBannedInstruments({ ...definition.music, ...overrides });
+        const baseParams = this.applyCelebrationIntensity(music, intensity);
+        
+        return {
+            ...baseParams,
+            complexity: 'celebration',
+            context: `${celebrationType}_celebration`,
+            prompt: context ? `${baseParams.prompt}. Context: ${context}` : baseParams.prompt
+        };
+    }
+
+    private applyCelebrationIntensity<T extends { bpm: number; energy: number; duration: number; tags: string[]; prompt: string }>(
+        params: T,
+        intensity: CelebrationIntensity
+    ): T {
+        switch (intensity) {
+            case 'minor':
+                // Partial runs get a short, quieter flourish
+                return {
+                    ...params,
+                    bpm: params.bpm - 10,
+                    energy: Math.max(1, params.energy - 3),
+                    duration: Math.round(params.duration / 2),
+                    tags: [...params.tags, 'small win'],
+                    prompt: `Short, understated version: ${params.prompt}`
+                };
+            case 'major':
+                return {
+                    ...params,
+                    bpm: params.bpm + 5,
+                    energy: 10,
+                    duration: Math.round(params.duration * 1.3),
+                    tags: [...params.tags, 'breakthrough'],
+                    prompt: `${params.prompt}, bigger and more euphoric than ever - a breakthrough moment`
+                };
+            default:
+                return params;
+        }
+    }
+
+    /**
+     * A short "setback" sting followed by focused debugging music. The streak
+     * counts consecutive failures of the same task and escalates the tension.
+     */
+    public generateFromFailure(
+        failureKind: FailureKind,
+        streak: number
+    ): FailureMusic {
+        const failures = {
+            'compile_error': {
+                bpm: 85,
+                mood: 'frustrated',
+                genre: 'dark electronic',
+                instruments: ['distorted synth', 'low brass', 'glitch percussion'],
+                prompt: 'Short glitchy electronic sting with a descending synth line, signalling a failed compilation'
+            },
+            'test_failure': {
+                bpm: 90,
+                mood: 'disappointed',
+                genre: 'minor key electronic',
+                instruments: ['detuned piano', 'synth', 'muted percussion'],
+                prompt: 'Short deflating minor key sting with a detuned piano motif, signalling failing tests'
+            },
+            'deploy_failure': {
+                bpm: 75,
+                mood: 'ominous',
+                genre: 'dark cinematic',
+                instruments: ['low strings', 'brass', 'timpani'],
+                prompt: 'Short ominous cinematic sting with low brass and timpani hits, signalling a failed deployment'
+            },
+            'crash': {
+                bpm: 100,
+                mood: 'alarming',
+                genre: 'industrial',
+                instruments: ['industrial percussion', 'distorted synth', 'noise'],
+                prompt: 'Short jarring industrial sting with a crashing percussion hit, signalling a program crash'
+            }
+        };
+
+        const base = failures[failureKind];
+        // Tension grows with each repeated failure, up to three levels
+        const tension = Math.max(0, Math.min(streak - 1, 3));
+        const tensionMoods = ['focused', 'determined', 'tense', 'urgent'];
+        const tensionTags = ['calm', 'escalating', 'pressure', 'high-stakes'];
+
+        const sting: MusicParameters = {
+            bpm: base.bpm + tension * 8,
+            mood: base.mood,
+            genre: base.genre,
+            energy: Math.min(10, 6 + tension),
+            complexity: 'failure',
+            instruments: base.instruments,
+            structure: 'short sting with falling resolution',
+            duration: 10,
+            tags: ['setback', failureKind, tensionTags[tension]],
+            prompt: tension > 0
+                ? `${base.prompt}. Failed ${streak} times in a row, more intense and urgent`
+                : base.prompt,
+            context: `${failureKind}_sting`
+        };
+
+        const debugging: MusicParameters = {
+            bpm: 80 + tension * 10,
+            mood: tensionMoods[tension],
+            genre: tension >= 2 ? 'tense minimal electronic' : 'focused minimal electronic',
+            energy: 3 + tension,
+            complexity: 'debugging',
+            instruments: tension >= 2
+                ? ['pulsing synth', 'ticking percussion', 'low strings', 'bass']
+                : ['soft synth', 'light percussion', 'ambient pad'],
+            structure: tension >= 2 ? 'steady build with rising pulse' : 'steady repetitive loop',
+            duration: 60,
+            tags: ['debugging', 'focus', tensionTags[tension]],
+            prompt: tension >= 2
+                ? `Tense minimal electronic music with a rising pulse for intense debugging after ${streak} failures in a row`
+                : 'Focused minimal electronic loop that helps concentrate while debugging a problem',
+            context: 'debugging_focus'
+        };
+
+        return {
+            sting: this.removeBannedInstruments(sting),
+            debugging: this.removeBannedInstruments(debugging)
+        };
+    }
+
+    /** Picks a new seed so the same code gets a different take. */
+    public reshuffle(): void {
+        this.shuffleSeed = Math.floor(Math.random() * 0xfffffffe) + 1;
+        console.log(`CodeBeat: Reshuffled music parameters, new seed ${this.shuffleSeed}`);
+    }
+
+    private getBaseParameters(analysis: CodeAnalysis, random: () => number): MusicParameters {
         // Enhanced complexity mappings with more aggressive stress-inducing parameters
         const complexityMappings = {
             'simple': {
@@ -127,15 +499,33 @@ export class MusicParameterGenerator {
             }
         };
 
-        const mapping = complexityMappings[analysis.complexity];
+        const profile = this.profileStore.getProfile();
+        const overrides = profile.complexity[analysis.complexity] ?? {};
+        const mapping = { ...complexityMappings[analysis.complexity], ...overrides };
         const bpmRange = mapping.bpm;
         const energyRange = mapping.energy;
 
+        // A profile's ranges also bound the tempo and energy the analysis suggests
+        const bpm = analysis.recommendedBPM && overrides.bpm
+            ? Math.max(bpmRange[0], Math.min(bpmRange[1], analysis.recommendedBPM))
+            : analysis.recommendedBPM;
+        const energy = analysis.energy && overrides.energy
+            ? Math.max(energyRange[0], Math.min(energyRange[1], analysis.energy))
+            : analysis.energy;
+
+        // After a reshuffle the suggested values vary too, or code whose analysis
+        // recommends a tempo and energy would never sound different
+        const shuffled = this.shuffleSeed !== 0;
+        const finalBpm = !bpm ? this.randomInRange(random, bpmRange[0], bpmRange[1])
+            : shuffled ? Math.round(bpm * (0.9 + random() * 0.2)) : bpm;
+        const finalEnergy = !energy ? this.randomInRange(random, energyRange[0], energyRange[1])
+            : shuffled ? Math.max(1, Math.min(10, energy + this.randomInRange(random, -1, 1))) : energy;
+
         return {
-            bpm: analysis.recommendedBPM || this.randomInRange(bpmRange[0], bpmRange[1]),
+            bpm: finalBpm,
             mood: analysis.mood,
-            genre: analysis.genre || mapping.genre,
-            energy: analysis.energy || this.randomInRange(energyRange[0], energyRange[1]),
+            genre: overrides.genre || this.getPreferredGenre(analysis.complexity) || analysis.genre || mapping.genre,
+            energy: finalEnergy,
             complexity: analysis.complexity,
             instruments: mapping.instruments,
             structure: this.getStructureForComplexity(analysis.complexity),
@@ -151,6 +541,21 @@ export class MusicParameterGenerator {
         languageId: string,
         lineCount: number
     ): MusicParameters {
+        const langMods = this.getLanguageModifications(params, languageId);
+
+        // File size only sets the track length; intensity comes from the flow state
+        const sizeModifier = this.getSizeModifier(lineCount);
+
+        return {
+            ...params,
+            ...langMods,
+            bpm: Math.max(40, Math.min(200, langMods.bpm || params.bpm)),
+            duration: sizeModifier.duration,
+            tags: [...(langMods.tags || params.tags), `${lineCount}_lines`]
+        };
+    }
+
+    private getLanguageModifications(params: MusicParameters, languageId: string): Partial<MusicParameters> {
         // Language-specific modifications
         const languageModifications: { [key: string]: Partial<MusicParameters> } = {
             'javascript': { 
@@ -203,52 +608,46 @@ export class MusicParameterGenerator {
             }
         };
 
-        const langMods = languageModifications[languageId] || {};
+        const profile = this.profileStore.getProfile();
+        const modifications = { ...languageModifications[languageId] };
+        if (profile.preferredGenres.length > 0) {
+            // The team's genres win over the built-in flavour of each language
+            delete modifications.genre;
+        }
 
-        // File size modifications with stress multipliers
-        const sizeModifier = this.getSizeModifier(lineCount);
-        
-        // Apply stress multiplier to both BPM and energy
-        const baseBpm = langMods.bpm || params.bpm;
-        const baseEnergy = langMods.energy || params.energy;
-        
-        const adjustedBpm = Math.max(40, Math.min(200, baseBpm + sizeModifier.bpmAdjustment));
-        const adjustedEnergy = Math.max(1, Math.min(10, (baseEnergy + sizeModifier.energyAdjustment) * sizeModifier.stressMultiplier));
-        
-        // For very large files, make the music more chaotic and stressful
-        let adjustedInstruments = langMods.instruments || params.instruments;
-        let adjustedGenre = langMods.genre || params.genre;
-        
-        if (lineCount >= 50) {
-            // Add stress-inducing elements for LONG files (50+ lines)
-            adjustedInstruments = [...adjustedInstruments, 'urgent percussion', 'building tension'];
-            if (lineCount >= 150) {
-                // VERY LONG files (150+ lines) get much more stressful elements
-                adjustedInstruments.push('rapid percussion', 'tense strings', 'escalating intensity');
-                adjustedGenre = 'high-tension ' + adjustedGenre;
-                if (lineCount >= 300) {
-                    // Extremely large files get maximum stress elements
-                    adjustedInstruments.push('dissonant harmonies', 'urgent brass', 'overwhelming orchestral');
-                    adjustedGenre = 'overwhelming ' + adjustedGenre;
-                }
-            }
+        const overrides = profile.languages[languageId];
+        if (!overrides) {
+            return modifications;
         }
-        
         return {
-            ...params,
-            ...langMods,
-            bpm: adjustedBpm,
-            energy: adjustedEnergy,
-            duration: sizeModifier.duration,
-            instruments: adjustedInstruments,
-            genre: adjustedGenre,
-            tags: [...(params.tags || []), `${lineCount}_lines`, sizeModifier.stressMultiplier > 1.2 ? 'high_stress' : 'manageable']
+            ...modifications,
+            ...(overrides.genre && { genre: overrides.genre }),
+            ...(overrides.instruments && { instruments: overrides.instruments }),
+            ...(overrides.tags && { tags: [...(modifications.tags || params.tags), ...overrides.tags] }),
+            ...(overrides.bpmOffset && { bpm: (modifications.bpm || params.bpm) + overrides.bpmOffset }),
+            ...(overrides.energyOffset && {
+                energy: Math.max(1, Math.min(10, (modifications.energy || params.energy) + overrides.energyOffset))
+            })
         };
     }
 
+    /**
+     * Spreads the profile's preferred genres, listed from calmest to most
+     * intense, across the complexity levels.
+     */
+    private getPreferredGenre(complexity: CodeAnalysis['complexity']): string | undefined {
+        const genres = this.profileStore.getProfile().preferredGenres;
+        if (genres.length === 0) {
+            return undefined;
+        }
+        const levels: CodeAnalysis['complexity'][] = ['simple', 'moderate', 'complex', 'very_complex'];
+        const level = Math.max(0, levels.indexOf(complexity));
+        return genres[Math.floor(level * genres.length / levels.length)];
+    }
+
     private applyDiagnosticModifications(
         baseParams: Partial<MusicParameters>,
-        severity: 'low' | 'medium' | 'high' | 'critical',
+        severity: DiagnosticSeverity,
         errorCount: number,
         warningCount: number
     ): Partial<MusicParameters> {
@@ -287,7 +686,7 @@ export class MusicParameterGenerator {
             }
         };
 
-        const mapping = severityMappings[severity];
+        const mapping = { ...severityMappings[severity], ...this.profileStore.getProfile().severity[severity] };
 
         return {
             ...baseParams,
@@ -302,7 +701,7 @@ export class MusicParameterGenerator {
         };
     }
 
-    private calculateDiagnosticSeverity(errorCount: number, warningCount: number): 'low' | 'medium' | 'high' | 'critical' {
+    private calculateDiagnosticSeverity(errorCount: number, warningCount: number): DiagnosticSeverity {
         const totalIssues = errorCount + (warningCount * 0.5);
         
         if (errorCount >= 10 || totalIssues >= 15) return 'critical';
@@ -311,65 +710,15 @@ export class MusicParameterGenerator {
         return 'low';
     }
 
-    private getSizeModifier(lineCount: number): { bpmAdjustment: number; energyAdjustment: number; duration: number; stressMultiplier: number } {
-        // Much more aggressive size-based modifications - stress kicks in much earlier
-        if (lineCount < 25) {
-            // Very short files - relaxed
-            return { 
-                bpmAdjustment: -15, 
-                energyAdjustment: -1, 
-                duration: 25,
-                stressMultiplier: 0.6  // Relaxed but not extremely so
-            };
-        } else if (lineCount < 50) {
-            // Short files - neutral (this is the threshold for "long")
-            return { 
-                bpmAdjustment: 0, 
-                energyAdjustment: 0, 
-                duration: 40,
-                stressMultiplier: 0.9  // Almost neutral
-            };
-        } else if (lineCount < 100) {
-            // LONG files (50+) - starting to get stressful 
-            return { 
-                bpmAdjustment: 20, 
-                energyAdjustment: 2, 
-                duration: 60,
-                stressMultiplier: 1.4  // Noticeably stressful
-            };
-        } else if (lineCount < 150) {
-            // LONG files getting more stressful
-            return { 
-                bpmAdjustment: 35, 
-                energyAdjustment: 3, 
-                duration: 75,
-                stressMultiplier: 1.8  // Quite stressful
-            };
-        } else if (lineCount < 300) {
-            // VERY LONG files (150+) - very stressful
-            return { 
-                bpmAdjustment: 50, 
-                energyAdjustment: 4, 
-                duration: 90,
-                stressMultiplier: 2.2  // Very stressful
-            };
-        } else if (lineCount < 500) {
-            // VERY LONG files - extremely stressful
-            return { 
-                bpmAdjustment: 70, 
-                energyAdjustment: 5, 
-                duration: 120,
-                stressMultiplier: 2.7  // Extremely stressful
-            };
-        } else {
-            // MASSIVE files - overwhelming stress
-            return { 
-                bpmAdjustment: 90, 
-                energyAdjustment: 6, 
-                duration: 150,
-                stressMultiplier: 3.0  // Maximum stress
-            };
-        }
+    private getSizeModifier(lineCount: number): { duration: number } {
+        // Longer files tend to be worked on longer, so they get longer tracks
+        if (lineCount < 25) return { duration: 25 };
+        if (lineCount < 50) return { duration: 40 };
+        if (lineCount < 100) return { duration: 60 };
+        if (lineCount < 150) return { duration: 75 };
+        if (lineCount < 300) return { duration: 90 };
+        if (lineCount < 500) return { duration: 120 };
+        return { duration: 150 };
     }
 
     private getStructureForComplexity(complexity: string): string {
@@ -383,46 +732,74 @@ export class MusicParameterGenerator {
     }
 
     private generatePrompt(params: MusicParameters, analysis: CodeAnalysis | null): MusicParameters {
-        // Determine stress level based on tags and complexity - much more sensitive triggers
-        const isHighStress = params.tags.includes('high_stress');
-        const hasLongFile = params.tags.some(tag => tag.includes('_lines') && parseInt(tag.split('_')[0]) >= 50);   // Long at 50+ lines
-        const hasVeryLongFile = params.tags.some(tag => tag.includes('_lines') && parseInt(tag.split('_')[0]) >= 150); // Very long at 150+ lines
         const isComplexOrHigher = params.complexity === 'complex' || params.complexity === 'very_complex';
         const isVeryComplex = params.complexity === 'very_complex';
+        const flowState = params.tags.find(tag => this.isFlowTag(tag)) as FlowState | undefined;
+        // Once the developer is in flow, thrashing or away, the code no longer drives tension
+        const allowsTension = !flowState || flowState === 'warming_up';
         
         // Create a more concise prompt to stay under API limits
         let prompt = `${params.genre} at ${params.bpm} BPM, ${params.mood} mood. `;
+
+        const flowDescriptions: { [state in FlowState]: string } = {
+            'warming_up': 'Gently building momentum. ',
+            'in_flow': 'Steady and hypnotic, no sudden changes. ',
+            'thrashing': 'Calming and grounding, slow and reassuring. ',
+            'idle': 'Quiet, sparse background. '
+        };
+        if (flowState) {
+            prompt += flowDescriptions[flowState];
+        }
         
-        // Add stress-specific descriptors - much more aggressive triggers but concise
-        if (isHighStress || hasVeryLongFile || isVeryComplex) {
+        if (allowsTension && isVeryComplex) {
             prompt += `URGENT, overwhelming stress. `;
-        } else if (hasLongFile || isComplexOrHigher) {
+        } else if (allowsTension && isComplexOrHigher) {
             prompt += `Building tension and stress. `;
         } else if (params.bpm < 70) {
             prompt += `Calm and peaceful. `;
         }
         
         // Simplified instrument list - take key instruments only
-        const keyInstruments = this.getKeyInstruments(params.instruments, isHighStress || hasVeryLongFile);
-        prompt += `Instruments: ${keyInstruments.join(', ')}. `;
+        const allowedInstruments = params.instruments.filter(instrument => !this.isBannedInstrument(instrument));
+        const keyInstruments = this.getKeyInstruments(allowedInstruments, allowsTension && isVeryComplex);
+        if (keyInstruments.length > 0) {
+            prompt += `Instruments: ${keyInstruments.join(', ')}. `;
+        }
         
         // Simplified structure
-        if (isVeryComplex || isHighStress || hasVeryLongFile) {
+        if (allowsTension && isVeryComplex) {
             prompt += `Overwhelming complexity. `;
-        } else if (isComplexOrHigher || hasLongFile) {
+        } else if (allowsTension && isComplexOrHigher) {
             prompt += `Mounting tension. `;
-        } else if (params.complexity === 'simple' && !hasLongFile) {
+        } else if (params.complexity === 'simple') {
             prompt += `Simple and gentle. `;
         }
         
         prompt += `Energy ${params.energy}/10, ${params.duration}s duration.`;
 
-        return {
+        return this.removeBannedInstruments({
             ...params,
             prompt
+        });
+    }
+
+    /** Drops instruments the workspace profile bans and asks Suno to leave them out too. */
+    private removeBannedInstruments<T extends { instruments: string[]; prompt: string }>(params: T): T {
+        const banned = this.profileStore.getProfile().bannedInstruments;
+        if (banned.length === 0) {
+            return params;
+        }
+        return {
+            ...params,
+            instruments: params.instruments.filter(instrument => !this.isBannedInstrument(instrument)),
+            prompt: `${params.prompt} No ${banned.join(', ')}.`
         };
     }
 
+    private isBannedInstrument(instrument: string): boolean {
+        return this.profileStore.getProfile().bannedInstruments.some(name => instrument.toLowerCase().includes(name));
+    }
+
     private getKeyInstruments(instruments: string[], isHighStress: boolean): string[] {
         // Limit to 4-5 key instruments to keep prompt short
         if (isHighStress) {
@@ -438,36 +815,28 @@ export class MusicParameterGenerator {
         }
     }
 
-    private calculateOverallComplexityScore(analysis: CodeAnalysis, lineCount: number): number {
-        // Base complexity score from code analysis - more aggressive scaling
+    private calculateOverallComplexityScore(analysis: CodeAnalysis): number {
+        // Base complexity score from code analysis
         const complexityMap = {
-            'simple': 3,      // Increased from 2
-            'moderate': 5,    // Increased from 4  
-            'complex': 8,     // Increased from 7
-            'very_complex': 10 // Increased from 9
+            'simple': 3,
+            'moderate': 5,
+            'complex': 8,
+            'very_complex': 10
         };
-        let baseScore = complexityMap[analysis.complexity] || 6;
+        const baseScore = complexityMap[analysis.complexity] || 6;
+        const energyContribution = (analysis.energy || 5) * 0.2;
         
-        // Much more aggressive size multiplier - stress kicks in earlier and harder
-        let sizeMultiplier = 1.0;
-        if (lineCount < 25) sizeMultiplier = 0.7;       // Short files are somewhat relaxing
-        else if (lineCount < 50) sizeMultiplier = 1.0;  // Neutral at 50 lines
-        else if (lineCount < 100) sizeMultiplier = 1.6; // LONG files (50+) get stressful quickly
-        else if (lineCount < 150) sizeMultiplier = 2.2; // Getting very stressful
-        else if (lineCount < 300) sizeMultiplier = 2.8; // VERY LONG files (150+) are very stressful
-        else if (lineCount < 500) sizeMultiplier = 3.5; // Extremely stressful
-        else sizeMultiplier = 4.0;                      // Maximum stress for massive files
-        
-        // Energy contribution boosted for more impact
-        const energyContribution = (analysis.energy || 5) * 0.2; // Doubled from 0.1
-        
-        // Calculate final score with more aggressive scaling
-        const finalScore = Math.min(10, Math.max(1, (baseScore * sizeMultiplier) + energyContribution));
+        const finalScore = Math.min(10, Math.max(1, baseScore + energyContribution));
         
         return Math.round(finalScore * 10) / 10; // Round to 1 decimal place
     }
 
-    private randomInRange(min: number, max: number): number {
-        return Math.floor(Math.random() * (max - min + 1)) + min;
+    private createRandom(inputs: (string | number)[]): () => number {
+        const key = [...inputs, JSON.stringify(this.profileStore.getProfile()), this.shuffleSeed].join('|');
+        return createSeededRandom(hashString(key));
+    }
+
+    private randomInRange(random: () => number, min: number, max: number): number {
+        return Math.floor(random() * (max - min + 1)) + min;
     }
 }
@@ -0,0 +1,304 @@
+import * as vscode from 'vscode';
+import { CodeAnalysis } from './tandemApiClient';
+import { DiagnosticSeverity } from './musicParameterGenerator';
+import { CelebrationTemplate } from './celebrationRegistry';
+import { ActiveFolderTracker } from './activeFolder';
+import { ConfigFileWatcher } from './configFileWatcher';
+
+export type ComplexityLevel = CodeAnalysis['complexity'];
+
+export interface ComplexityProfile {
+    bpm?: [number, number];
+    energy?: [number, number];
+    genre?: string;
+    instruments?: string[];
+    tension?: string;
+}
+
+export interface LanguageProfile {
+    genre?: string;
+    instruments?: string[];
+    tags?: string[];
+    bpmOffset?: number;
+    energyOffset?: number;
+}
+
+export interface SeverityProfile {
+    bpm?: number;
+    mood?: string;
+    genre?: string;
+    energy?: number;
+    instruments?: string[];
+    tags?: string[];
+}
+
+/**
+ * The soundtrack style a team agreed on for a workspace, read from
+ * `.codebeat/profile.json`. Every table is optional and only overrides the
+ * entries it names.
+ */
+export interface MusicProfile {
+    preferredGenres: string[];
+    bannedInstruments: string[];
+    complexity: { [level in ComplexityLevel]?: ComplexityProfile };
+    languages: { [languageId: string]: LanguageProfile };
+    severity: { [level in DiagnosticSeverity]?: SeverityProfile };
+    celebrations: { [celebrationType: string]: Partial<CelebrationTemplate> };
+}
+
+type FieldKind = 'string' | 'strings' | 'bpm' | 'energy' | 'seconds' | 'offset' | 'bpmRange' | 'energyRange';
+
+interface ProfileError {
+    path: string;
+    message: string;
+}
+
+/**
+ * Loads `.codebeat/profile.json` from each workspace folder, validates it and
+ * keeps it up to date while the file is edited. The profile of the active
+ * file's folder applies. Invalid entries are skipped and shown in the
+ * Problems panel; the rest of the profile still applies.
+ */
+export class MusicProfileStore implements vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+    private diagnostics: vscode.DiagnosticCollection;
+    private profiles: Map<string, MusicProfile> = new Map();
+    private readonly defaultProfile = MusicProfileStore.emptyProfile();
+
+    public static readonly profileFile = '.codebeat/profile.json';
+    private readonly complexityLevels: ComplexityLevel[] = ['simple', 'moderate', 'complex', 'very_complex'];
+    private readonly severityLevels: DiagnosticSeverity[] = ['low', 'medium', 'high', 'critical'];
+    private readonly bounds: { [kind: string]: [number, number] } = {
+        'bpm': [40, 200],
+        'bpmRange': [40, 200],
+        'energy': [1, 10],
+        'energyRange': [1, 10],
+        'seconds': [5, 300],
+        'offset': [-50, 50]
+    };
+
+    constructor(private folderTracker: ActiveFolderTracker) {
+        this.diagnostics = vscode.languages.createDiagnosticCollection('codebeat-profile');
+    }
+
+    public start(): void {
+        if (this.disposables.length > 0) {
+            return;
+        }
+
+        this.disposables.push(new ConfigFileWatcher(MusicProfileStore.profileFile, () => this.reload()));
+
+        this.reload();
+    }
+
+    public getProfile(): MusicProfile {
+        const key = ActiveFolderTracker.getFolderKey(this.folderTracker.getActiveFolder());
+        return this.profiles.get(key) || this.defaultProfile;
+    }
+
+    private static emptyProfile(): MusicProfile {
+        return {
+            preferredGenres: [],
+            bannedInstruments: [],
+            complexity: {},
+            languages: {},
+            severity: {},
+            celebrations: {}
+        };
+    }
+
+    private async reload(): Promise<void> {
+        this.diagnostics.clear();
+
+        const profiles: Map<string, MusicProfile> = new Map();
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            const uri = vscode.Uri.joinPath(folder.uri, MusicProfileStore.profileFile);
+            let text: string;
+            try {
+                text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+            } catch {
+                continue; // No profile in this folder
+            }
+
+            const errors: ProfileError[] = [];
+            profiles.set(ActiveFolderTracker.getFolderKey(folder), this.parseProfile(text, errors));
+            this.diagnostics.set(uri, errors.map(error => {
+                const diagnostic = new vscode.Diagnostic(
+                    this.findPropertyRange(text, error.path),
+                    error.path ? `${error.path}: ${error.message}` : error.message,
+                    vscode.DiagnosticSeverity.Error
+                );
+                diagnostic.source = 'CodeBeat';
+                return diagnostic;
+            }));
+            console.log(`CodeBeat: Loaded music profile from ${vscode.workspace.asRelativePath(uri)} (${errors.length} problems)`);
+        }
+
+        this.profiles = profiles;
+    }
+
+    private parseProfile(text: string, errors: ProfileError[]): MusicProfile {
+        const profile = MusicProfileStore.emptyProfile();
+
+        let content: { [key: string]: unknown };
+        try {
+            content = JSON.parse(text);
+        } catch (error) {
+            errors.push({ path: '', message: `Invalid JSON: ${error instanceof Error ? error.message : error}` });
+            return profile;
+        }
+        if (!content || typeof content !== 'object' || Array.isArray(content)) {
+            errors.push({ path: '', message: 'Expected an object' });
+            return profile;
+        }
+
+        const topLevel = this.readFields(content, {
+            preferredGenres: 'strings',
+            bannedInstruments: 'strings'
+        }, '', errors, ['complexity', 'languages', 'severity', 'celebrations', '$schema']);
+        profile.preferredGenres = topLevel.preferredGenres ?? [];
+        profile.bannedInstruments = (topLevel.bannedInstruments ?? []).map((instrument: string) => instrument.toLowerCase());
+
+        this.forEachEntry(content.complexity, 'complexity', errors, (level, raw, path) => {
+            if (!this.complexityLevels.includes(level as ComplexityLevel)) {
+                errors.push({ path, message: `Unknown complexity level, expected one of ${this.complexityLevels.join(', ')}` });
+                return;
+            }
+            profile.complexity[level as ComplexityLevel] = this.readFields(raw, {
+                bpm: 'bpmRange',
+                energy: 'energyRange',
+                genre: 'string',
+                instruments: 'strings',
+                tension: 'string'
+            }, path, errors);
+        });
+
+        this.forEachEntry(content.languages, 'languages', errors, (languageId, raw, path) => {
+            // A plain string is the short form of a language-to-genre map
+            profile.languages[languageId] = typeof raw === 'string'
+                ? { genre: raw }
+                : this.readFields(raw, {
+                    genre: 'string',
+                    instruments: 'strings',
+                    tags: 'strings',
+                    bpmOffset: 'offset',
+                    energyOffset: 'offset'
+                }, path, errors);
+        });
+
+        this.forEachEntry(content.severity, 'severity', errors, (level, raw, path) => {
+            if (!this.severityLevels.includes(level as DiagnosticSeverity)) {
+                errors.push({ path, message: `Unknown severity, expected one of ${this.severityLevels.join(', ')}` });
+                return;
+            }
+            profile.severity[level as DiagnosticSeverity] = this.readFields(raw, {
+                bpm: 'bpm',
+                mood: 'string',
+                genre: 'string',
+                energy: 'energy',
+                instruments: 'strings',
+                tags: 'strings'
+            }, path, errors);
+        });
+
+        this.forEachEntry(content.celebrations, 'celebrations', errors, (celebrationType, raw, path) => {
+            profile.celebrations[celebrationType] = this.readFields(raw, {
+                bpm: 'bpm',
+                mood: 'string',
+                genre: 'string',
+                energy: 'energy',
+                instruments: 'strings',
+                structure: 'string',
+                duration: 'seconds',
+                tags: 'strings',
+                prompt: 'string'
+            }, path, errors);
+        });
+
+        return profile;
+    }
+
+    private forEachEntry(
+        table: unknown,
+        section: string,
+        errors: ProfileError[],
+        callback: (key: string, raw: unknown, path: string) => void
+    ): void {
+        if (table === undefined) {
+            return;
+        }
+        if (!table || typeof table !== 'object' || Array.isArray(table)) {
+            errors.push({ path: section, message: 'Expected an object' });
+            return;
+        }
+        Object.entries(table).forEach(([key, raw]) => callback(key, raw, `${section}.${key}`));
+    }
+
+    /** Returns the valid fields of an entry; invalid and unknown ones are reported and left out. */
+    private readFields(
+        raw: unknown,
+        fields: { [key: string]: FieldKind },
+        path: string,
+        errors: ProfileError[],
+        otherKeys: string[] = []
+    ): any {
+        const result: { [key: string]: unknown } = {};
+        if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+            errors.push({ path, message: 'Expected an object' });
+            return result;
+        }
+
+        for (const [key, value] of Object.entries(raw)) {
+            const fieldPath = path ? `${path}.${key}` : key;
+            const kind = fields[key];
+            if (!kind) {
+                if (!otherKeys.includes(key)) {
+                    errors.push({ path: fieldPath, message: `Unknown property, expected one of ${Object.keys(fields).concat(otherKeys.filter(other => other !== '$schema')).join(', ')}` });
+                }
+                continue;
+            }
+
+            const message = this.validateField(kind, value);
+            if (message) {
+                errors.push({ path: fieldPath, message });
+            } else {
+                result[key] = value;
+            }
+        }
+        return result;
+    }
+
+    private validateField(kind: FieldKind, value: unknown): string | undefined {
+        const [min, max] = this.bounds[kind] ?? [0, 0];
+        switch (kind) {
+            case 'string':
+                return typeof value === 'string' && value.trim().length > 0 ? undefined : 'Must be a non-empty string';
+            case 'strings':
+                return Array.isArray(value) && value.every(item => typeof item === 'string')
+                    ? undefined
+                    : 'Must be an array of strings';
+            case 'bpmRange':
+            case 'energyRange':
+                return Array.isArray(value) && value.length === 2 &&
+                    value.every(item => typeof item === 'number' && item >= min && item <= max) && value[0] <= value[1]
+                    ? undefined
+                    : `Must be [min, max] with values from ${min} to ${max}`;
+            default:
+                return typeof value === 'number' && value >= min && value <= max
+                    ? undefined
+                    : `Must be a number from ${min} to ${max}`;
+        }
+    }
+
+    private findPropertyRange(text: string, path: string): vscode.Range {
+        // Point at the first occurrence of the innermost key
+        const key = path.split('.').pop();
+        return key ? ConfigFileWatcher.findKeyRange(text, key) : new vscode.Range(0, 0, 0, 0);
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.diagnostics.dispose();
+    }
+}
@@ -0,0 +1,235 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { MusicBackend } from './musicBackend';
+import { TrackHistory } from './trackHistory';
+
+type PanelMessage =
+    | { command: 'ready' | 'stop' | 'toggleMute' }
+    | { command: 'replay' | 'pin' | 'delete'; id: string };
+
+/**
+ * Webview showing the current track, its musical parameters and the
+ * replayable track history. Only one panel exists at a time.
+ */
+export class NowPlayingPanel implements vscode.Disposable {
+    private static currentPanel: NowPlayingPanel | undefined;
+    private static readonly viewType = 'codebeat.nowPlaying';
+    private disposables: vscode.Disposable[] = [];
+
+    public static createOrShow(history: TrackHistory, musicBackend: MusicBackend): void {
+        if (NowPlayingPanel.currentPanel) {
+            NowPlayingPanel.currentPanel.panel.reveal();
+            return;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            NowPlayingPanel.viewType,
+            'CodeBeat: Now Playing',
+            vscode.ViewColumn.Beside,
+            { enableScripts: true }
+        );
+        NowPlayingPanel.currentPanel = new NowPlayingPanel(panel, history, musicBackend);
+    }
+
+    private constructor(
+        private panel: vscode.WebviewPanel,
+        private history: TrackHistory,
+        private musicBackend: MusicBackend
+    ) {
+        this.panel.webview.html = this.getHtml();
+
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+        this.panel.webview.onDidReceiveMessage((message: PanelMessage) => this.handleMessage(message), null, this.disposables);
+        this.history.onDidChange(() => this.postState(), null, this.disposables);
+    }
+
+    private handleMessage(message: PanelMessage): void {
+        switch (message.command) {
+            case 'ready':
+                break;
+            case 'stop':
+                this.musicBackend.stop();
+                break;
+            case 'toggleMute':
+                this.musicBackend.mute(!this.musicBackend.isMuted());
+                break;
+            case 'replay': {
+                const track = this.history.getTrack(message.id);
+                if (track) {
+                    this.musicBackend.playTrack(track);
+                }
+                break;
+            }
+            case 'pin':
+                this.history.togglePin(message.id);
+                break;
+            case 'delete':
+                this.history.remove(message.id);
+                break;
+        }
+        this.postState();
+    }
+
+    private postState(): void {
+        this.panel.webview.postMessage({
+            type: 'state',
+            nowPlaying: this.history.getNowPlaying(),
+            generating: this.history.getGenerating(),
+            history: this.history.getEntries(),
+            muted: this.musicBackend.isMuted()
+        });
+    }
+
+    private getHtml(): string {
+        const webview = this.panel.webview;
+        const nonce = crypto.randomBytes(16).toString('hex');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} https: data:; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>CodeBeat: Now Playing</title>
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 12px; }
+        .now-playing { display: flex; gap: 16px; align-items: center; margin-bottom: 16px; }
+        .cover { width: 120px; height: 120px; object-fit: cover; border-radius: 6px; background: var(--vscode-editorWidget-background); }
+        .title { font-size: 1.3em; font-weight: 600; margin-bottom: 4px; }
+        .meta { opacity: 0.8; margin-bottom: 6px; }
+        .badge { display: inline-block; padding: 1px 8px; border-radius: 10px; font-size: 0.85em;
+                 background: var(--vscode-badge-background); color: var(--vscode-badge-foreground); }
+        .generating { font-style: italic; opacity: 0.8; margin-bottom: 12px; }
+        button { background: var(--vscode-button-secondaryBackground); color: var(--vscode-button-secondaryForeground);
+                 border: none; padding: 3px 10px; margin-right: 4px; cursor: pointer; border-radius: 2px; }
+        button:hover { background: var(--vscode-button-secondaryHoverBackground); }
+        h2 { font-size: 1.1em; border-bottom: 1px solid var(--vscode-panel-border); padding-bottom: 4px; }
+        ul { list-style: none; padding: 0; }
+        li { display: flex; justify-content: space-between; align-items: center; padding: 6px 0;
+             border-bottom: 1px solid var(--vscode-panel-border); }
+        .pinned .track-title::before { content: '📌 '; }
+        .empty { opacity: 0.7; }
+    </style>
+</head>
+<body>
+    <div id="now-playing"></div>
+    <div id="generating" class="generating"></div>
+    <div>
+        <button data-command="stop">⏹ Stop</button>
+        <button id="mute" data-command="toggleMute">🔇 Mute</button>
+    </div>
+    <h2>History</h2>
+    <ul id="history"></ul>
+
+    <script nonce="${nonce}">
+        const vscode = acquireVsCodeApi();
+        const triggerLabels = {
+            code_analysis: '💻 Code analysis',
+            error_feedback: '🐛 Error feedback',
+            success_celebration: '🎉 Celebration',
+            failure_sting: '💥 Setback',
+            debug_session: '🐞 Debugging',
+            manual: '🎛️ Manual'
+        };
+
+        function element(tag, className, text) {
+            const node = document.createElement(tag);
+            if (className) { node.className = className; }
+            if (text !== undefined) { node.textContent = text; }
+            return node;
+        }
+
+        function button(label, command, id) {
+            const node = element('button', '', label);
+            node.dataset.command = command;
+            if (id) { node.dataset.id = id; }
+            return node;
+        }
+
+        function describe(track) {
+            return track.bpm + ' BPM · ' + track.genre + ' · ' + track.mood;
+        }
+
+        function renderNowPlaying(track) {
+            const container = document.getElementById('now-playing');
+            container.replaceChildren();
+            if (!track) {
+                container.appendChild(element('p', 'empty', 'Nothing playing yet. Start coding!'));
+                return;
+            }
+
+            const card = element('div', 'now-playing');
+            const cover = element('img', 'cover');
+            if (track.imageUrl) {
+                cover.src = track.imageUrl;
+                cover.alt = 'Cover art';
+            }
+            card.appendChild(cover);
+
+            const info = element('div');
+            info.appendChild(element('div', 'title', track.title));
+            info.appendChild(element('div', 'meta', describe(track)));
+            info.appendChild(element('span', 'badge', triggerLabels[track.triggerType] || track.triggerType));
+            card.appendChild(info);
+            container.appendChild(card);
+        }
+
+        function renderHistory(entries) {
+            const list = document.getElementById('history');
+            list.replaceChildren();
+            if (entries.length === 0) {
+                list.appendChild(element('li', 'empty', 'No tracks played yet.'));
+                return;
+            }
+
+            for (const entry of entries) {
+                const item = element('li', entry.pinned ? 'pinned' : '');
+                const info = element('div');
+                info.appendChild(element('div', 'track-title', entry.track.title));
+                info.appendChild(element('div', 'meta',
+                    describe(entry.track) + ' · ' + (triggerLabels[entry.track.triggerType] || entry.track.triggerType) +
+                    ' · ' + new Date(entry.track.timestamp).toLocaleTimeString()));
+                item.appendChild(info);
+
+                const actions = element('div');
+                actions.appendChild(button('▶ Replay', 'replay', entry.track.id));
+                actions.appendChild(button(entry.pinned ? 'Unpin' : 'Pin', 'pin', entry.track.id));
+                actions.appendChild(button('Delete', 'delete', entry.track.id));
+                item.appendChild(actions);
+                list.appendChild(item);
+            }
+        }
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.type !== 'state') {
+                return;
+            }
+            renderNowPlaying(message.nowPlaying);
+            document.getElementById('generating').textContent = message.generating
+                ? '⏳ Generating: ' + describe(message.generating) + ' (' + (triggerLabels[message.generating.triggerType] || '') + ')'
+                : '';
+            document.getElementById('mute').textContent = message.muted ? '🔊 Unmute' : '🔇 Mute';
+            renderHistory(message.history);
+        });
+
+        document.body.addEventListener('click', event => {
+            const target = event.target.closest('button');
+            if (target && target.dataset.command) {
+                vscode.postMessage({ command: target.dataset.command, id: target.dataset.id });
+            }
+        });
+
+        vscode.postMessage({ command: 'ready' });
+    </script>
+</body>
+</html>`;
+    }
+
+    public dispose(): void {
+        NowPlayingPanel.currentPanel = undefined;
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.panel.dispose();
+    }
+}
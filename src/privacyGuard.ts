@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+import { LocalCodeAnalyzer, CodeMetrics } from './localCodeAnalyzer';
+
+export type LogVerbosity = 'quiet' | 'normal' | 'verbose';
+
+/** What may be sent to the remote analysis API for a document. */
+export type RemoteContent =
+    | { kind: 'code'; code: string; redactions: number }
+    | { kind: 'metrics'; metrics: CodeMetrics }
+    | { kind: 'blocked'; reason: string };
+
+export type SendableContent = Exclude<RemoteContent, { kind: 'blocked' }>;
+
+interface RedactionRule {
+    pattern: RegExp;
+    replace: (match: string, ...groups: string[]) => string;
+}
+
+const redacted = '[REDACTED]';
+
+/**
+ * Decides what code may leave the machine. Files and languages on the deny
+ * list (or missing from a non-empty allow list) are never sent, secrets are
+ * redacted from what is, and `remoteAnalysisContent: metrics` replaces the
+ * source with structural metrics altogether.
+ */
+export class PrivacyGuard {
+    private readonly redactionRules: RedactionRule[] = [
+        // Private key blocks
+        { pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g, replace: () => redacted },
+        // Well-known token formats: AWS, GitHub, Slack, Google, Stripe, JWT
+        { pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g, replace: () => redacted },
+        { pattern: /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g, replace: () => redacted },
+        { pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}\b/g, replace: () => redacted },
+        { pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g, replace: () => redacted },
+        { pattern: /\b[rs]k_(?:live|test)_[0-9A-Za-z]{16,}\b/g, replace: () => redacted },
+        { pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g, replace: () => redacted },
+        // Authorization headers and credentials embedded in URLs
+        { pattern: /(Bearer\s+)[A-Za-z0-9\-._~+/]{16,}=*/g, replace: (_match, prefix) => `${prefix}${redacted}` },
+        { pattern: /(\b[a-z][a-z0-9+.-]*:\/\/[^:/\s@]+:)[^@\s]+(@)/gi, replace: (_match, prefix, at) => `${prefix}${redacted}${at}` },
+        // Quoted values assigned to names that look like secrets
+        {
+            pattern: /((?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|private[_-]?key|client[_-]?secret|credentials?)[\w-]*["']?\s*[:=]\s*)(["'`])[^"'`\n]{4,}\2/gi,
+            replace: (_match, prefix, quote) => `${prefix}${quote}${redacted}${quote}`
+        }
+    ];
+
+    constructor(private localAnalyzer: LocalCodeAnalyzer) {}
+
+    public prepareForRemote(document: vscode.TextDocument, content: string): RemoteContent {
+        const config = vscode.workspace.getConfiguration('codebeat');
+
+        const excludedLanguages = config.get<string[]>('remoteExcludeLanguages', []);
+        if (excludedLanguages.includes(document.languageId)) {
+            return { kind: 'blocked', reason: `${document.languageId} is in codebeat.remoteExcludeLanguages` };
+        }
+
+        const excludePattern = config.get<string[]>('remoteExclude', []).find(pattern => vscode.languages.match({ pattern }, document) > 0);
+        if (excludePattern) {
+            return { kind: 'blocked', reason: `matches "${excludePattern}" in codebeat.remoteExclude` };
+        }
+
+        const includePatterns = config.get<string[]>('remoteInclude', []);
+        if (includePatterns.length > 0 && !includePatterns.some(pattern => vscode.languages.match({ pattern }, document) > 0)) {
+            return { kind: 'blocked', reason: 'not matched by codebeat.remoteInclude' };
+        }
+
+        if (config.get<string>('remoteAnalysisContent', 'code') === 'metrics') {
+            return { kind: 'metrics', metrics: this.localAnalyzer.computeMetrics(content, document.languageId) };
+        }
+
+        if (!config.get('redactSecrets', true)) {
+            return { kind: 'code', code: content, redactions: 0 };
+        }
+        const { text, count } = this.redact(content);
+        return { kind: 'code', code: text, redactions: count };
+    }
+
+    public redact(text: string): { text: string; count: number } {
+        let count = 0;
+        for (const rule of this.redactionRules) {
+            text = text.replace(rule.pattern, (match: string, ...groups: any[]) => {
+                count++;
+                return rule.replace(match, ...groups);
+            });
+        }
+        return { text, count };
+    }
+
+    /** Text for logs and recorded sessions, with secrets removed unless `redactSecrets` is off. */
+    public redactForLog(text: string): string {
+        if (!vscode.workspace.getConfiguration('codebeat').get('redactSecrets', true)) {
+            return text;
+        }
+        return this.redact(text).text;
+    }
+}
+
+export function getLogVerbosity(): LogVerbosity {
+    return vscode.workspace.getConfiguration('codebeat').get<LogVerbosity>('logVerbosity', 'normal');
+}
+
+/** Source code for the logs: only `verbose` shows the code itself. */
+export function describeCodeForLog(code: string): string {
+    if (getLogVerbosity() === 'verbose') {
+        return code;
+    }
+    return `[${code.split('\n').length} lines, ${code.length} characters not shown - set codebeat.logVerbosity to "verbose" to log code]`;
+}
@@ -0,0 +1,241 @@
+import { MusicParameters } from './musicParameterGenerator';
+import { hashString, createSeededRandom } from './seededRandom';
+
+interface VoiceSelection {
+    pad: boolean;
+    keys: boolean;
+    lead: boolean;
+    bass: boolean;
+    drums: boolean;
+}
+
+/**
+ * Renders MusicParameters into a short looping WAV without any network
+ * access. The output is deterministic for a given set of parameters so the
+ * same code context always sounds the same.
+ */
+export class ProceduralSynthesizer {
+    private readonly sampleRate = 22050;
+    private readonly maxDurationSeconds = 120;
+
+    private readonly minorMoodPattern = /(intense|troubl|urgent|concern|tense|dark|ominous|contemplat|anx|setback|stress)/i;
+
+    public render(params: MusicParameters): Buffer {
+        const random = createSeededRandom(this.hashParameters(params));
+
+        const bpm = Math.max(40, Math.min(200, params.bpm || 90));
+        const energy = Math.max(1, Math.min(10, params.energy || 5)) / 10;
+        const beatSeconds = 60 / bpm;
+        const barSeconds = beatSeconds * 4;
+
+        // Render whole four-bar phrases so the file loops cleanly
+        const targetSeconds = Math.min(Math.max(params.duration || 30, barSeconds * 4), this.maxDurationSeconds);
+        const phrases = Math.max(1, Math.round(targetSeconds / (barSeconds * 4)));
+        const totalBars = phrases * 4;
+        const samples = new Float32Array(Math.ceil(totalBars * barSeconds * this.sampleRate));
+
+        const isMinor = this.minorMoodPattern.test(`${params.mood} ${params.genre}`);
+        const scale = isMinor ? [0, 2, 3, 5, 7, 8, 10] : [0, 2, 4, 5, 7, 9, 11];
+        const progression = isMinor ? [0, 5, 2, 6] : [0, 4, 5, 3];
+        const rootMidi = 45 + Math.floor(random() * 7);
+        const voices = this.selectVoices(params.instruments || [], energy);
+
+        // One melodic motif per piece, repeated every phrase
+        const noteProbability = 0.25 + energy * 0.5;
+        const motif: Array<number | null> = [];
+        for (let step = 0; step < 32; step++) {
+            motif.push(random() < noteProbability ? Math.floor(random() * 8) : null);
+        }
+
+        for (let bar = 0; bar < totalBars; bar++) {
+            const barStart = bar * barSeconds;
+            const degree = progression[bar % progression.length];
+            const chord = [degree, degree + 2, degree + 4].map(d => rootMidi + 12 + this.degreeToSemitone(d, scale));
+
+            if (voices.pad) {
+                chord.forEach(note => this.addNote(samples, barStart, barSeconds, this.midiToFrequency(note), 0.12, 'pad'));
+            }
+
+            if (voices.bass) {
+                const bassFrequency = this.midiToFrequency(rootMidi + this.degreeToSemitone(degree, scale));
+                this.addNote(samples, barStart, beatSeconds * 2, bassFrequency, 0.35, 'pluck');
+                this.addNote(samples, barStart + beatSeconds * 2, beatSeconds * 2, bassFrequency, 0.3, 'pluck');
+            }
+
+            if (voices.keys) {
+                // Arpeggiate the chord on eighth notes
+                for (let step = 0; step < 8; step++) {
+                    const note = chord[step % chord.length] + (step >= 4 ? 12 : 0);
+                    this.addNote(samples, barStart + step * beatSeconds / 2, beatSeconds, this.midiToFrequency(note), 0.1, 'pluck');
+                }
+            }
+
+            if (voices.lead) {
+                for (let step = 0; step < 8; step++) {
+                    const motifDegree = motif[(bar % 4) * 8 + step];
+                    if (motifDegree === null) {
+                        continue;
+                    }
+                    const note = rootMidi + 24 + this.degreeToSemitone(degree + motifDegree, scale);
+                    this.addNote(samples, barStart + step * beatSeconds / 2, beatSeconds / 2, this.midiToFrequency(note), 0.08, 'saw');
+                }
+            }
+
+            if (voices.drums) {
+                for (let beat = 0; beat < 4; beat++) {
+                    const beatStart = barStart + beat * beatSeconds;
+                    this.addKick(samples, beatStart, 0.5);
+                    if ((beat === 1 || beat === 3) && energy >= 0.4) {
+                        this.addNoiseHit(samples, beatStart, 0.15, 0.25, random);
+                    }
+                    if (energy >= 0.5) {
+                        this.addNoiseHit(samples, beatStart + beatSeconds / 2, 0.04, 0.1, random);
+                    }
+                }
+            }
+        }
+
+        this.normalize(samples);
+        return this.encodeWav(samples);
+    }
+
+    private selectVoices(instruments: string[], energy: number): VoiceSelection {
+        const text = instruments.join(' ').toLowerCase();
+        const voices: VoiceSelection = {
+            pad: /(string|pad|ambient|orchestra|choir|brass|nature|atmospher)/.test(text),
+            keys: /(piano|key)/.test(text),
+            lead: /(synth|electronic|lead)/.test(text),
+            bass: true,
+            drums: /(percussion|beat|drum|timpani|rhythm)/.test(text) || energy >= 0.6
+        };
+
+        // Always keep something harmonic underneath the bass line
+        if (!voices.pad && !voices.keys && !voices.lead) {
+            voices.pad = true;
+        }
+        return voices;
+    }
+
+    private addNote(
+        samples: Float32Array,
+        startSeconds: number,
+        lengthSeconds: number,
+        frequency: number,
+        amplitude: number,
+        shape: 'pad' | 'pluck' | 'saw'
+    ): void {
+        const start = Math.floor(startSeconds * this.sampleRate);
+        const length = Math.floor(lengthSeconds * this.sampleRate);
+        const end = Math.min(samples.length, start + length);
+        const omega = 2 * Math.PI * frequency / this.sampleRate;
+
+        for (let i = start; i < end; i++) {
+            const t = (i - start) / this.sampleRate;
+            const progress = (i - start) / length;
+            let value: number;
+            let envelope: number;
+
+            switch (shape) {
+                case 'pad':
+                    // Slow attack and release, slightly detuned second partial
+                    envelope = Math.min(1, progress / 0.2) * Math.min(1, (1 - progress) / 0.2);
+                    value = Math.sin(omega * (i - start)) + 0.4 * Math.sin(omega * 2.003 * (i - start));
+                    break;
+                case 'pluck':
+                    envelope = Math.exp(-t * 5) * Math.min(1, (1 - progress) / 0.05);
+                    value = Math.sin(omega * (i - start)) + 0.3 * Math.sin(omega * 2 * (i - start)) + 0.1 * Math.sin(omega * 3 * (i - start));
+                    break;
+                case 'saw':
+                    envelope = Math.min(1, t / 0.01) * (0.6 + 0.4 * Math.exp(-t * 8)) * Math.min(1, (1 - progress) / 0.1);
+                    value = 0;
+                    for (let harmonic = 1; harmonic <= 6; harmonic++) {
+                        value += Math.sin(omega * harmonic * (i - start)) / harmonic;
+                    }
+                    break;
+            }
+
+            samples[i] += value * envelope * amplitude;
+        }
+    }
+
+    private addKick(samples: Float32Array, startSeconds: number, amplitude: number): void {
+        const start = Math.floor(startSeconds * this.sampleRate);
+        const end = Math.min(samples.length, start + Math.floor(0.25 * this.sampleRate));
+        let phase = 0;
+
+        for (let i = start; i < end; i++) {
+            const t = (i - start) / this.sampleRate;
+            // Pitch sweeps down from 120Hz to 40Hz for the classic thump
+            const frequency = 40 + 80 * Math.exp(-t * 30);
+            phase += 2 * Math.PI * frequency / this.sampleRate;
+            samples[i] += Math.sin(phase) * Math.exp(-t * 12) * amplitude;
+        }
+    }
+
+    private addNoiseHit(samples: Float32Array, startSeconds: number, lengthSeconds: number, amplitude: number, random: () => number): void {
+        const start = Math.floor(startSeconds * this.sampleRate);
+        const end = Math.min(samples.length, start + Math.floor(lengthSeconds * this.sampleRate));
+
+        for (let i = start; i < end; i++) {
+            const t = (i - start) / this.sampleRate;
+            samples[i] += (random() * 2 - 1) * Math.exp(-t * 4 / lengthSeconds) * amplitude;
+        }
+    }
+
+    private normalize(samples: Float32Array): void {
+        let peak = 0;
+        for (let i = 0; i < samples.length; i++) {
+            peak = Math.max(peak, Math.abs(samples[i]));
+        }
+        if (peak === 0) {
+            return;
+        }
+        const gain = 0.85 / peak;
+        for (let i = 0; i < samples.length; i++) {
+            samples[i] *= gain;
+        }
+    }
+
+    private encodeWav(samples: Float32Array): Buffer {
+        const bytesPerSample = 2;
+        const dataSize = samples.length * bytesPerSample;
+        const buffer = Buffer.alloc(44 + dataSize);
+
+        // RIFF header for 16-bit mono PCM
+        buffer.write('RIFF', 0);
+        buffer.writeUInt32LE(36 + dataSize, 4);
+        buffer.write('WAVE', 8);
+        buffer.write('fmt ', 12);
+        buffer.writeUInt32LE(16, 16);
+        buffer.writeUInt16LE(1, 20);
+        buffer.writeUInt16LE(1, 22);
+        buffer.writeUInt32LE(this.sampleRate, 24);
+        buffer.writeUInt32LE(this.sampleRate * bytesPerSample, 28);
+        buffer.writeUInt16LE(bytesPerSample, 32);
+        buffer.writeUInt16LE(16, 34);
+        buffer.write('data', 36);
+        buffer.writeUInt32LE(dataSize, 40);
+
+        const pcm = new Int16Array(samples.length);
+        for (let i = 0; i < samples.length; i++) {
+            pcm[i] = Math.round(Math.max(-1, Math.min(1, samples[i])) * 32767);
+        }
+        Buffer.from(pcm.buffer).copy(buffer, 44);
+
+        return buffer;
+    }
+
+    private degreeToSemitone(degree: number, scale: number[]): number {
+        const octave = Math.floor(degree / scale.length);
+        return scale[((degree % scale.length) + scale.length) % scale.length] + octave * 12;
+    }
+
+    private midiToFrequency(note: number): number {
+        return 440 * Math.pow(2, (note - 69) / 12);
+    }
+
+    private hashParameters(params: MusicParameters): number {
+        const key = `${params.bpm}|${params.energy}|${params.mood}|${params.genre}|${(params.instruments || []).join(',')}|${params.prompt}`;
+        return hashString(key);
+    }
+}
@@ -0,0 +1,136 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import { ActiveFolderTracker } from './activeFolder';
+
+export type SessionEntryType =
+    | 'code_analysis'
+    | 'diagnostics'
+    | 'terminal_event'
+    | 'celebration'
+    | 'failure'
+    | 'debug'
+    | 'git'
+    | 'suno_request'
+    | 'suno_response';
+
+export interface SessionEntry {
+    timestamp: string;
+    type: SessionEntryType;
+    folder?: string; // workspace folder the entry happened in
+    data: any;
+}
+
+export interface SessionInfo {
+    filePath: string;
+    name: string;
+    modifiedAt: Date;
+    sizeBytes: number;
+}
+
+/**
+ * Writes a JSONL timeline of everything CodeBeat reacted to during this
+ * session, so odd music choices can be reproduced and mappings tuned by
+ * replaying it later.
+ */
+export class SessionRecorder implements vscode.Disposable {
+    private readonly sessionsDir: string;
+    private sessionFile: string | undefined;
+    private writeQueue: Promise<void> = Promise.resolve();
+    private paused: boolean = false;
+    private readonly maxSessions = 20;
+    private readonly maxMessageLength = 2000;
+
+    constructor(storageUri: vscode.Uri, private folderTracker: ActiveFolderTracker) {
+        this.sessionsDir = path.join(storageUri.fsPath, 'sessions');
+    }
+
+    public record(type: SessionEntryType, data: any): void {
+        if (this.paused || !vscode.workspace.getConfiguration('codebeat').get('recordSessions', true)) {
+            return;
+        }
+
+        const entry: SessionEntry = {
+            timestamp: new Date().toISOString(),
+            type,
+            folder: this.folderTracker.getActiveFolder()?.name,
+            data: this.truncateMessages(data)
+        };
+
+        // Appends are chained so entries stay in order
+        this.writeQueue = this.writeQueue
+            .then(() => this.append(entry))
+            .catch(error => console.error('CodeBeat: Failed to record session entry:', error));
+    }
+
+    /** Suspends recording, e.g. while a session is being replayed. */
+    public setPaused(paused: boolean): void {
+        this.paused = paused;
+    }
+
+    public async listSessions(): Promise<SessionInfo[]> {
+        let files: string[];
+        try {
+            files = (await fs.promises.readdir(this.sessionsDir)).filter(file => file.endsWith('.jsonl'));
+        } catch {
+            return [];
+        }
+
+        const sessions = await Promise.all(files.map(async file => {
+            const filePath = path.join(this.sessionsDir, file);
+            const stat = await fs.promises.stat(filePath);
+            return { filePath, name: path.basename(file, '.jsonl'), modifiedAt: stat.mtime, sizeBytes: stat.size };
+        }));
+        // File names start with the session start time, so this is newest first
+        return sessions.sort((a, b) => b.name.localeCompare(a.name));
+    }
+
+    public async loadSession(filePath: string): Promise<SessionEntry[]> {
+        const content = await fs.promises.readFile(filePath, 'utf8');
+        const entries: SessionEntry[] = [];
+        for (const line of content.split('\n')) {
+            if (!line.trim()) {
+                continue;
+            }
+            try {
+                entries.push(JSON.parse(line));
+            } catch {
+                // A crash mid-write can leave a partial last line
+                console.log(`CodeBeat: Skipping unreadable session line in ${filePath}`);
+            }
+        }
+        return entries;
+    }
+
+    private async append(entry: SessionEntry): Promise<void> {
+        if (!this.sessionFile) {
+            await fs.promises.mkdir(this.sessionsDir, { recursive: true });
+            const startedAt = new Date().toISOString().replace(/[:.]/g, '-');
+            this.sessionFile = path.join(this.sessionsDir, `session-${startedAt}.jsonl`);
+            await this.removeOldSessions();
+            console.log(`CodeBeat: Recording session to ${this.sessionFile}`);
+        }
+
+        await fs.promises.appendFile(this.sessionFile, JSON.stringify(entry) + '\n');
+    }
+
+    private async removeOldSessions(): Promise<void> {
+        const sessions = await this.listSessions();
+        // Keep room for the session that is about to start
+        for (const session of sessions.slice(this.maxSessions - 1)) {
+            await fs.promises.unlink(session.filePath).catch(() => undefined);
+        }
+    }
+
+    private truncateMessages(data: any): any {
+        // Terminal output can be huge; the tail is enough to reproduce a decision
+        if (data && typeof data.message === 'string' && data.message.length > this.maxMessageLength) {
+            return { ...data, message: data.message.slice(-this.maxMessageLength) };
+        }
+        return data;
+    }
+
+    public dispose(): void {
+        this.paused = true;
+    }
+}
@@ -0,0 +1,192 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { SessionRecorder, SessionEntry } from './sessionRecorder';
+import { MusicParameters, MusicParameterGenerator } from './musicParameterGenerator';
+import { MusicBackend, MusicBackendManager } from './musicBackend';
+
+/**
+ * Replays a recorded session timeline through MusicParameterGenerator and a
+ * chosen backend, optionally faster than real time.
+ */
+export class SessionReplayer implements vscode.Disposable {
+    private outputChannel: vscode.OutputChannel;
+    private readonly maxStepDelay = 10000; // Long idle gaps are not worth waiting for
+
+    constructor(
+        private recorder: SessionRecorder,
+        private musicGenerator: MusicParameterGenerator,
+        private musicBackend: MusicBackendManager
+    ) {
+        this.outputChannel = vscode.window.createOutputChannel('CodeBeat - Session Replay');
+    }
+
+    public async replaySession(): Promise<void> {
+        const sessions = await this.recorder.listSessions();
+        if (sessions.length === 0) {
+            vscode.window.showInformationMessage('CodeBeat: No recorded sessions yet');
+            return;
+        }
+
+        const session = await vscode.window.showQuickPick(
+            sessions.map(info => ({
+                label: info.name,
+                description: `${Math.max(1, Math.round(info.sizeBytes / 1024))} KB`,
+                detail: `Last entry ${info.modifiedAt.toLocaleString()}`,
+                filePath: info.filePath
+            })),
+            { placeHolder: 'Select a session to replay' }
+        );
+        if (!session) {
+            return;
+        }
+
+        const speed = await vscode.window.showQuickPick(
+            [
+                { label: '10x', speed: 10 },
+                { label: '30x', speed: 30 },
+                { label: '100x', speed: 100 },
+                { label: 'Real time', speed: 1 }
+            ],
+            { placeHolder: 'Replay speed' }
+        );
+        if (!speed) {
+            return;
+        }
+
+        const backend = await vscode.window.showQuickPick(
+            [
+                ...this.musicBackend.getBackends().map(candidate => ({
+                    label: candidate.id,
+                    description: candidate === this.musicBackend.getActiveBackend() ? 'active' : '',
+                    backend: candidate as MusicBackend | undefined
+                })),
+                { label: 'Parameters only', description: 'log generated parameters without playing', backend: undefined }
+            ],
+            { placeHolder: 'Backend to replay through' }
+        );
+        if (!backend) {
+            return;
+        }
+
+        const entries = await this.recorder.loadSession(session.filePath);
+        await this.runReplay(path.basename(session.filePath), entries, speed.speed, backend.backend);
+    }
+
+    private async runReplay(
+        name: string,
+        entries: SessionEntry[],
+        speed: number,
+        backend: MusicBackend | undefined
+    ): Promise<void> {
+        this.outputChannel.show(true);
+        this.outputChannel.appendLine(`\n${'='.repeat(60)}`);
+        this.outputChannel.appendLine(`▶️  Replaying ${name} (${entries.length} entries) at ${speed}x through ${backend ? backend.id : 'no backend'}`);
+        this.outputChannel.appendLine(`${'='.repeat(60)}`);
+
+        // Replayed events must not end up in the session being recorded right now
+        this.recorder.setPaused(true);
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `CodeBeat: Replaying ${name}`,
+                cancellable: true
+            }, async (progress, token) => {
+                for (let i = 0; i < entries.length; i++) {
+                    if (token.isCancellationRequested) {
+                        this.outputChannel.appendLine('⏹️  Replay cancelled');
+                        return;
+                    }
+
+                    if (i > 0) {
+                        const gap = Date.parse(entries[i].timestamp) - Date.parse(entries[i - 1].timestamp);
+                        await new Promise(resolve => setTimeout(resolve, Math.min(this.maxStepDelay, Math.max(0, gap / speed))));
+                    }
+
+                    progress.report({ message: `${i + 1}/${entries.length} ${entries[i].type}`, increment: 100 / entries.length });
+                    await this.replayEntry(entries[i], backend);
+                }
+                this.outputChannel.appendLine('✅ Replay finished');
+            });
+        } finally {
+            this.recorder.setPaused(false);
+        }
+    }
+
+    private async replayEntry(entry: SessionEntry, backend: MusicBackend | undefined): Promise<void> {
+        const data = entry.data;
+        const time = new Date(entry.timestamp).toLocaleTimeString();
+
+        try {
+            switch (entry.type) {
+                case 'code_analysis': {
+                    this.outputChannel.appendLine(`\n[${time}] 💻 ${data.analysis.complexity} ${data.languageId} (${data.lineCount} lines) ${data.fileName || ''}${data.flow ? `, ${data.flow.state}` : ''}`);
+                    let params = this.musicGenerator.generateFromAnalysis(data.analysis, data.languageId, data.lineCount, data.seedKey);
+                    if (data.profile) {
+                        params = this.musicGenerator.generateFromProfile(data.profile, params);
+                    }
+                    if (data.flow) {
+                        params = this.musicGenerator.applyFlowState(params, data.flow);
+                    }
+                    this.logParameters(params);
+                    await backend?.generateMusic(params, 'code_analysis');
+                    break;
+                }
+                case 'diagnostics': {
+                    this.outputChannel.appendLine(`\n[${time}] 🐛 ${data.errorCount} errors, ${data.warningCount} warnings (previously ${data.previousErrorCount ?? 'unknown'})`);
+                    const params = this.musicGenerator.generateFromDiagnostics(data.errorCount, data.warningCount, data.previousErrorCount);
+                    this.logParameters(params);
+                    await backend?.generateMusic(params, 'error_feedback');
+                    break;
+                }
+                case 'celebration': {
+                    this.outputChannel.appendLine(`\n[${time}] 🎉 ${data.celebrationType} (${data.intensity || 'normal'}) - ${data.description}`);
+                    this.logParameters(this.musicGenerator.generateFromCelebration(data.celebrationType, undefined, data.intensity));
+                    await backend?.generateCelebration(data.celebrationType, data.description, data.intensity);
+                    break;
+                }
+                case 'failure': {
+                    this.outputChannel.appendLine(`\n[${time}] 💥 ${data.failureKind} (streak ${data.streak}) - ${data.command}`);
+                    const { sting, debugging } = this.musicGenerator.generateFromFailure(data.failureKind, data.streak);
+                    this.logParameters(sting);
+                    this.logParameters(debugging);
+                    await backend?.generateMusic(sting, 'failure_sting');
+                    await backend?.generateMusic(debugging, 'error_feedback');
+                    break;
+                }
+                case 'debug': {
+                    this.outputChannel.appendLine(`\n[${time}] 🐞 ${data.debugState} in "${data.sessionName}" (${data.breakpointCount} breakpoints, ${data.exceptionCount} exceptions)`);
+                    const params = this.musicGenerator.generateFromDebugState(data.debugState, data);
+                    this.logParameters(params);
+                    await backend?.generateMusic(params, data.debugState === 'exception' ? 'failure_sting' : 'debug_session');
+                    break;
+                }
+                case 'git': {
+                    this.outputChannel.appendLine(`\n[${time}] ⚔️  ${data.conflictCount} merge conflict(s)`);
+                    const params = this.musicGenerator.generateFromMergeConflict(data.conflictCount);
+                    this.logParameters(params);
+                    await backend?.generateMusic(params, 'failure_sting');
+                    break;
+                }
+                case 'terminal_event':
+                    this.outputChannel.appendLine(`[${time}] 🖥️  ${data.type}: ${data.command || ''} (exit code ${data.exitCode ?? 'unknown'})`);
+                    break;
+                case 'suno_request':
+                    this.outputChannel.appendLine(`[${time}] 📤 Recorded request (${data.triggerType}): ${data.request.genre}, ${data.request.bpm} BPM, ${data.request.mood}`);
+                    break;
+                case 'suno_response':
+                    this.outputChannel.appendLine(`[${time}] 📥 Recorded response ${data.id}: ${data.status}`);
+                    break;
+            }
+        } catch (error) {
+            this.outputChannel.appendLine(`❌ Failed to replay ${entry.type} entry: ${error}`);
+        }
+    }
+
+    private logParameters(params: MusicParameters): void {
+        this.outputChannel.appendLine(`   → ${params.genre}, ${params.bpm} BPM, ${params.mood}, energy ${params.energy}/10 [${params.context}]`);
+    }
+
+    public dispose(): void {
+        this.outputChannel.dispose();
+    }
+}
@@ -1,5 +1,10 @@
 import * as vscode from 'vscode';
-import { SunoApiClient } from './sunoApiClient';
+import { MusicBackend, CelebrationType, CelebrationIntensity } from './musicBackend';
+import { isBuildCommand, isTestCommand, isDeployCommand } from './commandClassifier';
+import { TestResultParser, TestRunResult } from './testResultParser';
+import { SessionRecorder } from './sessionRecorder';
+import { SuccessRuleStore } from './successRules';
+import { CelebrationRegistry } from './celebrationRegistry';
 
 export interface SuccessEvent {
     type: 'terminal_output' | 'task_success' | 'diagnostic_improvement' | 'file_system' | 'manual';
@@ -11,15 +16,24 @@ export interface SuccessEvent {
 
 export interface SuccessPattern {
     pattern: string | RegExp;
-    celebrationType: 'compilation_success' | 'bug_fix' | 'test_pass' | 'deployment';
+    celebrationType: CelebrationType;
     confidence: number; // 0-1 scale
     description: string;
+    taskFilter?: RegExp; // Only applies to events from matching tasks
+    commandFilter?: RegExp; // Only applies to events from matching commands
 }
 
 export class SuccessDetectionSystem {
     private fileSystemWatcher?: vscode.FileSystemWatcher;
+    private junitWatcher?: vscode.FileSystemWatcher;
     private lastCelebrationTime: Date = new Date(0);
-    private celebrationCooldown: number = 5000; // 5 seconds between celebrations
+    private celebrationCooldown: number = 5000; // 5 seconds between any two celebrations
+    private lastCelebrationByType: Map<string, number> = new Map();
+    private testResultParser = new TestResultParser();
+    private failedTestRuns: Set<string> = new Set();
+    private pendingJUnitResults: TestRunResult[] = [];
+    private junitDebounceTimer?: NodeJS.Timeout;
+    private static readonly testRecordsKey = 'codebeat.testCountRecords';
 
     // Predefined success patterns
     private readonly successPatterns: SuccessPattern[] = [
@@ -116,8 +130,15 @@ export class SuccessDetectionSystem {
         }
     ];
 
-    constructor(private sunoApiClient: SunoApiClient) {
+    constructor(
+        private musicBackend: MusicBackend,
+        private workspaceState: vscode.Memento,
+        private celebrationRegistry: CelebrationRegistry,
+        private successRules: SuccessRuleStore,
+        private sessionRecorder: SessionRecorder
+    ) {
         this.setupFileSystemWatcher();
+        this.setupJUnitWatcher();
     }
 
     public detectSuccess(event: SuccessEvent): void {
@@ -132,7 +153,7 @@ export class SuccessDetectionSystem {
         const detectedPattern = this.analyzeEvent(event);
         
         if (detectedPattern) {
-            this.triggerCelebration(
+            this.requestCelebration(
                 detectedPattern.celebrationType,
                 detectedPattern.description,
                 event.details
@@ -140,10 +161,65 @@ export class SuccessDetectionSystem {
         }
     }
 
+    /**
+     * Celebrates a parsed test run. The first green run after failures and a
+     * new passing-test record get a bigger celebration; runs of a single file
+     * or a filtered subset get a smaller one.
+     */
+    public handleTestResult(result: TestRunResult, command: string): void {
+        const key = (command || result.framework).trim().toLowerCase();
+        console.log(`CodeBeat: ${result.framework} run - ${result.passed} passed, ${result.failed} failed, ${result.skipped} skipped (${result.scope})`);
+
+        if (result.failed > 0) {
+            // Failure music is handled by the FailureDetectionSystem
+            this.failedTestRuns.add(key);
+            return;
+        }
+        if (result.passed === 0) {
+            return;
+        }
+
+        const recoveredFromFailure = this.failedTestRuns.delete(key);
+        const isNewRecord = result.scope === 'full' && this.updateTestCountRecord(key, result.passed);
+
+        let intensity: CelebrationIntensity = result.scope === 'partial' ? 'minor' : 'normal';
+        let description = `${result.passed} tests passed`;
+        if (recoveredFromFailure) {
+            intensity = 'major';
+            description = `Back to green - ${description}`;
+        } else if (isNewRecord) {
+            intensity = 'major';
+            description = `New record - ${description}`;
+        }
+
+        this.requestCelebration('test_pass', description, { ...result, command }, intensity);
+    }
+
+    /**
+     * Celebrates unless another celebration played within the cooldown
+     * period, or one of the same type within that type's own cooldown.
+     * Returns whether the celebration was triggered.
+     */
+    public requestCelebration(
+        celebrationType: CelebrationType,
+        description: string,
+        context?: any,
+        intensity?: CelebrationIntensity
+    ): boolean {
+        if (this.isInCooldown(celebrationType)) {
+            console.log(`CodeBeat: Success detection in cooldown period, skipping ${celebrationType} celebration`);
+            return false;
+        }
+
+        this.triggerCelebration(celebrationType, description, context, intensity);
+        return true;
+    }
+
     public triggerCelebration(
-        celebrationType: 'compilation_success' | 'bug_fix' | 'test_pass' | 'deployment',
+        celebrationType: CelebrationType,
         description: string,
-        context?: any
+        context?: any,
+        intensity?: CelebrationIntensity
     ): void {
         // Check if celebrations are enabled
         const config = vscode.workspace.getConfiguration('codebeat');
@@ -153,12 +229,14 @@ export class SuccessDetectionSystem {
 
         // Update last celebration time
         this.lastCelebrationTime = new Date();
+        this.lastCelebrationByType.set(celebrationType, this.lastCelebrationTime.getTime());
 
         console.log(`CodeBeat: Triggering ${celebrationType} celebration - ${description}`);
 
         // Generate celebration music
         const contextString = context ? JSON.stringify(context) : undefined;
-        this.sunoApiClient.generateCelebration(celebrationType, contextString);
+        this.musicBackend.generateCelebration(celebrationType, contextString, intensity);
+        this.sessionRecorder.record('celebration', { celebrationType, description, intensity });
 
         // Show user notification
         this.showCelebrationNotification(celebrationType, description);
@@ -175,8 +253,8 @@ export class SuccessDetectionSystem {
             return null;
         }
 
-        // Check each pattern
-        for (const pattern of this.successPatterns) {
+        // Check each pattern, user-defined rules first so they win ties
+        for (const pattern of [...this.successRules.getSuccessPatterns(), ...this.successPatterns]) {
             const confidence = this.testPattern(pattern, textToAnalyze, event);
             
             if (confidence > bestConfidence && confidence >= pattern.confidence * 0.8) {
@@ -190,21 +268,21 @@ export class SuccessDetectionSystem {
             const taskName = event.details.taskName?.toLowerCase() || '';
             const command = event.details.command?.toLowerCase() || '';
             
-            if (this.isBuildCommand(taskName, command)) {
+            if (isBuildCommand(taskName, command, this.successRules.getCommandMatchers('build'))) {
                 return {
                     pattern: 'exit_code_0_build',
                     celebrationType: 'compilation_success',
                     confidence: 0.8,
                     description: 'Build task completed successfully (exit code 0)'
                 };
-            } else if (this.isTestCommand(taskName, command)) {
+            } else if (isTestCommand(taskName, command, this.successRules.getCommandMatchers('test'))) {
                 return {
                     pattern: 'exit_code_0_test',
                     celebrationType: 'test_pass',
                     confidence: 0.8,
                     description: 'Test task completed successfully (exit code 0)'
                 };
-            } else if (this.isDeployCommand(taskName, command)) {
+            } else if (isDeployCommand(taskName, command, this.successRules.getCommandMatchers('deploy'))) {
                 return {
                     pattern: 'exit_code_0_deploy',
                     celebrationType: 'deployment',
@@ -235,6 +313,13 @@ export class SuccessDetectionSystem {
     }
 
     private testPattern(pattern: SuccessPattern, text: string, event: SuccessEvent): number {
+        if (pattern.taskFilter && !pattern.taskFilter.test(event.details.taskName || '')) {
+            return 0;
+        }
+        if (pattern.commandFilter && !pattern.commandFilter.test(event.details.command || '')) {
+            return 0;
+        }
+
         if (typeof pattern.pattern === 'string') {
             return text.toLowerCase().includes(pattern.pattern.toLowerCase()) ? pattern.confidence : 0;
         } else {
@@ -242,64 +327,37 @@ export class SuccessDetectionSystem {
         }
     }
 
-    private isBuildCommand(taskName: string, command: string): boolean {
-        const buildKeywords = [
-            'build', 'compile', 'webpack', 'rollup', 'parcel', 'vite',
-            'tsc', 'babel', 'esbuild', 'swc', 'maven', 'gradle',
-            'cargo build', 'go build', 'make', 'cmake'
-        ];
-        
-        const text = `${taskName} ${command}`.toLowerCase();
-        return buildKeywords.some(keyword => text.includes(keyword));
-    }
+    private updateTestCountRecord(key: string, passed: number): boolean {
+        const records = this.workspaceState.get<{ [command: string]: number }>(SuccessDetectionSystem.testRecordsKey, {});
+        const previousBest = records[key];
+        if (previousBest !== undefined && passed <= previousBest) {
+            return false;
+        }
 
-    private isTestCommand(taskName: string, command: string): boolean {
-        const testKeywords = [
-            'test', 'jest', 'mocha', 'jasmine', 'karma', 'cypress',
-            'playwright', 'vitest', 'ava', 'tap', 'lab', 'pytest',
-            'unittest', 'phpunit', 'rspec', 'gtest'
-        ];
-        
-        const text = `${taskName} ${command}`.toLowerCase();
-        return testKeywords.some(keyword => text.includes(keyword));
+        this.workspaceState.update(SuccessDetectionSystem.testRecordsKey, { ...records, [key]: passed });
+        // The very first run sets the baseline rather than breaking a record
+        return previousBest !== undefined;
     }
 
-    private isDeployCommand(taskName: string, command: string): boolean {
-        const deployKeywords = [
-            'deploy', 'publish', 'release', 'ship', 'upload',
-            'push', 'heroku', 'vercel', 'netlify', 'aws deploy',
-            'docker push', 'npm publish', 'yarn publish'
-        ];
-        
-        const text = `${taskName} ${command}`.toLowerCase();
-        return deployKeywords.some(keyword => text.includes(keyword));
-    }
-
-    private isInCooldown(): boolean {
+    private isInCooldown(celebrationType?: CelebrationType): boolean {
         const now = new Date();
-        return (now.getTime() - this.lastCelebrationTime.getTime()) < this.celebrationCooldown;
+        if ((now.getTime() - this.lastCelebrationTime.getTime()) < this.celebrationCooldown) {
+            return true;
+        }
+
+        const definition = celebrationType ? this.celebrationRegistry.get(celebrationType) : undefined;
+        const lastOfType = celebrationType ? this.lastCelebrationByType.get(celebrationType) : undefined;
+        return definition !== undefined && lastOfType !== undefined &&
+            (now.getTime() - lastOfType) < definition.cooldown * 1000;
     }
 
     private showCelebrationNotification(
-        celebrationType: 'compilation_success' | 'bug_fix' | 'test_pass' | 'deployment',
+        celebrationType: CelebrationType,
         description: string
     ): void {
-        const emojis = {
-            'compilation_success': '🎉',
-            'bug_fix': '🐛✨',
-            'test_pass': '✅',
-            'deployment': '🚀'
-        };
-
-        const messages = {
-            'compilation_success': 'Code compiled successfully!',
-            'bug_fix': 'Bug resolved!',
-            'test_pass': 'All tests passed!',
-            'deployment': 'Deployment successful!'
-        };
-
-        const emoji = emojis[celebrationType];
-        const message = messages[celebrationType];
+        const definition = this.celebrationRegistry.get(celebrationType);
+        const emoji = definition?.emoji || '🎉';
+        const message = definition?.message || `${celebrationType}!`;
 
         vscode.window.showInformationMessage(
             `${emoji} CodeBeat: ${message} ${description}`
@@ -338,6 +396,58 @@ export class SuccessDetectionSystem {
         });
     }
 
+    private setupJUnitWatcher(): void {
+        // Common locations of JUnit XML reports (Maven Surefire, Gradle, jest-junit, pytest --junitxml)
+        this.junitWatcher = vscode.workspace.createFileSystemWatcher(
+            '**/{junit*.xml,TEST-*.xml,test-results/**/*.xml,test-reports/**/*.xml}'
+        );
+
+        const onReport = (uri: vscode.Uri) => this.readJUnitReport(uri);
+        this.junitWatcher.onDidCreate(onReport);
+        this.junitWatcher.onDidChange(onReport);
+    }
+
+    private async readJUnitReport(uri: vscode.Uri): Promise<void> {
+        if (uri.fsPath.includes('node_modules')) {
+            return;
+        }
+
+        try {
+            const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+            const result = this.testResultParser.parseJUnitXml(content);
+            if (!result) {
+                return;
+            }
+
+            console.log(`CodeBeat: Parsed JUnit report ${uri.fsPath}`);
+            this.pendingJUnitResults.push(result);
+
+            // Runners write one report per suite; wait for the burst to finish
+            if (this.junitDebounceTimer) {
+                clearTimeout(this.junitDebounceTimer);
+            }
+            this.junitDebounceTimer = setTimeout(() => this.flushJUnitResults(), 2000);
+        } catch (error) {
+            console.log(`CodeBeat: Could not read JUnit report ${uri.fsPath}:`, error);
+        }
+    }
+
+    private flushJUnitResults(): void {
+        const results = this.pendingJUnitResults;
+        this.pendingJUnitResults = [];
+        this.junitDebounceTimer = undefined;
+
+        const combined = results.reduce<TestRunResult>((total, result) => ({
+            ...total,
+            passed: total.passed + result.passed,
+            failed: total.failed + result.failed,
+            skipped: total.skipped + result.skipped,
+            durationMs: (total.durationMs || 0) + (result.durationMs || 0)
+        }), { framework: 'junit', passed: 0, failed: 0, skipped: 0, scope: 'full' });
+
+        this.handleTestResult(combined, 'junit');
+    }
+
     private isSignificantBuildArtifact(filePath: string): boolean {
         const significantExtensions = [
             '.js', '.html', '.css', '.wasm', '.exe', '.jar',
@@ -359,5 +469,11 @@ export class SuccessDetectionSystem {
         if (this.fileSystemWatcher) {
             this.fileSystemWatcher.dispose();
         }
+        if (this.junitWatcher) {
+            this.junitWatcher.dispose();
+        }
+        if (this.junitDebounceTimer) {
+            clearTimeout(this.junitDebounceTimer);
+        }
     }
 }
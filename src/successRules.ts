@@ -0,0 +1,263 @@
+import * as vscode from 'vscode';
+import { CelebrationType } from './musicBackend';
+import { SuccessPattern } from './successDetectionSystem';
+import { CommandMatcher } from './commandClassifier';
+import { CelebrationRegistry, CelebrationDefinition } from './celebrationRegistry';
+import { ConfigFileWatcher } from './configFileWatcher';
+
+/** A success rule as written in settings or `.codebeat/rules.json`. */
+interface SuccessRuleDefinition {
+    pattern: string;
+    celebrationType: CelebrationType;
+    confidence?: number;
+    description?: string;
+    taskFilter?: string;
+    commandFilter?: string;
+}
+
+export type CommandKind = 'build' | 'test' | 'deploy';
+
+interface RuleError {
+    section?: 'successRules' | 'celebrations';
+    index?: number;
+    message: string;
+}
+
+interface RulesFile {
+    uri: vscode.Uri;
+    text: string;
+    content: { successRules?: unknown[]; celebrations?: unknown[] };
+    errors: RuleError[];
+}
+
+/**
+ * User-defined success rules and celebration types from settings
+ * (`codebeat.successRules`, `codebeat.customCelebrations`) and from
+ * `.codebeat/rules.json` in each workspace folder. Everything is validated
+ * when loaded, problems in rule files show up in the Problems panel, and all
+ * sources are reloaded whenever they change.
+ */
+export class SuccessRuleStore implements vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+    private diagnostics: vscode.DiagnosticCollection;
+    private patterns: SuccessPattern[] = [];
+
+    public static readonly rulesFile = '.codebeat/rules.json';
+    private readonly commandKinds: { [celebrationType: string]: CommandKind } = {
+        'compilation_success': 'build',
+        'test_pass': 'test',
+        'deployment': 'deploy'
+    };
+
+    constructor(private celebrationRegistry: CelebrationRegistry) {
+        this.diagnostics = vscode.languages.createDiagnosticCollection('codebeat-rules');
+    }
+
+    public start(): void {
+        if (this.disposables.length > 0) {
+            return;
+        }
+
+        const watcher = new ConfigFileWatcher(SuccessRuleStore.rulesFile, () => this.reload());
+        this.disposables.push(
+            watcher,
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('codebeat.successRules') || event.affectsConfiguration('codebeat.customCelebrations')) {
+                    watcher.scheduleReload();
+                }
+            })
+        );
+
+        this.reload();
+    }
+
+    /** Rules that apply to success events, ahead of the built-in patterns. */
+    public getSuccessPatterns(): SuccessPattern[] {
+        return this.patterns;
+    }
+
+    /**
+     * Rules with task or command filters also teach CodeBeat which commands
+     * build, test or deploy, so exit codes of in-house tools are understood.
+     */
+    public getCommandMatchers(kind: CommandKind): CommandMatcher[] {
+        return this.patterns.filter(pattern => this.commandKinds[pattern.celebrationType] === kind);
+    }
+
+    private async reload(): Promise<void> {
+        const config = vscode.workspace.getConfiguration('codebeat');
+        const settingsErrors: RuleError[] = [];
+
+        // Rules may use celebration types defined in any source, so read everything first
+        const files: RulesFile[] = [];
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            const file = await this.readRulesFile(vscode.Uri.joinPath(folder.uri, SuccessRuleStore.rulesFile));
+            if (file) {
+                files.push(file);
+            }
+        }
+
+        const celebrations = this.parseCelebrations(config.get<unknown[]>('customCelebrations', []), settingsErrors);
+        for (const file of files) {
+            celebrations.push(...this.parseCelebrations(file.content.celebrations ?? [], file.errors));
+        }
+        this.celebrationRegistry.setCustomDefinitions(celebrations);
+
+        const patterns = this.parseRules(config.get<unknown[]>('successRules', []), 'settings', settingsErrors);
+        for (const file of files) {
+            patterns.push(...this.parseRules(file.content.successRules ?? [], vscode.workspace.asRelativePath(file.uri), file.errors));
+        }
+        this.patterns = patterns;
+
+        if (settingsErrors.length > 0) {
+            vscode.window.showWarningMessage(
+                `CodeBeat: Ignoring invalid codebeat.successRules/customCelebrations entries - ${settingsErrors.map(error => this.formatError(error)).join('; ')}`
+            );
+        }
+
+        this.diagnostics.clear();
+        for (const file of files) {
+            this.diagnostics.set(file.uri, file.errors.map(error => {
+                const diagnostic = new vscode.Diagnostic(
+                    this.findEntryRange(file.text, error),
+                    this.formatError(error),
+                    vscode.DiagnosticSeverity.Error
+                );
+                diagnostic.source = 'CodeBeat';
+                return diagnostic;
+            }));
+        }
+
+        console.log(`CodeBeat: Loaded ${patterns.length} custom success rules and ${celebrations.length} custom celebrations`);
+    }
+
+    private async readRulesFile(uri: vscode.Uri): Promise<RulesFile | undefined> {
+        let text: string;
+        try {
+            text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        } catch {
+            return undefined; // No rules file in this folder
+        }
+
+        const file: RulesFile = { uri, text, content: {}, errors: [] };
+        try {
+            const content = JSON.parse(text);
+            if (!content || typeof content !== 'object' || Array.isArray(content)) {
+                file.errors.push({ message: 'Expected an object with "successRules" and/or "celebrations" arrays' });
+            } else {
+                file.content = content;
+            }
+        } catch (error) {
+            file.errors.push({ message: `Invalid JSON: ${error instanceof Error ? error.message : error}` });
+        }
+        return file;
+    }
+
+    private parseCelebrations(celebrations: unknown[], errors: RuleError[]): CelebrationDefinition[] {
+        if (!Array.isArray(celebrations)) {
+            errors.push({ section: 'celebrations', message: 'Expected an array of celebrations' });
+            return [];
+        }
+
+        const definitions: CelebrationDefinition[] = [];
+        celebrations.forEach((celebration, index) => {
+            const definition = this.celebrationRegistry.parseDefinition(
+                celebration,
+                message => errors.push({ section: 'celebrations', index, message })
+            );
+            if (definition) {
+                definitions.push(definition);
+            }
+        });
+        return definitions;
+    }
+
+    private parseRules(rules: unknown[], source: string, errors: RuleError[]): SuccessPattern[] {
+        if (!Array.isArray(rules)) {
+            errors.push({ section: 'successRules', message: 'Expected an array of rules' });
+            return [];
+        }
+
+        const patterns: SuccessPattern[] = [];
+        rules.forEach((rule, index) => {
+            const pattern = this.parseRule(rule, source, message => errors.push({ section: 'successRules', index, message }));
+            if (pattern) {
+                patterns.push(pattern);
+            }
+        });
+        return patterns;
+    }
+
+    private parseRule(rule: unknown, source: string, reportError: (message: string) => void): SuccessPattern | null {
+        if (!rule || typeof rule !== 'object') {
+            reportError('Rule must be an object');
+            return null;
+        }
+
+        const definition = rule as Partial<SuccessRuleDefinition>;
+        if (typeof definition.pattern !== 'string' || definition.pattern.length === 0) {
+            reportError('"pattern" must be a non-empty regular expression string');
+            return null;
+        }
+        if (typeof definition.celebrationType !== 'string' || !this.celebrationRegistry.has(definition.celebrationType)) {
+            const known = this.celebrationRegistry.getAll().map(celebration => celebration.type);
+            reportError(`"celebrationType" must be one of ${known.join(', ')}`);
+            return null;
+        }
+        const confidence = definition.confidence ?? 0.8;
+        if (typeof confidence !== 'number' || confidence < 0 || confidence > 1) {
+            reportError('"confidence" must be a number between 0 and 1');
+            return null;
+        }
+
+        const pattern = this.compile(definition.pattern, 'pattern', reportError);
+        const taskFilter = definition.taskFilter !== undefined ? this.compile(definition.taskFilter, 'taskFilter', reportError) : undefined;
+        const commandFilter = definition.commandFilter !== undefined ? this.compile(definition.commandFilter, 'commandFilter', reportError) : undefined;
+        if (!pattern || taskFilter === null || commandFilter === null) {
+            return null;
+        }
+
+        return {
+            pattern,
+            celebrationType: definition.celebrationType,
+            confidence,
+            description: typeof definition.description === 'string' ? definition.description : `Custom rule from ${source}`,
+            taskFilter,
+            commandFilter
+        };
+    }
+
+    private compile(source: unknown, field: string, reportError: (message: string) => void): RegExp | null {
+        if (typeof source !== 'string') {
+            reportError(`"${field}" must be a string`);
+            return null;
+        }
+        try {
+            return new RegExp(source, 'i');
+        } catch (error) {
+            reportError(`"${field}" is not a valid regular expression: ${error instanceof Error ? error.message : error}`);
+            return null;
+        }
+    }
+
+    private findEntryRange(text: string, error: RuleError): vscode.Range {
+        // The n-th key every entry has stands in for the n-th entry
+        if (error.section !== undefined && error.index !== undefined) {
+            return ConfigFileWatcher.findKeyRange(text, error.section === 'successRules' ? 'pattern' : 'type', error.index);
+        }
+        return new vscode.Range(0, 0, 0, 0);
+    }
+
+    private formatError(error: RuleError): string {
+        if (error.index === undefined) {
+            return error.message;
+        }
+        return `${error.section === 'celebrations' ? 'Celebration' : 'Rule'} ${error.index + 1}: ${error.message}`;
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.diagnostics.dispose();
+    }
+}
@@ -1,10 +1,18 @@
 import * as vscode from 'vscode';
-import { MusicParameters } from './musicParameterGenerator';
-import fetch from 'node-fetch';
-import * as path from 'path';
-import * as fs from 'fs';
-import * as dotenv from 'dotenv';
-import { spawn, ChildProcess } from 'child_process';
+import { MusicParameters, MusicParameterGenerator } from './musicParameterGenerator';
+import { AudioPlayer } from './audioPlayer';
+import { TrackCache } from './trackCache';
+import { SessionRecorder } from './sessionRecorder';
+import { ActiveFolderTracker } from './activeFolder';
+import { CredentialStore, CredentialCheck } from './credentialStore';
+import { getLogVerbosity, describeCodeForLog } from './privacyGuard';
+import { HttpClient, CircuitOpenError } from './httpClient';
+import { GenerationQuota } from './generationQuota';
+import { MusicBackend, MusicTriggerType, CelebrationType, CelebrationIntensity, CodeContext, TrackInfo, isInterruptTrigger } from './musicBackend';
+import {
+    GenerationQueue, GenerationRequest, GenerationQueueState,
+    getTriggerPriority, getPlaybackChannel, describeGeneration
+} from './generationQueue';
 
 export interface SunoApiRequest {
     prompt: string;
@@ -39,419 +47,209 @@ export interface SunoApiResponse {
     };
 }
 
-class AudioPlayer {
-    private audioProcess: ChildProcess | null = null;
-    private isMuted: boolean = false;
-    private currentUrl: string | null = null;
-    private outputChannel: vscode.OutputChannel;
-
-    constructor(outputChannel: vscode.OutputChannel) {
-        this.outputChannel = outputChannel;
-        // Status bar is now managed centrally in extension.ts
-        // this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
-        // this.updateStatusBar();
-    }
+/** A submitted clip whose status is still being polled. */
+interface ActiveGeneration {
+    request: GenerationRequest;
+    interval: NodeJS.Timeout;
+}
 
-    public async playAudio(url: string, title?: string): Promise<void> {
-        // Always update current URL for potential resume after unmute
-        this.currentUrl = url;
+export class SunoApiClient implements MusicBackend {
+    public readonly id = 'suno';
+    public static readonly defaultBaseUrl = 'https://studio-api.prod.suno.com/api/v2/external/hackmit';
+    private lastGeneratedId: number = 0;
+    private outputChannel: vscode.OutputChannel;
+    private apiToken: string | undefined; // token for the active workspace folder
+    private disposables: vscode.Disposable[] = [];
+    private audioPlayer: AudioPlayer;
+    private activeGenerations: Map<string, ActiveGeneration> = new Map(); // by request id
+    private queue = new GenerationQueue();
+    private submitting: GenerationRequest | undefined; // Only one generate call at a time
+    private trackEmitter = new vscode.EventEmitter<TrackInfo>();
+    public readonly onDidChangeTrack = this.trackEmitter.event;
+    private queueEmitter = new vscode.EventEmitter<GenerationQueueState>();
+    public readonly onDidChangeQueue = this.queueEmitter.event;
+    private quotaWarningDate: string | undefined; // The quota warning is shown once a day
+    private pollInterval: number = 5000; // ms between status checks of a clip
+
+    constructor(
+        private musicGenerator: MusicParameterGenerator,
+        private trackCache: TrackCache,
+        private sessionRecorder: SessionRecorder,
+        private folderTracker: ActiveFolderTracker,
+        private credentials: CredentialStore,
+        private http: HttpClient,
+        private quota: GenerationQuota
+    ) {
+        this.outputChannel = vscode.window.createOutputChannel('CodeBeat - Suno API');
+        this.outputChannel.show(true);
         
-        // Stop any existing audio first (this method is now only called when we want to transition)
-        await this.stopAudio();
+        // Initialize audio player
+        this.audioPlayer = new AudioPlayer(this.outputChannel);
         
-        if (this.isMuted) {
-            this.outputChannel.appendLine('🔇 Audio is muted - not playing automatically');
-            return;
-        }
-
-        this.outputChannel.appendLine(`\n🎵 Starting automatic playback...`);
-        this.outputChannel.appendLine(`🌐 URL: ${url}`);
+        // Load the API token
+        this.updateApiToken();
+        this.disposables.push(
+            this.folderTracker.onDidChangeActiveFolder(() => this.updateApiToken()),
+            this.credentials.onDidChange(() => this.updateApiToken()),
+            this.http.onDidChangeState(state => {
+                if (state === 'open') {
+                    this.outputChannel.appendLine(`⏸️  Suno API paused after repeated failures until ${new Date(this.http.getRetryAt()!).toLocaleTimeString()}`);
+                } else if (state === 'closed') {
+                    this.outputChannel.appendLine('▶️  Suno API is responding again');
+                }
+            })
+        );
         
-        if (title) {
-            this.outputChannel.appendLine(`🎼 Title: ${title}`);
+        if (this.apiToken) {
+            this.outputChannel.appendLine('🎵 CodeBeat Suno API Client Initialized');
+            this.outputChannel.appendLine('✅ API Token loaded successfully');
+            this.outputChannel.appendLine('🎼 Audio player ready for automatic playback\n');
+        } else {
+            this.outputChannel.appendLine('🎵 CodeBeat Suno API Client Initialized');
+            this.outputChannel.appendLine('⚠️  WARNING: No Suno API token configured');
+            this.outputChannel.appendLine('Run "CodeBeat: Configure Credentials" to add your token');
+            this.outputChannel.appendLine('🎼 Audio player ready for automatic playback\n');
         }
+        if (this.getBaseUrl() !== SunoApiClient.defaultBaseUrl) {
+            this.outputChannel.appendLine(`🧪 Using Suno API at ${this.getBaseUrl()} (codebeat.sunoBaseUrl)\n`);
+        }
+    }
 
-        try {
-            // Detect if this is a streaming URL or direct MP3
-            const isStreamingUrl = url.includes('audiopipe.suno.ai') || url.includes('streaming');
-            const players = this.getAvailableAudioPlayers(isStreamingUrl);
-            
-            this.outputChannel.appendLine(`🔍 Detected ${isStreamingUrl ? 'streaming' : 'direct'} URL type`);
-            
-            for (const player of players) {
-                try {
-                    let args: string[];
-                    let command: string = player.command;
-
-                    // Special handling for curl + afplay on macOS for streaming URLs
-                    if (player.name === 'curl + afplay (macOS)' && isStreamingUrl) {
-                        // Create a command that downloads and pipes to afplay
-                        const curlCommand = `curl -s -L "${url}" | afplay -`;
-                        args = [curlCommand];
-                        this.outputChannel.appendLine(`🔄 Using curl + afplay for streaming: ${curlCommand.substring(0, 50)}...`);
-                    } else {
-                        args = [...player.args, url];
-                    }
+    /** `codebeat.sunoBaseUrl`, e.g. a local SunoStubServer during development. */
+    private getBaseUrl(): string {
+        const baseUrl = vscode.workspace.getConfiguration('codebeat').get<string>('sunoBaseUrl', '').trim();
+        return (baseUrl || SunoApiClient.defaultBaseUrl).replace(/\/+$/, '');
+    }
 
-                    this.audioProcess = spawn(command, args, {
-                        stdio: ['ignore', 'pipe', 'pipe'],
-                        shell: player.name === 'curl + afplay (macOS)'
-                    });
-
-                    this.audioProcess.on('spawn', () => {
-                        this.outputChannel.appendLine(`✅ Audio playback started with ${player.name}`);
-                    });
-
-                    let hasError = false;
-                    this.audioProcess.on('error', (error) => {
-                        hasError = true;
-                        this.outputChannel.appendLine(`❌ Audio player error (${player.name}): ${error.message}`);
-                    });
-
-                    this.audioProcess.on('exit', (code) => {
-                        if (code === 0) {
-                            this.outputChannel.appendLine(`🎵 Audio playback completed successfully`);
-                        } else if (code !== null) {
-                            this.outputChannel.appendLine(`⚠️  ${player.name} exited with code: ${code}`);
-                        }
-                        this.audioProcess = null;
-                    });
+    /** Picks the token for the active workspace folder. */
+    private updateApiToken(): void {
+        const folder = this.folderTracker.getActiveFolder();
+        const previousToken = this.apiToken;
+        this.apiToken = this.credentials.getSunoToken(folder);
 
-                    // Wait a moment to see if the process starts successfully
-                    await new Promise(resolve => setTimeout(resolve, 1000));
-                    
-                    // If process is still running and no error occurred, we consider it successful
-                    if (this.audioProcess && !this.audioProcess.killed && !hasError) {
-                        this.outputChannel.appendLine(`🎉 Successfully started ${player.name} for ${isStreamingUrl ? 'streaming' : 'direct'} playback`);
-                        return; // Success - exit the function
-                    } else {
-                        if (hasError) {
-                            this.outputChannel.appendLine(`⚠️  ${player.name} had errors, trying next...`);
-                        } else {
-                            this.outputChannel.appendLine(`⚠️  ${player.name} failed to start properly, trying next...`);
-                        }
-                        if (this.audioProcess) {
-                            this.audioProcess.kill('SIGTERM');
-                            this.audioProcess = null;
-                        }
-                        continue;
-                    }
+        if (previousToken !== this.apiToken) {
+            this.outputChannel.appendLine(`🔑 ${this.apiToken ? 'Using the Suno API token' : 'No Suno API token'} for ${folder ? `workspace folder ${folder.name}` : 'this window'}`);
+        }
+    }
 
-                } catch (error) {
-                    this.outputChannel.appendLine(`⚠️  Failed to start ${player.name}: ${error}`);
-                    continue;
+    /** Checks a token with a lightweight authenticated request before it is stored. */
+    public async validateToken(token: string): Promise<CredentialCheck> {
+        try {
+            const response = await this.http.request(`${this.getBaseUrl()}/clips?ids=codebeat-credential-check`, {
+                maxRetries: 1,
+                headers: {
+                    'Authorization': `Bearer ${token}`,
+                    'User-Agent': 'CodeBeat-VSCode-Extension/1.0.0'
                 }
+            });
+            if (response.status === 401 || response.status === 403) {
+                return 'invalid';
             }
-
-            if (!this.audioProcess) {
-                this.outputChannel.appendLine(`❌ No compatible audio player found for ${isStreamingUrl ? 'streaming' : 'direct'} URL`);
-                this.outputChannel.appendLine(`💡 Suggestion: Install ffmpeg (for ffplay) or VLC for better streaming support`);
-                this.showBrowserFallback(url);
-            }
-
+            // An unknown clip id is fine; the request got past authentication
+            return response.status < 500 ? 'valid' : 'unreachable';
         } catch (error) {
-            this.outputChannel.appendLine(`❌ Audio playback error: ${error}`);
-            this.showBrowserFallback(url);
+            this.outputChannel.appendLine(`❌ Could not reach Suno to check the token: ${error}`);
+            return 'unreachable';
         }
     }
 
-    private getAvailableAudioPlayers(isStreamingUrl: boolean = false): Array<{command: string, args: string[], name: string}> {
-        const players = [];
-        
-        if (isStreamingUrl) {
-            // For streaming URLs, prioritize players that handle HTTP streams well
-            
-            // ffplay with streaming options (comes with ffmpeg)
-            players.push({
-                command: 'ffplay',
-                args: ['-nodisp', '-autoexit', '-loglevel', 'quiet', '-reconnect', '1', '-reconnect_streamed', '1'],
-                name: 'FFplay (streaming)'
-            });
-
-            // VLC (excellent for streaming)
-            players.push({
-                command: 'vlc',
-                args: ['--intf', 'dummy', '--play-and-exit', '--no-video'],
-                name: 'VLC (streaming)'
-            });
-
-            // mpv (great for streaming)
-            players.push({
-                command: 'mpv',
-                args: ['--no-video', '--really-quiet', '--user-agent=CodeBeat-VSCode-Extension/1.0.0'],
-                name: 'mpv (streaming)'
-            });
+    /**
+     * Queues a generation. Celebrations and stings go before error music,
+     * error music before code analysis music, and a newer background request
+     * replaces a waiting one of the same trigger type. Resolves once the clip was
+     * submitted, or with a `superseded` error if it was replaced.
+     */
+    public generateMusic(
+        params: MusicParameters,
+        triggerType: MusicTriggerType,
+        codeContext?: CodeContext
+    ): Promise<SunoApiResponse> {
+        return new Promise(resolve => {
+            const request: GenerationRequest = {
+                id: this.generateRequestId(),
+                params,
+                triggerType,
+                codeContext,
+                priority: getTriggerPriority(triggerType),
+                channel: getPlaybackChannel(triggerType),
+                enqueuedAt: Date.now(),
+                resolve
+            };
 
-            // curl + afplay for macOS (download then play)
-            if (process.platform === 'darwin') {
-                players.push({
-                    command: 'sh',
-                    args: ['-c'],
-                    name: 'curl + afplay (macOS)'
-                });
+            for (const superseded of this.queue.enqueue(request)) {
+                this.outputChannel.appendLine(`⏭️  QUEUE: ${superseded.id} (${superseded.triggerType}) replaced by newer request ${request.id}`);
+                superseded.resolve(this.createErrorResponse(superseded.id, superseded.params, 'superseded', `Replaced by a newer ${triggerType} request`));
             }
-        } else {
-            // For local files or direct MP3 URLs
-            
-            // ffplay (comes with ffmpeg)
-            players.push({
-                command: 'ffplay',
-                args: ['-nodisp', '-autoexit', '-loglevel', 'quiet'],
-                name: 'FFplay'
-            });
-
-            // VLC (headless)
-            players.push({
-                command: 'vlc',
-                args: ['--intf', 'dummy', '--play-and-exit'],
-                name: 'VLC'
-            });
-
-            // mpv
-            players.push({
-                command: 'mpv',
-                args: ['--no-video', '--really-quiet'],
-                name: 'mpv'
-            });
-
-            // macOS specific for local files
-            if (process.platform === 'darwin') {
-                players.unshift({
-                    command: 'afplay',
-                    args: [],
-                    name: 'afplay (macOS)'
-                });
+            if (this.submitting || this.queue.countAhead(request) > 0) {
+                this.outputChannel.appendLine(`📥 QUEUE: ${request.id} (${triggerType}, priority ${request.priority}) waiting behind ${this.queue.countAhead(request) + (this.submitting ? 1 : 0)} request(s)`);
             }
-        }
 
-        return players;
+            this.fireQueueChange();
+            this.processQueue();
+        });
     }
 
-    private showBrowserFallback(url: string): void {
-        const isStreamingUrl = url.includes('audiopipe.suno.ai');
-        
-        vscode.window.showInformationMessage(
-            `🎵 CodeBeat: ${isStreamingUrl ? 'Streaming requires compatible audio player.' : 'Audio player not found.'} Opening in browser...`,
-            'Open Audio',
-            'Install ffmpeg'
-        ).then(selection => {
-            if (selection === 'Open Audio') {
-                vscode.env.openExternal(vscode.Uri.parse(url));
-            } else if (selection === 'Install ffmpeg') {
-                // Open ffmpeg installation page
-                const installUrl = process.platform === 'darwin' 
-                    ? 'https://formulae.brew.sh/formula/ffmpeg'
-                    : 'https://ffmpeg.org/download.html';
-                vscode.env.openExternal(vscode.Uri.parse(installUrl));
-            }
-        });
-        
-        this.outputChannel.appendLine(`🌐 Browser fallback: Opening ${url} in default browser`);
-        
-        if (isStreamingUrl) {
-            this.outputChannel.appendLine(`💡 For automatic playback, install one of these audio players:`);
-            this.outputChannel.appendLine(`   • ffmpeg (includes ffplay): brew install ffmpeg (macOS) or apt install ffmpeg (Linux)`);
-            this.outputChannel.appendLine(`   • VLC: https://www.videolan.org/vlc/`);
-            this.outputChannel.appendLine(`   • mpv: https://mpv.io/`);
-        }
+    public getQueueState(): GenerationQueueState {
+        return {
+            submitting: this.submitting && describeGeneration(this.submitting),
+            polling: [...this.activeGenerations.values()].map(generation => describeGeneration(generation.request)),
+            pending: this.queue.getPending().map(describeGeneration)
+        };
     }
 
-    public async stopAudio(): Promise<void> {
-        if (this.audioProcess) {
-            this.outputChannel.appendLine('⏹️  Stopping audio playback...');
-            
-            // Try graceful termination first
-            this.audioProcess.kill('SIGTERM');
-            
-            // Wait a brief moment for graceful shutdown
-            await new Promise(resolve => setTimeout(resolve, 200));
-            
-            // Force kill if still running
-            if (this.audioProcess && !this.audioProcess.killed) {
-                this.outputChannel.appendLine('🔴 Force stopping audio process...');
-                this.audioProcess.kill('SIGKILL');
-            }
-            
-            // Wait for process to actually terminate
-            if (this.audioProcess && !this.audioProcess.killed) {
-                await new Promise((resolve) => {
-                    const timeout = setTimeout(resolve, 1000);
-                    this.audioProcess?.on('exit', () => {
-                        clearTimeout(timeout);
-                        resolve(void 0);
-                    });
-                });
-            }
-            
-            this.audioProcess = null;
-            this.outputChannel.appendLine('✅ Audio process stopped');
+    private async processQueue(): Promise<void> {
+        if (this.submitting) {
+            return;
+        }
+        const request = this.queue.takeNext(candidate => this.isBlocked(candidate));
+        if (!request) {
+            return;
         }
-        
-        // Additional cleanup: Kill any remaining audio processes that might be hanging
-        await this.killAnyRemainingAudioProcesses();
-    }
 
-    private async killAnyRemainingAudioProcesses(): Promise<void> {
+        this.submitting = request;
+        this.fireQueueChange();
         try {
-            // Only kill audio processes that contain suno.ai URLs to avoid killing system audio
-            if (process.platform === 'darwin' || process.platform === 'linux') {
-                const { spawn } = require('child_process');
-                
-                // Kill processes that are playing suno.ai URLs specifically
-                const killSunoProcesses = spawn('pkill', ['-f', 'suno.ai'], { stdio: 'ignore' });
-                await new Promise(resolve => {
-                    killSunoProcesses.on('exit', resolve);
-                    setTimeout(resolve, 500); // Timeout after 500ms
-                });
-                
-                this.outputChannel.appendLine('🧹 Cleaned up any remaining Suno audio processes');
-            }
+            request.resolve(await this.runGeneration(request));
         } catch (error) {
-            // Ignore cleanup errors - this is just a safety measure
+            console.error('CodeBeat: Music generation failed:', error);
+            request.resolve(this.createErrorResponse(request.id, request.params, 'api_error', 'Music generation failed - current audio continues'));
+        } finally {
+            this.submitting = undefined;
+            this.fireQueueChange();
+            this.processQueue();
         }
     }
 
-    public toggleMute(): void {
-        this.isMuted = !this.isMuted;
-        
-        if (this.isMuted) {
-            this.outputChannel.appendLine('🔇 Audio muted - stopping playback');
-            // Immediately stop audio when muted
-            this.stopAudio();
-        } else {
-            this.outputChannel.appendLine('🔊 Audio unmuted');
-            if (this.currentUrl) {
-                this.outputChannel.appendLine('▶️  Resuming playback...');
-                // Resume playback with the last URL
-                this.playAudio(this.currentUrl);
-            }
-        }
-        
-        vscode.window.showInformationMessage(
-            `🎵 CodeBeat: Audio ${this.isMuted ? 'muted' : 'unmuted'}`
+    /** A request waits while a more important clip for its channel is still being generated. */
+    private isBlocked(request: GenerationRequest): boolean {
+        return [...this.activeGenerations.values()].some(generation =>
+            generation.request.channel === request.channel && generation.request.priority > request.priority
         );
     }
 
-    public getMuteStatus(): boolean {
-        return this.isMuted;
-    }
+    private async runGeneration(request: GenerationRequest): Promise<SunoApiResponse> {
+        const { params, triggerType, codeContext } = request;
 
-    public isAudioPlaying(): boolean {
-        return this.audioProcess !== null && !this.audioProcess.killed;
-    }
+        // Older clips for the same channel would replace this one when they finish
+        this.cancelStaleGenerations(request);
 
-    public dispose(): void {
-        this.stopAudio();
-    }
-}
-
-export class SunoApiClient {
-    private lastGeneratedId: number = 0;
-    private outputChannel: vscode.OutputChannel;
-    private apiToken: string | undefined;
-    private readonly baseUrl = 'https://studio-api.prod.suno.com/api/v2/external/hackmit';
-    private audioPlayer: AudioPlayer;
-    private activePollingIntervals: Set<NodeJS.Timeout> = new Set();
-    private isGeneratingMusic: boolean = false; // Prevent concurrent music generation
-
-    constructor() {
-        this.outputChannel = vscode.window.createOutputChannel('CodeBeat - Suno API');
-        this.outputChannel.show(true);
-        
-        // Initialize audio player
-        this.audioPlayer = new AudioPlayer(this.outputChannel);
-        
-        // Load environment variables
-        this.loadEnvVars();
-        
-        if (this.apiToken) {
-            this.outputChannel.appendLine('🎵 CodeBeat Suno API Client Initialized');
-            this.outputChannel.appendLine('✅ API Token loaded successfully');
-            this.outputChannel.appendLine('🎼 Audio player ready for automatic playback\n');
-        } else {
-            this.outputChannel.appendLine('🎵 CodeBeat Suno API Client Initialized');
-            this.outputChannel.appendLine('⚠️  WARNING: SUNO_API_TOKEN not found in .env file');
-            this.outputChannel.appendLine('Please add SUNO_API_TOKEN=your_token to your .env file');
-            this.outputChannel.appendLine('🎼 Audio player ready for automatic playback\n');
+        // Reuse a cached track for (nearly) the same parameters instead of generating a new clip,
+        // unless the user asked for a new take
+        const cachedResponse = triggerType === 'manual' ? undefined : await this.playFromCache(params, triggerType);
+        if (cachedResponse) {
+            return cachedResponse;
         }
-    }
 
-    private loadEnvVars(): void {
-        try {
-            // Try to load from .env file in workspace root using dotenv
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (workspaceFolders && workspaceFolders.length > 0) {
-                const envPath = path.join(workspaceFolders[0].uri.fsPath, '.env');
-                
-                this.outputChannel.appendLine(`📁 Looking for .env file at: ${envPath}`);
-                
-                if (fs.existsSync(envPath)) {
-                    this.outputChannel.appendLine(`✅ Found .env file, loading...`);
-                    
-                    // Use dotenv to parse the file
-                    const result = dotenv.config({ path: envPath });
-                    
-                    if (result.error) {
-                        this.outputChannel.appendLine(`❌ Error parsing .env file: ${result.error}`);
-                    } else {
-                        this.outputChannel.appendLine(`✅ Loaded .env file successfully`);
-                        
-                        // Get the token from the parsed environment
-                        this.apiToken = result.parsed?.SUNO_API_TOKEN;
-                        
-                        if (this.apiToken) {
-                            this.outputChannel.appendLine(`✅ SUNO_API_TOKEN found in .env file`);
-                        } else {
-                            this.outputChannel.appendLine(`⚠️  SUNO_API_TOKEN not found in .env file`);
-                        }
-                    }
-                } else {
-                    this.outputChannel.appendLine(`❌ .env file not found at: ${envPath}`);
-                }
-            } else {
-                this.outputChannel.appendLine(`❌ No workspace folders found`);
-            }
-            
-            // Fallback to process.env if available
-            if (!this.apiToken && process.env.SUNO_API_TOKEN) {
-                this.apiToken = process.env.SUNO_API_TOKEN;
-                this.outputChannel.appendLine(`✅ SUNO_API_TOKEN found in process.env`);
-            }
-        } catch (error) {
-            this.outputChannel.appendLine(`❌ Error loading environment variables: ${error}`);
+        const unavailable = this.checkGenerationAllowed(request);
+        if (unavailable) {
+            return unavailable;
         }
-    }
 
-    public async generateMusic(
-        params: MusicParameters,
-        triggerType: 'code_analysis' | 'success_celebration' | 'error_feedback' | 'manual',
-        codeContext?: { code: string; language: string; fileName?: string }
-    ): Promise<SunoApiResponse> {
-        // CRITICAL: Prevent concurrent music generation requests
-        if (this.isGeneratingMusic) {
-            this.outputChannel.appendLine('🚫 GLOBAL AUDIO CONTROL: Music generation already in progress, rejecting concurrent request');
-            return {
-                id: 'rejected_concurrent',
-                status: 'error',
-                metadata: {
-                    bpm: params.bpm,
-                    genre: params.genre,
-                    duration: params.duration,
-                    error_type: 'concurrent_request',
-                    error_message: 'Music generation already in progress'
-                }
-            };
-        }
-
-        this.isGeneratingMusic = true;
-        
         // IMPROVED: Keep current audio playing while new music is being generated
-        // Only clear polling intervals for the new generation, don't stop current audio yet
-        this.clearAllPollingIntervals();
         const isCurrentlyPlaying = this.audioPlayer.isAudioPlaying();
         this.outputChannel.appendLine(`🎵 AUDIO CONTINUITY: ${isCurrentlyPlaying ? 'Keeping current audio playing' : 'No current audio'} while generating new music...`);
         
-        const requestId = this.generateRequestId();
+        const requestId = request.id;
         const timestamp = new Date().toISOString();
 
         // Log the received music parameters
@@ -476,14 +274,21 @@ export class SunoApiClient {
 
         // Log the API call details
         this.logApiCall(requestId, timestamp, triggerType, sunoRequest, params, codeContext);
+        this.sessionRecorder.record('suno_request', { requestId, triggerType, request: sunoRequest });
+
+        // The token of the folder the request started in is used until the clip is done
+        const apiToken = this.apiToken;
 
         try {
             // Make real API call if token is available
-            if (this.apiToken) {
-                const response = await this.makeApiCall(sunoRequest);
+            if (apiToken) {
+                const response = await this.makeApiCall(sunoRequest, apiToken);
+                await this.quota.record();
+                this.sessionRecorder.record('suno_response', response);
+                this.fireTrackChange(response, params, triggerType);
                 
                 // Start polling for status updates and streaming
-                this.startPollingForStatus(response.id, triggerType, params);
+                this.startPollingForStatus(response.id, request, apiToken);
                 
                 // Show notification for important events
                 if (triggerType === 'success_celebration') {
@@ -498,21 +303,16 @@ export class SunoApiClient {
                 this.outputChannel.appendLine('⚠️  No API token available, using mock response');
                 this.outputChannel.appendLine(`🎵 AUDIO CONTINUITY: Keeping current audio playing (no API token)`);
                 
-                const mockResponse: SunoApiResponse = {
-                    id: requestId,
-                    status: 'error',
-                    metadata: {
-                        bpm: params.bpm,
-                        genre: params.genre,
-                        duration: params.duration,
-                        error_type: 'no_api_token',
-                        error_message: 'API token not configured - current audio continues'
-                    }
-                };
+                const mockResponse = this.createErrorResponse(requestId, params, 'no_api_token', 'API token not configured - current audio continues');
                 
                 vscode.window.showWarningMessage(
-                    'CodeBeat: SUNO_API_TOKEN not configured. Please add it to your .env file. (Current audio continues)'
-                );
+                    'CodeBeat: Suno API token not configured. (Current audio continues)',
+                    'Configure Credentials'
+                ).then(choice => {
+                    if (choice) {
+                        vscode.commands.executeCommand('codebeat.configureCredentials');
+                    }
+                });
                 
                 return mockResponse;
             }
@@ -522,30 +322,87 @@ export class SunoApiClient {
             console.error('CodeBeat: Suno API Error:', error);
             
             // Return error response
-            return {
-                id: requestId,
-                status: 'error',
+            return this.createErrorResponse(requestId, params, 'api_error', 'API call failed - current audio continues');
+        }
+    }
+
+    /** An error response when the daily quota is used up or Suno is paused, otherwise undefined. */
+    private checkGenerationAllowed(request: GenerationRequest): SunoApiResponse | undefined {
+        if (this.http.isOpen()) {
+            const retryAt = new Date(this.http.getRetryAt()!).toLocaleTimeString();
+            this.outputChannel.appendLine(`⏸️  ${request.triggerType} music skipped: Suno API paused until ${retryAt} (current audio continues)`);
+            return this.createErrorResponse(request.id, request.params, 'service_paused', `Suno API paused after repeated failures until ${retryAt}`);
+        }
+
+        if (this.quota.isExhausted()) {
+            const usage = this.quota.getUsage();
+            this.outputChannel.appendLine(`🧮 ${request.triggerType} music skipped: daily quota of ${usage.limit} generations used (current audio continues)`);
+            if (this.quotaWarningDate !== usage.date) {
+                this.quotaWarningDate = usage.date;
+                vscode.window.showWarningMessage(
+                    `CodeBeat: All ${usage.limit} Suno generations for today are used. Cached tracks still play.`,
+                    'Change Quota'
+                ).then(choice => {
+                    if (choice) {
+                        vscode.commands.executeCommand('workbench.action.openSettings', 'codebeat.dailyGenerationQuota');
+                    }
+                });
+            }
+            return this.createErrorResponse(request.id, request.params, 'quota_exceeded', `Daily quota of ${usage.limit} generations used`);
+        }
+        return undefined;
+    }
+
+    private createErrorResponse(id: string, params: MusicParameters, errorType: string, errorMessage: string): SunoApiResponse {
+        return {
+            id,
+            status: 'error',
+            metadata: {
+                bpm: params.bpm,
+                genre: params.genre,
+                duration: params.duration,
+                error_type: errorType,
+                error_message: errorMessage
+            }
+        };
+    }
+
+    private async playFromCache(params: MusicParameters, triggerType: MusicTriggerType): Promise<SunoApiResponse | undefined> {
+        try {
+            const cachedTrack = await this.trackCache.find(params);
+            if (!cachedTrack) {
+                return undefined;
+            }
+
+            this.outputChannel.appendLine(`\n💾 CACHE HIT for ${triggerType}: ${cachedTrack.title || cachedTrack.fingerprint}`);
+            this.outputChannel.appendLine(`📁 ${cachedTrack.filePath}`);
+
+            this.startPlayback(cachedTrack.filePath, cachedTrack.title, triggerType);
+
+            const response: SunoApiResponse = {
+                id: `cache_${this.generateRequestId()}`,
+                status: 'complete',
+                audio_url: cachedTrack.filePath,
+                title: cachedTrack.title,
+                image_url: cachedTrack.imageUrl,
+                created_at: cachedTrack.createdAt,
                 metadata: {
-                    bpm: params.bpm,
-                    genre: params.genre,
-                    duration: params.duration,
-                    error_type: 'api_error',
-                    error_message: 'API call failed - current audio continues'
+                    bpm: cachedTrack.bpm,
+                    genre: cachedTrack.genre,
+                    duration: params.duration
                 }
             };
-        } finally {
-            // CRITICAL: Always reset the generation flag
-            this.isGeneratingMusic = false;
+            this.fireTrackChange(response, params, triggerType);
+            return response;
+        } catch (error) {
+            this.outputChannel.appendLine(`⚠️  Track cache lookup failed: ${error}`);
+            return undefined;
         }
     }
 
-    private async makeApiCall(request: SunoApiRequest): Promise<SunoApiResponse> {
-        if (!this.apiToken) {
-            throw new Error('API token not available');
-        }
-
+    private async makeApiCall(request: SunoApiRequest, apiToken: string): Promise<SunoApiResponse> {
         const headers = {
-            'Authorization': `Bearer ${this.apiToken}`,
+            'Authorization': `Bearer ${apiToken}`,
             'Content-Type': 'application/json',
             'User-Agent': 'CodeBeat-VSCode-Extension/1.0.0'
         };
@@ -557,22 +414,25 @@ export class SunoApiClient {
             make_instrumental: request.make_instrumental
         };
 
-        this.outputChannel.appendLine(`🌐 Making API call to ${this.baseUrl}/generate`);
+        this.outputChannel.appendLine(`🌐 Making API call to ${this.getBaseUrl()}/generate`);
         this.outputChannel.appendLine(`📦 Payload: ${JSON.stringify(apiPayload, null, 2)}`);
 
-        const response = await fetch(`${this.baseUrl}/generate`, {
+        const response = await this.http.request(`${this.getBaseUrl()}/generate`, {
             method: 'POST',
             headers,
-            body: JSON.stringify(apiPayload)
+            body: JSON.stringify(apiPayload),
+            timeoutMs: 60000
         });
 
         if (!response.ok) {
             const errorText = await response.text();
             this.outputChannel.appendLine(`❌ API Error: ${response.status} ${response.statusText}`);
             this.outputChannel.appendLine(`❌ Error details: ${errorText}`);
+            this.reportTokenStatus(apiToken, response.status);
             throw new Error(`Suno API Error: ${response.status} ${response.statusText} - ${errorText}`);
         }
 
+        this.credentials.reportStatus(apiToken, true);
         const responseData = await response.json() as any;
         this.outputChannel.appendLine(`✅ API Response: ${JSON.stringify(responseData, null, 2)}`);
 
@@ -596,39 +456,47 @@ export class SunoApiClient {
 
     private async startPollingForStatus(
         clipId: string, 
-        triggerType: string, 
-        params: MusicParameters
+        request: GenerationRequest,
+        apiToken: string
     ): Promise<void> {
+        const { params, triggerType } = request;
         this.outputChannel.appendLine(`\n🔄 Starting status polling for clip: ${clipId}`);
-        this.outputChannel.appendLine(`📊 Status monitoring every 5 seconds...`);
+        this.outputChannel.appendLine(`📊 Status monitoring every ${this.pollInterval / 1000} seconds...`);
         
-        // IMPROVED: Don't stop current audio here - polling is already cleared in generateMusic()
+        // IMPROVED: Don't stop current audio here - stale polling is already cancelled in runGeneration()
         // Audio will only be stopped when new audio is ready to play
         
         let pollCount = 0;
-        const maxPolls = 60; // 5 minutes max polling
+        const maxPolls = Math.ceil(5 * 60 * 1000 / this.pollInterval); // 5 minutes max polling
+        const maxConsecutiveErrors = 6;
+        let consecutiveErrors = 0;
+        let nextPollAt = 0; // Backoff after errors
+        let isPolling = false;
         let lastStatus = '';
         
         const pollInterval = setInterval(async () => {
+            // A slow, backed-off or paused status check skips ticks instead of piling up requests
+            if (isPolling || Date.now() < nextPollAt || this.http.isOpen()) {
+                return;
+            }
+            isPolling = true;
             try {
                 pollCount++;
-                const status = await this.checkClipStatus(clipId);
+                const status = await this.checkClipStatus(clipId, apiToken);
+                consecutiveErrors = 0;
                 
                 if (status.status !== lastStatus) {
                     this.logStatusChange(clipId, lastStatus, status.status, status, pollCount);
                     lastStatus = status.status;
+                    this.sessionRecorder.record('suno_response', status);
+                    this.fireTrackChange(status, params, triggerType);
                     
                     // Handle streaming availability
                     if (status.status === 'streaming' && status.audio_url) {
                         this.outputChannel.appendLine(`\n🎵 STREAMING NOW AVAILABLE!`);
                         this.outputChannel.appendLine(`🌐 Streaming URL: ${status.audio_url}`);
-                        this.outputChannel.appendLine(`🔄 AUDIO TRANSITION: Switching from current audio to new stream...`);
-                        
-                        // NOW stop current audio and start new playback
-                        this.outputChannel.appendLine(`🔄 AUDIO TRANSITION: Stopping current audio to start streaming...`);
-                        await this.audioPlayer.stopAudio();
-                        await new Promise(resolve => setTimeout(resolve, 500)); // Brief pause for cleanup
-                        this.audioPlayer.playAudio(status.audio_url, status.title);
+                        this.outputChannel.appendLine(`🔄 AUDIO TRANSITION: Crossfading from current audio to new stream...`);
+                        this.startPlayback(status.audio_url, status.title, triggerType);
                         
                         // Show notification for streaming
                         vscode.window.showInformationMessage(
@@ -655,12 +523,13 @@ export class SunoApiClient {
                         if (status.image_url) {
                             this.outputChannel.appendLine(`🖼️  Cover Art: ${status.image_url}`);
                         }
+
+                        // Keep a local copy so the same parameters replay instantly next time
+                        this.trackCache.store(params, status.audio_url, { title: status.title, imageUrl: status.image_url })
+                            .catch(error => this.outputChannel.appendLine(`⚠️  Could not cache track: ${error}`));
                         
-                        // Switch to final MP3 for better quality (stop current, start new)
-                        this.outputChannel.appendLine(`🔄 AUDIO TRANSITION: Stopping current audio to start final MP3...`);
-                        await this.audioPlayer.stopAudio();
-                        await new Promise(resolve => setTimeout(resolve, 500)); // Brief pause for cleanup
-                        this.audioPlayer.playAudio(status.audio_url, status.title);
+                        // Switch to final MP3 for better quality, crossfading from the stream
+                        this.startPlayback(status.audio_url, status.title, triggerType);
                         
                         // Show completion notification
                         vscode.window.showInformationMessage(
@@ -678,8 +547,7 @@ export class SunoApiClient {
                             }
                         });
                         
-                        this.removePollingInterval(pollInterval);
-                        this.isGeneratingMusic = false; // Reset flag on completion
+                        this.finishGeneration(request.id);
                         return;
                     }
                     
@@ -698,8 +566,7 @@ export class SunoApiClient {
                             `❌ CodeBeat: Music generation failed - ${status.metadata.error_message || 'Unknown error'} (current audio continues)`
                         );
                         
-                        this.removePollingInterval(pollInterval);
-                        this.isGeneratingMusic = false; // Reset flag on error
+                        this.finishGeneration(request.id);
                         return;
                     }
                 }
@@ -709,44 +576,60 @@ export class SunoApiClient {
                     this.outputChannel.appendLine(`\n⏰ Polling timeout after ${maxPolls} attempts (5 minutes)`);
                     this.outputChannel.appendLine(`🔄 Last known status: ${status.status}`);
                     this.outputChannel.appendLine(`🎵 AUDIO CONTINUITY: Keeping current audio playing after timeout`);
-                    this.removePollingInterval(pollInterval);
-                    this.isGeneratingMusic = false; // Reset flag on timeout
+                    this.finishGeneration(request.id);
                 }
                 
             } catch (error) {
                 this.outputChannel.appendLine(`❌ Polling error: ${error}`);
                 console.error('CodeBeat: Status polling error:', error);
                 
-                // Continue polling on error, but limit retries
-                if (pollCount >= 10) {
+                // A paused API is not the clip's fault; polling resumes after the cooldown
+                if (error instanceof CircuitOpenError) {
+                    return;
+                }
+
+                // Continue polling on error with backoff, but limit retries
+                consecutiveErrors++;
+                if (consecutiveErrors >= maxConsecutiveErrors) {
                     this.outputChannel.appendLine(`🎵 AUDIO CONTINUITY: Keeping current audio playing after repeated polling errors`);
-                    this.removePollingInterval(pollInterval);
-                    this.isGeneratingMusic = false; // Reset flag on repeated errors
+                    this.finishGeneration(request.id);
+                } else {
+                    const delay = this.http.getBackoffDelay(consecutiveErrors);
+                    nextPollAt = Date.now() + delay;
+                    this.outputChannel.appendLine(`⏳ Next status check in ${Math.round(delay / 1000)}s (error ${consecutiveErrors}/${maxConsecutiveErrors})`);
                 }
+            } finally {
+                isPolling = false;
             }
-        }, 5000); // Poll every 5 seconds
+        }, this.pollInterval);
         
         // Track this polling interval to manage cleanup
-        this.activePollingIntervals.add(pollInterval);
+        this.activeGenerations.set(request.id, { request, interval: pollInterval });
+        this.fireQueueChange();
     }
 
-    private async checkClipStatus(clipId: string): Promise<SunoApiResponse> {
-        if (!this.apiToken) {
-            throw new Error('API token not available');
+    private reportTokenStatus(apiToken: string, httpStatus: number): void {
+        if (httpStatus === 401 || httpStatus === 403) {
+            this.credentials.reportStatus(apiToken, false);
         }
+    }
 
+    private async checkClipStatus(clipId: string, apiToken: string): Promise<SunoApiResponse> {
         const headers = {
-            'Authorization': `Bearer ${this.apiToken}`,
+            'Authorization': `Bearer ${apiToken}`,
             'User-Agent': 'CodeBeat-VSCode-Extension/1.0.0'
         };
 
-        const response = await fetch(`${this.baseUrl}/clips?ids=${clipId}`, {
-            method: 'GET',
-            headers
+        // Polling retries on its own schedule, so a single status check gives up quickly
+        const response = await this.http.request(`${this.getBaseUrl()}/clips?ids=${clipId}`, {
+            headers,
+            timeoutMs: 15000,
+            maxRetries: 1
         });
 
         if (!response.ok) {
             const errorText = await response.text();
+            this.reportTokenStatus(apiToken, response.status);
             throw new Error(`Clips API Error: ${response.status} ${response.statusText} - ${errorText}`);
         }
 
@@ -840,10 +723,11 @@ export class SunoApiClient {
     }
 
     public async generateCelebration(
-        celebrationType: 'compilation_success' | 'bug_fix' | 'test_pass' | 'deployment',
-        context?: string
+        celebrationType: CelebrationType,
+        context?: string,
+        intensity?: CelebrationIntensity
     ): Promise<SunoApiResponse> {
-        const celebrationParams = this.getCelebrationParameters(celebrationType, context);
+        const celebrationParams = this.musicGenerator.generateFromCelebration(celebrationType, context, intensity);
         return this.generateMusic(celebrationParams, 'success_celebration');
     }
 
@@ -853,7 +737,7 @@ export class SunoApiClient {
         triggerType: string,
         request: SunoApiRequest,
         originalParams: MusicParameters,
-        codeContext?: { code: string; language: string; fileName?: string }
+        codeContext?: CodeContext
     ): void {
         this.outputChannel.appendLine(`\n${'='.repeat(80)}`);
         this.outputChannel.appendLine(`🎵 SUNO API CALL - ${requestId}`);
@@ -863,13 +747,13 @@ export class SunoApiClient {
         this.outputChannel.appendLine(`${'='.repeat(80)}`);
 
         // Show the code that triggered this music generation
-        if (codeContext && triggerType === 'code_analysis') {
+        if (codeContext && triggerType === 'code_analysis' && getLogVerbosity() !== 'quiet') {
             this.outputChannel.appendLine('\n💻 SOURCE CODE THAT TRIGGERED THIS MUSIC:');
             this.outputChannel.appendLine(`📁 File: ${codeContext.fileName || 'Unknown'}`);
             this.outputChannel.appendLine(`🔤 Language: ${codeContext.language}`);
             this.outputChannel.appendLine(`📏 Length: ${codeContext.code.length} characters, ${codeContext.code.split('\n').length} lines`);
             this.outputChannel.appendLine('\n--- RAW CODE START ---');
-            this.outputChannel.appendLine(codeContext.code);
+            this.outputChannel.appendLine(describeCodeForLog(codeContext.code));
             this.outputChannel.appendLine('--- RAW CODE END ---\n');
         }
 
@@ -899,11 +783,11 @@ export class SunoApiClient {
         this.outputChannel.appendLine(`• API Status: ${this.apiToken ? 'Ready' : 'Token Missing'}`);
         this.outputChannel.appendLine(`• Expected Duration: ${request.duration} seconds`);
         this.outputChannel.appendLine(`• Real-time Streaming: ENABLED ⚡`);
-        this.outputChannel.appendLine(`• Status Polling: Every 5 seconds 🔄`);
+        this.outputChannel.appendLine(`• Status Polling: Every ${this.pollInterval / 1000} seconds 🔄`);
         
         // Show the API endpoint being used
         this.outputChannel.appendLine('\n🌐 API ENDPOINT:');
-        this.outputChannel.appendLine(`POST ${this.baseUrl}/generate`);
+        this.outputChannel.appendLine(`POST ${this.getBaseUrl()}/generate`);
         this.outputChannel.appendLine(`Headers: {`);
         this.outputChannel.appendLine(`  "Authorization": "Bearer ${this.apiToken ? '***' + this.apiToken.slice(-4) : 'NOT_SET'}",`);
         this.outputChannel.appendLine(`  "Content-Type": "application/json"`);
@@ -917,78 +801,49 @@ export class SunoApiClient {
         this.outputChannel.appendLine(`\n${'='.repeat(80)}\n`);
     }
 
-    private getCelebrationParameters(
-        celebrationType: 'compilation_success' | 'bug_fix' | 'test_pass' | 'deployment',
-        context?: string
-    ): MusicParameters {
-        const celebrations = {
-            'compilation_success': {
-                bpm: 130,
-                mood: 'triumphant',
-                genre: 'epic orchestral',
-                energy: 9,
-                instruments: ['orchestral', 'brass', 'timpani', 'strings'],
-                structure: 'epic build with climactic drop',
-                duration: 45,
-                tags: ['celebration', 'success', 'compilation', 'victory'],
-                prompt: 'Epic orchestral celebration with triumphant brass and powerful timpani, building to a victorious climax for successful code compilation'
-            },
-            'bug_fix': {
-                bpm: 110,
-                mood: 'relieved',
-                genre: 'uplifting electronic',
-                energy: 7,
-                instruments: ['piano', 'strings', 'electronic', 'light percussion'],
-                structure: 'tension release with harmonic resolution',
-                duration: 30,
-                tags: ['relief', 'resolution', 'bug_fix', 'harmony'],
-                prompt: 'Uplifting electronic music with tension release and harmonic resolution, celebrating the successful fixing of a bug'
-            },
-            'test_pass': {
-                bpm: 120,
-                mood: 'confident',
-                genre: 'uplifting pop electronic',
-                energy: 8,
-                instruments: ['synth', 'electronic beats', 'piano', 'bass'],
-                structure: 'uplifting major key celebration',
-                duration: 35,
-                tags: ['confidence', 'testing', 'validation', 'success'],
-                prompt: 'Confident uplifting electronic music in major key, celebrating successful test completion and code validation'
-            },
-            'deployment': {
-                bpm: 140,
-                mood: 'victorious',
-                genre: 'full orchestral finale',
-                energy: 10,
-                instruments: ['full orchestra', 'choir', 'brass', 'strings', 'timpani'],
-                structure: 'full orchestral finale with choir',
-                duration: 60,
-                tags: ['deployment', 'finale', 'achievement', 'launch'],
-                prompt: 'Magnificent full orchestral finale with choir, celebrating the successful deployment and launch of the project'
-            }
-        };
-
-        const baseParams = celebrations[celebrationType];
-        
-        return {
-            ...baseParams,
-            complexity: 'celebration',
-            context: `${celebrationType}_celebration`,
-            prompt: context ? `${baseParams.prompt}. Context: ${context}` : baseParams.prompt
-        };
-    }
-
     private generateRequestId(): string {
         this.lastGeneratedId++;
         const timestamp = Date.now().toString(36);
         return `codebeat_${timestamp}_${this.lastGeneratedId.toString().padStart(3, '0')}`;
     }
 
-    public toggleAudio(): void {
-        this.audioPlayer.toggleMute();
+    private startPlayback(url: string, title: string | undefined, triggerType: MusicTriggerType): void {
+        if (isInterruptTrigger(triggerType)) {
+            this.audioPlayer.playInterrupt(url, title);
+        } else {
+            this.audioPlayer.playAudio(url, title);
+        }
+    }
+
+    public playTrack(track: TrackInfo): void {
+        if (!track.audioUrl) {
+            return;
+        }
+        this.outputChannel.appendLine(`\n⏮️  Replaying "${track.title}"`);
+        this.audioPlayer.playAudio(track.audioUrl, track.title);
+        this.trackEmitter.fire({ ...track, timestamp: new Date().toISOString() });
+    }
+
+    private fireTrackChange(response: SunoApiResponse, params: MusicParameters, triggerType: MusicTriggerType): void {
+        this.trackEmitter.fire({
+            id: response.id,
+            status: response.status,
+            title: response.title || `${params.genre} (${params.bpm} BPM)`,
+            audioUrl: response.audio_url,
+            imageUrl: response.image_url,
+            bpm: params.bpm,
+            genre: params.genre,
+            mood: params.mood,
+            triggerType,
+            timestamp: new Date().toISOString()
+        });
     }
 
-    public getMuteStatus(): boolean {
+    public mute(muted: boolean): void {
+        this.audioPlayer.setMuted(muted);
+    }
+
+    public isMuted(): boolean {
         return this.audioPlayer.getMuteStatus();
     }
 
@@ -996,31 +851,63 @@ export class SunoApiClient {
         return this.audioPlayer.isAudioPlaying();
     }
 
-    public stopAudio(): void {
+    public stop(): void {
         this.audioPlayer.stopAudio();
     }
 
-    private clearAllPollingIntervals(): void {
-        for (const interval of this.activePollingIntervals) {
-            clearInterval(interval);
+    /**
+     * Stops polling for background clips that are no more important than a new
+     * background request. Celebrations and stings already count against the
+     * quota and mark an event of their own, so they always finish.
+     */
+    private cancelStaleGenerations(request: GenerationRequest): void {
+        if (request.channel !== 'background') {
+            return;
+        }
+        for (const generation of [...this.activeGenerations.values()]) {
+            if (generation.request.channel === request.channel && generation.request.priority <= request.priority) {
+                clearInterval(generation.interval);
+                this.activeGenerations.delete(generation.request.id);
+                this.outputChannel.appendLine(`🔄 QUEUE: Stopped polling for stale ${generation.request.triggerType} request ${generation.request.id} (current audio continues until new music is ready)`);
+            }
         }
-        this.activePollingIntervals.clear();
-        this.outputChannel.appendLine('🔄 GLOBAL AUDIO CONTROL: Cleared all active polling intervals (current audio continues until new music is ready)');
+        this.fireQueueChange();
     }
 
-    private removePollingInterval(interval: NodeJS.Timeout): void {
-        clearInterval(interval);
-        this.activePollingIntervals.delete(interval);
+    private finishGeneration(requestId: string): void {
+        const generation = this.activeGenerations.get(requestId);
+        if (!generation) {
+            return;
+        }
+        clearInterval(generation.interval);
+        this.activeGenerations.delete(requestId);
+        this.fireQueueChange();
+
+        // Requests held back by this clip may run now
+        this.processQueue();
+    }
+
+    private fireQueueChange(): void {
+        this.queueEmitter.fire(this.getQueueState());
     }
 
     public dispose(): void {
-        // Reset generation flag
-        this.isGeneratingMusic = false;
-        
+        // Waiting callers get an answer instead of a promise that never settles
+        for (const request of this.queue.clear()) {
+            request.resolve(this.createErrorResponse(request.id, request.params, 'disposed', 'CodeBeat was shut down'));
+        }
+
         // Clean up all polling intervals
-        this.clearAllPollingIntervals();
+        for (const generation of this.activeGenerations.values()) {
+            clearInterval(generation.interval);
+        }
+        this.activeGenerations.clear();
         
         // Dispose of audio player and output channel
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.trackEmitter.dispose();
+        this.queueEmitter.dispose();
         this.audioPlayer.dispose();
         this.outputChannel.dispose();
     }
@@ -0,0 +1,331 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { MusicParameters } from './musicParameterGenerator';
+import { ProceduralSynthesizer } from './proceduralSynthesizer';
+
+export type StubEndpoint = 'generate' | 'clips' | 'audio';
+
+export interface SunoStubOptions {
+    port?: number; // 0 picks a free port
+    stepMs?: number; // time between status transitions
+    latencyMs?: number; // added to every response
+    errorRate?: number; // 0-1, share of API requests answered with a 503
+    durationSeconds?: number; // length of the generated audio
+    validTokens?: string[]; // if set, other tokens get a 401
+}
+
+export interface StubRequestLogEntry {
+    method: string;
+    endpoint: StubEndpoint | 'unknown';
+    url: string;
+    authorization?: string;
+    body?: any;
+}
+
+interface InjectedFailure {
+    endpoint: StubEndpoint | 'any';
+    status: number;
+    retryAfter?: number;
+    remaining: number;
+}
+
+interface StubClip {
+    id: string;
+    createdAt: number;
+    topic: string;
+    tags: string;
+    failure?: string; // the clip ends in `error` with this message
+    audio?: Buffer;
+}
+
+/**
+ * A local stand-in for the Suno HackMIT API, so `SunoApiClient` can be
+ * developed and tested without a token. It implements `POST /generate` and
+ * `GET /clips?ids=`, moves every clip through submitted, queued, streaming
+ * and complete (or error), and serves a synthesized WAV as the clip's audio.
+ * Failures and latency can be injected.
+ *
+ * Run it with `npm run suno-stub` and point `codebeat.sunoBaseUrl` at the
+ * URL it prints.
+ */
+export class SunoStubServer {
+    private server: http.Server | undefined;
+    private clips: Map<string, StubClip> = new Map();
+    private failures: InjectedFailure[] = [];
+    private failingGenerations: string[] = [];
+    private requestLog: StubRequestLogEntry[] = [];
+    private nextClipNumber = 1;
+    private synthesizer = new ProceduralSynthesizer();
+    private baseUrl = '';
+    private options: Required<Omit<SunoStubOptions, 'validTokens'>> & { validTokens?: string[] };
+
+    constructor(options: SunoStubOptions = {}) {
+        this.options = {
+            port: 0,
+            stepMs: 2000,
+            latencyMs: 0,
+            errorRate: 0,
+            durationSeconds: 20,
+            ...options
+        };
+    }
+
+    /** Starts listening on 127.0.0.1 and returns the base URL for `codebeat.sunoBaseUrl`. */
+    public start(): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const server = http.createServer((request, response) => this.handle(request, response));
+            server.once('error', reject);
+            server.listen(this.options.port, '127.0.0.1', () => {
+                const { port } = server.address() as AddressInfo;
+                this.server = server;
+                this.baseUrl = `http://127.0.0.1:${port}/api/v2/external/hackmit`;
+                resolve(this.baseUrl);
+            });
+        });
+    }
+
+    public stop(): Promise<void> {
+        return new Promise(resolve => {
+            if (!this.server) {
+                resolve();
+                return;
+            }
+            this.server.close(() => resolve());
+            this.server = undefined;
+        });
+    }
+
+    /** Answers the next `count` requests to an endpoint with an error status. */
+    public failRequests(endpoint: StubEndpoint | 'any', status: number, count = 1, retryAfter?: number): void {
+        this.failures.push({ endpoint, status, retryAfter, remaining: count });
+    }
+
+    /** The next clip that is generated ends in the `error` status instead of `complete`. */
+    public failNextGeneration(message = 'Generation failed (injected by the stub)'): void {
+        this.failingGenerations.push(message);
+    }
+
+    public setLatency(latencyMs: number): void {
+        this.options.latencyMs = latencyMs;
+    }
+
+    public setErrorRate(errorRate: number): void {
+        this.options.errorRate = errorRate;
+    }
+
+    public getRequestLog(): StubRequestLogEntry[] {
+        return [...this.requestLog];
+    }
+
+    public reset(): void {
+        this.clips.clear();
+        this.failures = [];
+        this.failingGenerations = [];
+        this.requestLog = [];
+    }
+
+    private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+        const url = new URL(request.url || '/', 'http://127.0.0.1');
+        const endpoint = this.getEndpoint(url.pathname);
+        const body = await this.readBody(request);
+        this.requestLog.push({
+            method: request.method || 'GET',
+            endpoint: endpoint || 'unknown',
+            url: request.url || '/',
+            authorization: request.headers.authorization,
+            body
+        });
+
+        if (this.options.latencyMs > 0) {
+            await new Promise(resolve => setTimeout(resolve, this.options.latencyMs));
+        }
+
+        if (!endpoint) {
+            this.sendJson(response, 404, { detail: 'Not found' });
+            return;
+        }
+
+        const failure = this.takeFailure(endpoint);
+        if (failure) {
+            if (failure.retryAfter !== undefined) {
+                response.setHeader('Retry-After', String(failure.retryAfter));
+            }
+            this.sendJson(response, failure.status, { detail: `Injected ${failure.status} error` });
+            return;
+        }
+
+        if (endpoint === 'audio') {
+            this.serveAudio(url.pathname, response);
+            return;
+        }
+
+        // Only the API itself needs a token and fails at random; audio URLs are public
+        if (!this.isAuthorized(request.headers.authorization)) {
+            this.sendJson(response, 401, { detail: 'Invalid or missing token' });
+            return;
+        }
+        if (this.options.errorRate > 0 && Math.random() < this.options.errorRate) {
+            this.sendJson(response, 503, { detail: 'Random error (errorRate)' });
+            return;
+        }
+
+        if (endpoint === 'generate' && request.method === 'POST') {
+            this.sendJson(response, 200, this.createClip(body));
+        } else if (endpoint === 'clips' && request.method === 'GET') {
+            const ids = (url.searchParams.get('ids') || '').split(',').filter(id => id.length > 0);
+            const clips = ids.map(id => this.clips.get(id)).filter((clip): clip is StubClip => clip !== undefined);
+            this.sendJson(response, 200, clips.map(clip => this.describeClip(clip)));
+        } else {
+            this.sendJson(response, 405, { detail: 'Method not allowed' });
+        }
+    }
+
+    private getEndpoint(pathname: string): StubEndpoint | undefined {
+        if (pathname.endsWith('/generate')) {
+            return 'generate';
+        }
+        if (pathname.endsWith('/clips')) {
+            return 'clips';
+        }
+        if (pathname.startsWith('/audio/')) {
+            return 'audio';
+        }
+        return undefined;
+    }
+
+    private takeFailure(endpoint: StubEndpoint): InjectedFailure | undefined {
+        const failure = this.failures.find(candidate => candidate.endpoint === endpoint || candidate.endpoint === 'any');
+        if (!failure) {
+            return undefined;
+        }
+        failure.remaining--;
+        if (failure.remaining <= 0) {
+            this.failures.splice(this.failures.indexOf(failure), 1);
+        }
+        return failure;
+    }
+
+    private isAuthorized(authorization: string | undefined): boolean {
+        const token = authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : '';
+        if (!token) {
+            return false;
+        }
+        return !this.options.validTokens || this.options.validTokens.includes(token);
+    }
+
+    private createClip(body: any): object {
+        const clip: StubClip = {
+            id: `stub-clip-${this.nextClipNumber++}`,
+            createdAt: Date.now(),
+            topic: typeof body?.topic === 'string' ? body.topic : '',
+            tags: typeof body?.tags === 'string' ? body.tags : '',
+            failure: this.failingGenerations.shift()
+        };
+        this.clips.set(clip.id, clip);
+        return this.describeClip(clip);
+    }
+
+    /** The clip as the API reports it right now; the status follows from its age. */
+    private describeClip(clip: StubClip): object {
+        const step = Math.floor((Date.now() - clip.createdAt) / this.options.stepMs);
+        const statuses = ['submitted', 'queued', 'streaming', 'complete'];
+        // A failing clip errors out where it would start streaming
+        const status = clip.failure && step >= 2 ? 'error' : statuses[Math.min(step, statuses.length - 1)];
+
+        const hasAudio = status === 'streaming' || status === 'complete';
+        return {
+            id: clip.id,
+            status,
+            title: `Stub track ${clip.id.replace('stub-clip-', '#')}`,
+            audio_url: hasAudio ? `${this.getServerUrl()}/audio/${clip.id}.wav` : undefined,
+            image_url: undefined,
+            created_at: new Date(clip.createdAt).toISOString(),
+            metadata: {
+                tags: clip.tags,
+                prompt: clip.topic,
+                duration: status === 'complete' ? this.options.durationSeconds : undefined,
+                error_type: status === 'error' ? 'generation_failed' : undefined,
+                error_message: status === 'error' ? clip.failure : undefined
+            }
+        };
+    }
+
+    private serveAudio(pathname: string, response: http.ServerResponse): void {
+        const id = pathname.slice('/audio/'.length).replace(/\.wav$/, '');
+        const clip = this.clips.get(id);
+        if (!clip) {
+            this.sendJson(response, 404, { detail: 'Unknown clip' });
+            return;
+        }
+
+        // Rendered on first request; the topic carries genre and tempo as SunoApiClient writes them
+        if (!clip.audio) {
+            clip.audio = this.synthesizer.render(this.parametersFromTopic(clip));
+        }
+        response.writeHead(200, { 'Content-Type': 'audio/wav', 'Content-Length': clip.audio.length });
+        response.end(clip.audio);
+    }
+
+    private parametersFromTopic(clip: StubClip): MusicParameters {
+        const bpm = Number(/(\d+)\s*BPM/i.exec(clip.topic)?.[1]) || 90;
+        const genre = /in (.+?) style/i.exec(clip.topic)?.[1] || 'ambient';
+        const tags = clip.tags.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
+        return {
+            bpm,
+            mood: tags.join(' '),
+            genre,
+            energy: 5,
+            complexity: 'moderate',
+            instruments: [],
+            structure: '',
+            duration: this.options.durationSeconds,
+            tags,
+            prompt: clip.topic,
+            context: clip.id
+        };
+    }
+
+    private getServerUrl(): string {
+        return this.baseUrl.replace(/\/api\/.*$/, '');
+    }
+
+    private readBody(request: http.IncomingMessage): Promise<any> {
+        return new Promise(resolve => {
+            const chunks: Buffer[] = [];
+            request.on('data', chunk => chunks.push(chunk));
+            request.on('end', () => {
+                const text = Buffer.concat(chunks).toString('utf8');
+                try {
+                    resolve(text ? JSON.parse(text) : undefined);
+                } catch {
+                    resolve(text);
+                }
+            });
+        });
+    }
+
+    private sendJson(response: http.ServerResponse, status: number, body: unknown): void {
+        response.writeHead(status, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(body));
+    }
+}
+
+// `node out/sunoStubServer.js [--port 3999] [--step 2000] [--latency 0] [--error-rate 0]`
+if (require.main === module) {
+    const readOption = (name: string, fallback: number): number => {
+        const index = process.argv.indexOf(`--${name}`);
+        const value = index >= 0 ? Number(process.argv[index + 1]) : NaN;
+        return isNaN(value) ? fallback : value;
+    };
+
+    const stub = new SunoStubServer({
+        port: readOption('port', 3999),
+        stepMs: readOption('step', 2000),
+        latencyMs: readOption('latency', 0),
+        errorRate: readOption('error-rate', 0)
+    });
+    stub.start().then(baseUrl => {
+        console.log(`Suno stub server listening, set "codebeat.sunoBaseUrl": "${baseUrl}"`);
+        console.log('Any non-empty token is accepted. Press Ctrl+C to stop.');
+    });
+}
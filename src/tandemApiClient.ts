@@ -1,5 +1,6 @@
-import * as vscode from 'vscode';
-const fetch = require('node-fetch');
+import { CredentialStore, CredentialCheck } from './credentialStore';
+import { SendableContent, getLogVerbosity, describeCodeForLog } from './privacyGuard';
+import { HttpClient } from './httpClient';
 
 export interface CodeAnalysis {
     complexity: 'simple' | 'moderate' | 'complex' | 'very_complex';
@@ -16,37 +17,73 @@ export class TandemApiClient {
     private readonly baseUrl = 'https://api.tandemn.com/api/v1/chat/completions';
     private readonly model = 'Qwen/Qwen3-32B-AWQ';
 
+    constructor(private credentials: CredentialStore, private http: HttpClient) {}
+
+    /** Checks a key with a minimal completion request before it is stored. */
+    public async validateApiKey(apiKey: string): Promise<CredentialCheck> {
+        try {
+            const response = await this.http.request(this.baseUrl, {
+                method: 'POST',
+                headers: {
+                    'Authorization': `Bearer ${apiKey}`,
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({
+                    model: this.model,
+                    messages: [{ role: 'user', content: 'Reply with OK' }],
+                    max_tokens: 1
+                }),
+                maxRetries: 1
+            });
+            if (response.status === 401 || response.status === 403) {
+                return 'invalid';
+            }
+            return response.ok ? 'valid' : 'unreachable';
+        } catch (error) {
+            console.error('CodeBeat: Could not reach Tandemn to check the API key:', error);
+            return 'unreachable';
+        }
+    }
+
+    /** Content must have been prepared by the PrivacyGuard. */
     public async analyzeCode(
-        code: string, 
+        content: SendableContent,
         languageId: string, 
         fileExtension: string
     ): Promise<CodeAnalysis | null> {
         try {
-            const config = vscode.workspace.getConfiguration('codebeat');
-            const apiKey = config.get('tandemApiKey', 'gk-xUz3DGCo_tgmkl0cszsh');
+            const apiKey = this.credentials.getTandemApiKey();
+            if (!apiKey) {
+                console.log('CodeBeat: No Tandemn API key configured, skipping remote analysis');
+                return null;
+            }
 
             // Create analysis prompt
-            const prompt = this.createAnalysisPrompt(code, languageId, fileExtension);
-
-            console.log('CodeBeat: Sending code to Tandemn API for analysis...');
-            console.log('\n🔄 === TANDEM API REQUEST ===');
-            console.log('📄 Raw Code Content Being Analyzed:');
-            console.log('Language:', languageId);
-            console.log('Extension:', fileExtension);
-            console.log('Code Length:', code.length, 'characters');
-            console.log('Code Lines:', code.split('\n').length);
-            console.log('--- CODE START ---');
-            console.log(code);
-            console.log('--- CODE END ---');
-            console.log('\n📤 Full Prompt Being Sent to Tandem:');
-            console.log(prompt);
-            console.log('\n📡 Request Payload:');
-            console.log(JSON.stringify({
-                model: this.model,
-                messages: [{ role: 'user', content: prompt }]
-            }, null, 2));
-
-            const response = await fetch(this.baseUrl, {
+            const prompt = this.createAnalysisPrompt(content, languageId, fileExtension);
+            const verbosity = getLogVerbosity();
+
+            console.log(`CodeBeat: Sending ${content.kind === 'code' ? 'code' : 'code metrics'} to Tandemn API for analysis...`);
+            if (verbosity !== 'quiet') {
+                console.log('\n🔄 === TANDEM API REQUEST ===');
+                console.log('Language:', languageId);
+                console.log('Extension:', fileExtension);
+                if (content.kind === 'code') {
+                    console.log('Code Length:', content.code.length, 'characters');
+                    console.log('Code Lines:', content.code.split('\n').length);
+                    console.log('Redacted secrets:', content.redactions);
+                    console.log('--- CODE START ---');
+                    console.log(describeCodeForLog(content.code));
+                    console.log('--- CODE END ---');
+                } else {
+                    console.log('Metrics:', JSON.stringify(content.metrics));
+                }
+            }
+            if (verbosity === 'verbose') {
+                console.log('\n📤 Full Prompt Being Sent to Tandem:');
+                console.log(prompt);
+            }
+
+            const response = await this.http.request(this.baseUrl, {
                 method: 'POST',
                 headers: {
                     'Authorization': `Bearer ${apiKey}`,
@@ -61,24 +98,32 @@ export class TandemApiClient {
             });
 
             if (!response.ok) {
+                if (response.status === 401 || response.status === 403) {
+                    this.credentials.reportStatus(apiKey, false);
+                }
                 throw new Error(`API request failed: ${response.status} ${response.statusText}`);
             }
+            this.credentials.reportStatus(apiKey, true);
 
             const data = await response.json();
             
-            console.log('\n📥 === TANDEM API RESPONSE ===');
-            console.log('Status:', response.status, response.statusText);
-            console.log('Raw Tandem API Response:');
-            console.log(JSON.stringify(data, null, 2));
+            if (verbosity === 'verbose') {
+                console.log('\n📥 === TANDEM API RESPONSE ===');
+                console.log('Status:', response.status, response.statusText);
+                console.log('Raw Tandem API Response:');
+                console.log(JSON.stringify(data, null, 2));
+            }
             
             if (!data.choices || !data.choices[0] || !data.choices[0].message) {
                 throw new Error('Invalid response format from Tandemn API');
             }
 
             const analysisText = data.choices[0].message.content;
-            console.log('\n📊 Analysis Text from Tandem:');
-            console.log(analysisText);
-            console.log('\n=== END TANDEM RESPONSE ===\n');
+            if (verbosity !== 'quiet') {
+                console.log('\n📊 Analysis Text from Tandem:');
+                console.log(analysisText);
+                console.log('\n=== END TANDEM RESPONSE ===\n');
+            }
 
             // Parse the analysis response
             return this.parseAnalysisResponse(analysisText, languageId);
@@ -89,19 +134,8 @@ export class TandemApiClient {
         }
     }
 
-    private createAnalysisPrompt(code: string, languageId: string, fileExtension: string): string {
-        // Truncate code if too long to avoid token limits
-        const maxCodeLength = 2000;
-        const truncatedCode = code.length > maxCodeLength 
-            ? code.substring(0, maxCodeLength) + '\n... (truncated)'
-            : code;
-
-        return `Analyze this ${languageId} code for music generation purposes. 
-
-CODE TO ANALYZE:
-\`\`\`${languageId}
-${truncatedCode}
-\`\`\`
+    private createAnalysisPrompt(content: SendableContent, languageId: string, fileExtension: string): string {
+        return `${this.describeContent(content, languageId, fileExtension)}
 
 Please provide a JSON response with the following structure:
 {
@@ -128,6 +162,34 @@ For algorithms, prefer progressive building intensity (90-120 BPM).
 Return ONLY the JSON response, no additional text.`;
     }
 
+    private describeContent(content: SendableContent, languageId: string, fileExtension: string): string {
+        if (content.kind === 'metrics') {
+            const metrics = content.metrics;
+            return `Analyze a ${languageId} (.${fileExtension}) file for music generation purposes. The source itself is private; only these structural metrics are available.
+
+CODE METRICS:
+- Lines: ${metrics.lineCount} (${metrics.codeLineCount} lines of code)
+- Functions: ${metrics.functionCount}
+- Cyclomatic complexity: ${metrics.cyclomaticComplexity} (average ${metrics.averageFunctionComplexity} per function)
+- Maximum nesting depth: ${metrics.maxNestingDepth}
+`;
+        }
+
+        // Truncate code if too long to avoid token limits
+        const maxCodeLength = 2000;
+        const truncatedCode = content.code.length > maxCodeLength 
+            ? content.code.substring(0, maxCodeLength) + '\n... (truncated)'
+            : content.code;
+
+        return `Analyze this ${languageId} code for music generation purposes. 
+
+CODE TO ANALYZE:
+\`\`\`${languageId}
+${truncatedCode}
+\`\`\`
+`;
+    }
+
     private parseAnalysisResponse(analysisText: string, languageId: string): CodeAnalysis {
         try {
             // Try to extract JSON from the response
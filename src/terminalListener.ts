@@ -1,5 +1,9 @@
 import * as vscode from 'vscode';
 import { SuccessDetectionSystem } from './successDetectionSystem';
+import { FailureDetectionSystem } from './failureDetectionSystem';
+import { TestResultParser } from './testResultParser';
+import { SessionRecorder } from './sessionRecorder';
+import { PrivacyGuard, getLogVerbosity } from './privacyGuard';
 
 export interface TerminalEvent {
     type: 'success' | 'error' | 'warning' | 'info';
@@ -7,32 +11,45 @@ export interface TerminalEvent {
     timestamp: Date;
     exitCode?: number;
     command?: string;
+    taskName?: string;
+    origin?: 'task' | 'shell';
+}
+
+interface ShellExecutionCapture {
+    terminal: vscode.Terminal;
+    output: string;
+    done: Promise<void>;
 }
 
 export class TerminalListener implements vscode.Disposable {
     private disposables: vscode.Disposable[] = [];
     private isListening: boolean = false;
     private successDetectionSystem?: SuccessDetectionSystem;
-    private terminalDataListeners: Map<vscode.Terminal, vscode.Disposable> = new Map();
-
-    public startListening(successDetectionSystem: SuccessDetectionSystem): void {
+    private failureDetectionSystem?: FailureDetectionSystem;
+    private testResultParser = new TestResultParser();
+    private shellExecutions: Map<vscode.TerminalShellExecution, ShellExecutionCapture> = new Map();
+    private readonly maxCapturedOutput = 16 * 1024; // Only the tail of long outputs matters
+    private readonly outputDrainTimeout = 1000;
+
+    constructor(private sessionRecorder: SessionRecorder, private privacyGuard: PrivacyGuard) {}
+
+    public startListening(
+        successDetectionSystem: SuccessDetectionSystem,
+        failureDetectionSystem: FailureDetectionSystem
+    ): void {
         if (this.isListening) {
             return;
         }
 
         this.isListening = true;
         this.successDetectionSystem = successDetectionSystem;
+        this.failureDetectionSystem = failureDetectionSystem;
         
         console.log('CodeBeat: Starting terminal monitoring...');
 
-        // Monitor when terminals are created
-        const terminalCreateDisposable = vscode.window.onDidOpenTerminal((terminal) => {
-            this.attachToTerminal(terminal);
-        });
-
         // Monitor when terminals are closed
         const terminalCloseDisposable = vscode.window.onDidCloseTerminal((terminal) => {
-            this.detachFromTerminal(terminal);
+            this.onTerminalClosed(terminal);
         });
 
         // Monitor task execution
@@ -49,18 +66,23 @@ export class TerminalListener implements vscode.Disposable {
             this.onTaskProcessEnd(event);
         });
 
+        // Monitor commands typed into integrated terminals (requires shell integration)
+        const shellStartDisposable = vscode.window.onDidStartTerminalShellExecution((event) => {
+            this.onShellExecutionStart(event);
+        });
+
+        const shellEndDisposable = vscode.window.onDidEndTerminalShellExecution((event) => {
+            this.onShellExecutionEnd(event);
+        });
+
         this.disposables.push(
-            terminalCreateDisposable,
             terminalCloseDisposable,
             taskStartDisposable,
             taskEndDisposable,
-            taskProcessEndDisposable
+            taskProcessEndDisposable,
+            shellStartDisposable,
+            shellEndDisposable
         );
-
-        // Attach to existing terminals
-        vscode.window.terminals.forEach(terminal => {
-            this.attachToTerminal(terminal);
-        });
     }
 
     public stopListening(): void {
@@ -69,29 +91,114 @@ export class TerminalListener implements vscode.Disposable {
         this.dispose();
     }
 
-    private attachToTerminal(terminal: vscode.Terminal): void {
-        if (this.terminalDataListeners.has(terminal)) {
+    private onTerminalClosed(terminal: vscode.Terminal): void {
+        // Commands still running in a closed terminal will never report an end
+        this.shellExecutions.forEach((capture, execution) => {
+            if (capture.terminal === terminal) {
+                this.shellExecutions.delete(execution);
+            }
+        });
+    }
+
+    private onShellExecutionStart(event: vscode.TerminalShellExecutionStartEvent): void {
+        if (!this.isListening) {
             return;
         }
 
-        console.log(`CodeBeat: Attaching to terminal: ${terminal.name}`);
+        console.log(`CodeBeat: Command started in ${event.terminal.name} - ${event.execution.commandLine.value}`);
 
-        // Note: VSCode doesn't provide direct access to terminal output
-        // We'll rely on task monitoring and file system watching instead
-        // This is a limitation of the VSCode API for security reasons
-        
-        // We can still track terminal state changes
-        const disposable = vscode.Disposable.from();
-        this.terminalDataListeners.set(terminal, disposable);
+        const capture: ShellExecutionCapture = {
+            terminal: event.terminal,
+            output: '',
+            done: Promise.resolve()
+        };
+        // read() must be called right away, otherwise early output is lost
+        capture.done = this.readShellOutput(event.execution, capture);
+        this.shellExecutions.set(event.execution, capture);
+    }
+
+    private async readShellOutput(execution: vscode.TerminalShellExecution, capture: ShellExecutionCapture): Promise<void> {
+        try {
+            for await (const data of execution.read()) {
+                capture.output = (capture.output + this.stripAnsi(data)).slice(-this.maxCapturedOutput);
+            }
+        } catch (error) {
+            console.log('CodeBeat: Failed to read terminal output:', error);
+        }
+    }
+
+    private async onShellExecutionEnd(event: vscode.TerminalShellExecutionEndEvent): Promise<void> {
+        const capture = this.shellExecutions.get(event.execution);
+        this.shellExecutions.delete(event.execution);
+
+        if (!this.isListening || !this.successDetectionSystem) {
+            return;
+        }
+
+        // Let the output stream drain, but don't wait forever on a stuck stream
+        if (capture) {
+            await Promise.race([
+                capture.done,
+                new Promise(resolve => setTimeout(resolve, this.outputDrainTimeout))
+            ]);
+        }
+
+        const command = event.execution.commandLine.value;
+        const exitCode = event.exitCode;
+        const output = capture ? capture.output.trim() : '';
+
+        console.log(`CodeBeat: Command ended in ${event.terminal.name} - ${command}, exit code: ${exitCode}`);
+
+        const terminalEvent: TerminalEvent = {
+            type: this.getShellEventType(exitCode, output),
+            message: output || `Command ${command} ${exitCode === 0 ? 'succeeded' : 'failed'}`,
+            timestamp: new Date(),
+            exitCode: exitCode,
+            command: command,
+            taskName: event.terminal.name,
+            origin: 'shell'
+        };
+
+        const handledAsTestRun = this.processTerminalEvent(terminalEvent);
+
+        // Exit code 0 from a build/test/deploy command is a success even without recognizable output
+        if (exitCode === 0 && !handledAsTestRun) {
+            this.successDetectionSystem.detectSuccess({
+                type: 'task_success',
+                details: {
+                    taskName: event.terminal.name,
+                    taskType: 'terminal',
+                    command: command,
+                    exitCode: exitCode
+                },
+                timestamp: new Date()
+            });
+        }
     }
 
-    private detachFromTerminal(terminal: vscode.Terminal): void {
-        const disposable = this.terminalDataListeners.get(terminal);
-        if (disposable) {
-            disposable.dispose();
-            this.terminalDataListeners.delete(terminal);
+    private getShellEventType(exitCode: number | undefined, output: string): TerminalEvent['type'] {
+        if (exitCode !== undefined) {
+            return exitCode === 0 ? 'success' : 'error';
         }
-        console.log(`CodeBeat: Detached from terminal: ${terminal.name}`);
+
+        // Some shells can't report the exit code; fall back to the output itself
+        const patterns = this.analyzeEventMessage(output, 'info');
+        if (patterns.some(pattern => pattern.startsWith('error:'))) {
+            return 'error';
+        }
+        if (patterns.some(pattern => pattern.startsWith('success:') || pattern.startsWith('build:'))) {
+            return 'success';
+        }
+        return 'info';
+    }
+
+    private stripAnsi(data: string): string {
+        // CSI and OSC escape sequences, plus carriage returns from progress bars
+        return data
+            .replace(/\x1b\[[0-9;?]*[ -\/]*[@-~]/g, '')
+            .replace(/\x1b\][^\x07\x1b]*(\x07|\x1b\\)/g, '')
+            .replace(/\r(?!\n)/g, '\n')
+            .replace(/\r/g, '');
     }
 
     private onTaskStart(event: vscode.TaskStartEvent): void {
@@ -143,13 +250,15 @@ export class TerminalListener implements vscode.Disposable {
             message: `Task ${task.name} ${exitCode === 0 ? 'succeeded' : 'failed'}`,
             timestamp: new Date(),
             exitCode: exitCode,
-            command: this.getTaskCommand(task)
+            command: this.getTaskCommand(task),
+            taskName: task.name,
+            origin: 'task'
         };
 
-        this.processTerminalEvent(taskEvent);
+        const handledAsTestRun = this.processTerminalEvent(taskEvent);
 
         // Trigger success detection if task succeeded
-        if (exitCode === 0) {
+        if (exitCode === 0 && !handledAsTestRun) {
             this.successDetectionSystem.detectSuccess({
                 type: 'task_success',
                 details: {
@@ -173,12 +282,47 @@ export class TerminalListener implements vscode.Disposable {
         return task.name;
     }
 
-    private processTerminalEvent(event: TerminalEvent): void {
+    /**
+     * Returns true when the output was a test runner summary, which
+     * `handleTestResult` already celebrated (or deliberately did not).
+     */
+    private processTerminalEvent(event: TerminalEvent): boolean {
         // Analyze the event for patterns
         const patterns = this.analyzeEventMessage(event.message, event.type);
         
-        // Log the event
-        console.log(`CodeBeat: Terminal event - ${event.type}: ${event.message}`, patterns);
+        // Command output can contain secrets, and only verbose logs show it at all
+        const message = this.privacyGuard.redactForLog(event.message);
+        const verbosity = getLogVerbosity();
+        if (verbosity === 'verbose') {
+            console.log(`CodeBeat: Terminal event - ${event.type}: ${message}`, patterns);
+        } else if (verbosity === 'normal') {
+            console.log(`CodeBeat: Terminal event - ${event.type}: ${event.command || event.taskName || 'unknown command'}`, patterns);
+        }
+        this.sessionRecorder.record('terminal_event', { ...event, message });
+
+        if (event.type === 'success' && this.failureDetectionSystem) {
+            // A passing run ends the failure streak for this command
+            this.failureDetectionSystem.recordSuccess(event.taskName || '', event.command || '');
+        }
+
+        // Failed commands get a setback sting and debugging music
+        if (event.type === 'error' && this.failureDetectionSystem) {
+            this.failureDetectionSystem.detectFailure({
+                taskName: event.taskName || '',
+                command: event.command || '',
+                origin: event.origin || 'task',
+                exitCode: event.exitCode,
+                output: event.message,
+                timestamp: event.timestamp
+            });
+        }
+
+        // Test runner summaries get a celebration sized to the run
+        const testResult = this.testResultParser.parse(event.message, event.command);
+        if (testResult && this.successDetectionSystem) {
+            this.successDetectionSystem.handleTestResult(testResult, event.command || '');
+            return true;
+        }
 
         // Check for success patterns in the message
         if (event.type === 'success' && this.successDetectionSystem) {
@@ -193,6 +337,7 @@ export class TerminalListener implements vscode.Disposable {
                 timestamp: event.timestamp
             });
         }
+        return false;
     }
 
     private analyzeEventMessage(message: string, eventType: string): string[] {
@@ -264,9 +409,7 @@ export class TerminalListener implements vscode.Disposable {
     public dispose(): void {
         this.isListening = false;
         
-        // Dispose of all terminal listeners
-        this.terminalDataListeners.forEach(disposable => disposable.dispose());
-        this.terminalDataListeners.clear();
+        this.shellExecutions.clear();
         
         // Dispose of all other listeners
         this.disposables.forEach(d => d.dispose());
@@ -0,0 +1,15 @@
+/**
+ * Loaded by mocha before the unit tests (see .mocharc.json): makes
+ * `import * as vscode from 'vscode'` resolve to the fake in this folder.
+ */
+const Module = require('module');
+
+const fakePath = require.resolve('./vscode');
+const originalResolveFilename = Module._resolveFilename;
+
+Module._resolveFilename = function (this: unknown, request: string, ...rest: unknown[]) {
+    if (request === 'vscode') {
+        return fakePath;
+    }
+    return originalResolveFilename.call(this, request, ...rest);
+};
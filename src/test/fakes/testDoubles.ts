@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import { MusicBackend, MusicTriggerType, CelebrationType, CelebrationIntensity, CodeContext, TrackInfo } from '../../musicBackend';
+import { MusicParameters } from '../../musicParameterGenerator';
+import { MusicProfile, MusicProfileStore } from '../../musicProfile';
+import { SunoApiResponse } from '../../sunoApiClient';
+import { SessionRecorder } from '../../sessionRecorder';
+import { SuccessRuleStore } from '../../successRules';
+import { SuccessPattern } from '../../successDetectionSystem';
+import { CodeAnalysis } from '../../tandemApiClient';
+
+/** A MusicBackend that only records what it was asked to play. */
+export class RecordingMusicBackend implements MusicBackend {
+    public readonly id = 'recording';
+    public readonly generated: { params: MusicParameters; triggerType: MusicTriggerType; codeContext?: CodeContext }[] = [];
+    public readonly celebrations: { celebrationType: CelebrationType; context?: string; intensity?: CelebrationIntensity }[] = [];
+    private trackEmitter = new vscode.EventEmitter<TrackInfo>();
+    public readonly onDidChangeTrack = this.trackEmitter.event;
+    private muted = false;
+
+    public async generateMusic(params: MusicParameters, triggerType: MusicTriggerType, codeContext?: CodeContext): Promise<SunoApiResponse> {
+        this.generated.push({ params, triggerType, codeContext });
+        return this.createResponse(params);
+    }
+
+    public async generateCelebration(celebrationType: CelebrationType, context?: string, intensity?: CelebrationIntensity): Promise<SunoApiResponse> {
+        this.celebrations.push({ celebrationType, context, intensity });
+        return { id: `celebration_${this.celebrations.length}`, status: 'complete', metadata: { bpm: 120, genre: 'test', duration: 30 } };
+    }
+
+    public playTrack(): void {}
+
+    public stop(): void {}
+
+    public mute(muted: boolean): void {
+        this.muted = muted;
+    }
+
+    public isMuted(): boolean {
+        return this.muted;
+    }
+
+    public isAudioPlaying(): boolean {
+        return false;
+    }
+
+    private createResponse(params: MusicParameters): SunoApiResponse {
+        return {
+            id: `track_${this.generated.length}`,
+            status: 'complete',
+            metadata: { bpm: params.bpm, genre: params.genre, duration: params.duration }
+        };
+    }
+
+    public dispose(): void {
+        this.trackEmitter.dispose();
+    }
+}
+
+/** A profile store that always returns the given profile, empty by default. */
+export function createProfileStore(profile: Partial<MusicProfile> = {}): MusicProfileStore {
+    const fullProfile: MusicProfile = {
+        preferredGenres: [],
+        bannedInstruments: [],
+        complexity: {},
+        languages: {},
+        severity: {},
+        celebrations: {},
+        ...profile
+    };
+    return { getProfile: () => fullProfile } as unknown as MusicProfileStore;
+}
+
+export function createSessionRecorder(): SessionRecorder {
+    return { record: () => undefined } as unknown as SessionRecorder;
+}
+
+/** A rule store as if `.codebeat/rules.json` held only the given patterns. */
+export function createSuccessRules(patterns: SuccessPattern[] = []): SuccessRuleStore {
+    return {
+        getSuccessPatterns: () => patterns,
+        getCommandMatchers: () => []
+    } as unknown as SuccessRuleStore;
+}
+
+export function createMemento(): vscode.Memento {
+    const values: Map<string, unknown> = new Map();
+    return {
+        keys: () => [...values.keys()],
+        get: <T>(key: string, defaultValue?: T) => values.has(key) ? values.get(key) as T : defaultValue,
+        update: async (key: string, value: unknown) => {
+            values.set(key, value);
+        }
+    } as vscode.Memento;
+}
+
+export function createAnalysis(overrides: Partial<CodeAnalysis> = {}): CodeAnalysis {
+    return {
+        complexity: 'moderate',
+        mood: 'focused',
+        patterns: [],
+        codeType: 'utility',
+        recommendedBPM: 90,
+        energy: 5,
+        genre: 'ambient',
+        description: 'Test analysis',
+        ...overrides
+    };
+}
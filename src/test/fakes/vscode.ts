@@ -0,0 +1,257 @@
+/**
+ * A small stand-in for the `vscode` module so unit tests run in plain Node,
+ * without an editor and without network access. Only the parts of the API
+ * the tested components use are implemented. Tests set up editors,
+ * diagnostics and settings through `fake` at the bottom of this file.
+ */
+
+type Listener<T> = (event: T) => unknown;
+
+export class Disposable {
+    constructor(private callOnDispose: () => void) {}
+
+    public static from(...disposables: { dispose(): unknown }[]): Disposable {
+        return new Disposable(() => disposables.forEach(d => d.dispose()));
+    }
+
+    public dispose(): void {
+        this.callOnDispose();
+    }
+}
+
+export class EventEmitter<T> {
+    private listeners: Set<Listener<T>> = new Set();
+
+    public readonly event = (listener: Listener<T>, thisArgs?: unknown, disposables?: Disposable[]): Disposable => {
+        const bound: Listener<T> = event => listener.call(thisArgs, event);
+        this.listeners.add(bound);
+        const disposable = new Disposable(() => this.listeners.delete(bound));
+        disposables?.push(disposable);
+        return disposable;
+    };
+
+    public fire(event: T): void {
+        [...this.listeners].forEach(listener => listener(event));
+    }
+
+    public dispose(): void {
+        this.listeners.clear();
+    }
+}
+
+export enum DiagnosticSeverity {
+    Error = 0,
+    Warning = 1,
+    Information = 2,
+    Hint = 3
+}
+
+export enum ConfigurationTarget {
+    Global = 1,
+    Workspace = 2,
+    WorkspaceFolder = 3
+}
+
+export enum StatusBarAlignment {
+    Left = 1,
+    Right = 2
+}
+
+export enum ProgressLocation {
+    SourceControl = 1,
+    Window = 10,
+    Notification = 15
+}
+
+export class Position {
+    constructor(public readonly line: number, public readonly character: number) {}
+}
+
+export class Range {
+    public readonly start: Position;
+    public readonly end: Position;
+
+    constructor(startLine: number, startCharacter: number, endLine: number, endCharacter: number) {
+        this.start = new Position(startLine, startCharacter);
+        this.end = new Position(endLine, endCharacter);
+    }
+}
+
+export class Diagnostic {
+    public source?: string;
+
+    constructor(public range: Range, public message: string, public severity: DiagnosticSeverity = DiagnosticSeverity.Error) {}
+}
+
+export class ThemeColor {
+    constructor(public readonly id: string) {}
+}
+
+export class Uri {
+    private constructor(public readonly scheme: string, public readonly fsPath: string) {}
+
+    public static file(fsPath: string): Uri {
+        return new Uri('file', fsPath);
+    }
+
+    public static parse(value: string): Uri {
+        const match = /^([a-z][a-z0-9+.-]*):\/\/(.*)$/i.exec(value);
+        return match ? new Uri(match[1], match[2]) : Uri.file(value);
+    }
+
+    public static joinPath(base: Uri, ...segments: string[]): Uri {
+        return new Uri(base.scheme, [base.fsPath, ...segments].join('/'));
+    }
+
+    public get path(): string {
+        return this.fsPath;
+    }
+
+    public toString(): string {
+        return `${this.scheme}://${this.fsPath}`;
+    }
+}
+
+interface FakeTextDocument {
+    uri: Uri;
+    fileName: string;
+    languageId: string;
+    lineCount: number;
+    getText(): string;
+}
+
+export interface ShownMessage {
+    level: 'information' | 'warning' | 'error';
+    message: string;
+}
+
+const settings: Map<string, unknown> = new Map();
+const diagnosticsByUri: Map<string, Diagnostic[]> = new Map();
+const shownMessages: ShownMessage[] = [];
+const configurationEmitter = new EventEmitter<{ affectsConfiguration(section: string): boolean }>();
+const diagnosticsEmitter = new EventEmitter<{ uris: Uri[] }>();
+const activeEditorEmitter = new EventEmitter<unknown>();
+const workspaceFoldersEmitter = new EventEmitter<{ added: unknown[]; removed: unknown[] }>();
+
+function showMessage(level: ShownMessage['level']) {
+    return (message: string, ..._items: unknown[]): Promise<undefined> => {
+        shownMessages.push({ level, message });
+        return Promise.resolve(undefined);
+    };
+}
+
+function createFileSystemWatcher() {
+    const created = new EventEmitter<Uri>();
+    const changed = new EventEmitter<Uri>();
+    const deleted = new EventEmitter<Uri>();
+    return {
+        onDidCreate: created.event,
+        onDidChange: changed.event,
+        onDidDelete: deleted.event,
+        dispose: () => undefined
+    };
+}
+
+export const workspace = {
+    workspaceFolders: undefined as unknown[] | undefined,
+    getConfiguration: (section?: string) => {
+        const fullKey = (key: string) => section ? `${section}.${key}` : key;
+        return {
+            get: <T>(key: string, defaultValue?: T): T | undefined =>
+                settings.has(fullKey(key)) ? settings.get(fullKey(key)) as T : defaultValue,
+            has: (key: string) => settings.has(fullKey(key)),
+            inspect: () => undefined,
+            update: async (key: string, value: unknown) => fake.setConfiguration({ [fullKey(key)]: value })
+        };
+    },
+    onDidChangeConfiguration: configurationEmitter.event,
+    onDidChangeWorkspaceFolders: workspaceFoldersEmitter.event,
+    onDidChangeTextDocument: new EventEmitter<unknown>().event,
+    createFileSystemWatcher,
+    fs: {
+        readFile: async (uri: Uri): Promise<Uint8Array> => {
+            throw new Error(`File not found: ${uri.fsPath}`);
+        }
+    },
+    asRelativePath: (pathOrUri: string | Uri) => typeof pathOrUri === 'string' ? pathOrUri : pathOrUri.fsPath,
+    getWorkspaceFolder: () => undefined
+};
+
+export const window = {
+    activeTextEditor: undefined as { document: FakeTextDocument } | undefined,
+    onDidChangeActiveTextEditor: activeEditorEmitter.event,
+    showInformationMessage: showMessage('information'),
+    showWarningMessage: showMessage('warning'),
+    showErrorMessage: showMessage('error'),
+    createOutputChannel: (name: string) => ({
+        name,
+        append: () => undefined,
+        appendLine: () => undefined,
+        clear: () => undefined,
+        show: () => undefined,
+        hide: () => undefined,
+        dispose: () => undefined
+    })
+};
+
+export const languages = {
+    onDidChangeDiagnostics: diagnosticsEmitter.event,
+    getDiagnostics: (uri: Uri): Diagnostic[] => diagnosticsByUri.get(uri.toString()) ?? [],
+    createDiagnosticCollection: (name: string) => ({
+        name,
+        set: () => undefined,
+        delete: () => undefined,
+        clear: () => undefined,
+        dispose: () => undefined
+    }),
+    match: () => 0
+};
+
+export const commands = {
+    executeCommand: async () => undefined,
+    registerCommand: () => new Disposable(() => undefined)
+};
+
+/** Controls for tests; not part of the real `vscode` API. */
+export const fake = {
+    /** Sets `codebeat.*` style keys, e.g. `{ 'codebeat.enabled': false }`. */
+    setConfiguration(values: { [key: string]: unknown }): void {
+        Object.entries(values).forEach(([key, value]) => settings.set(key, value));
+        configurationEmitter.fire({
+            affectsConfiguration: section => Object.keys(values).some(key => key === section || key.startsWith(`${section}.`))
+        });
+    },
+
+    openEditor(fileName: string, text = '', languageId = 'typescript'): FakeTextDocument {
+        const document: FakeTextDocument = {
+            uri: Uri.file(fileName),
+            fileName,
+            languageId,
+            lineCount: text.split('\n').length,
+            getText: () => text
+        };
+        window.activeTextEditor = { document };
+        activeEditorEmitter.fire(window.activeTextEditor);
+        return document;
+    },
+
+    /** Replaces the diagnostics of a file and fires `onDidChangeDiagnostics`. */
+    setDiagnostics(uri: Uri, severities: DiagnosticSeverity[]): void {
+        diagnosticsByUri.set(uri.toString(), severities.map((severity, index) =>
+            new Diagnostic(new Range(index, 0, index, 1), `Problem ${index + 1}`, severity)
+        ));
+        diagnosticsEmitter.fire({ uris: [uri] });
+    },
+
+    getMessages(): ShownMessage[] {
+        return [...shownMessages];
+    },
+
+    reset(): void {
+        settings.clear();
+        diagnosticsByUri.clear();
+        shownMessages.length = 0;
+        window.activeTextEditor = undefined;
+        workspace.workspaceFolders = undefined;
+    }
+};
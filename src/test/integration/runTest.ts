@@ -0,0 +1,45 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runTests } from '@vscode/test-electron';
+
+/**
+ * Starts VS Code with the extension under development and runs the suite in
+ * `./suite`. VS Code is downloaded into `.vscode-test/` on the first run;
+ * set CODEBEAT_VSCODE_EXECUTABLE to use an installed or pre-downloaded copy
+ * instead, e.g. on a machine without network access. On Linux without a
+ * display, run it under `xvfb-run -a`.
+ */
+async function main(): Promise<void> {
+    const extensionDevelopmentPath = path.resolve(__dirname, '../../../');
+    const extensionTestsPath = path.resolve(__dirname, './suite/index');
+    const workspacePath = createTestWorkspace();
+
+    try {
+        await runTests({
+            extensionDevelopmentPath,
+            extensionTestsPath,
+            vscodeExecutablePath: process.env.CODEBEAT_VSCODE_EXECUTABLE || undefined,
+            launchArgs: [workspacePath, '--disable-extensions', '--disable-workspace-trust']
+        });
+    } finally {
+        fs.rmSync(workspacePath, { recursive: true, force: true });
+    }
+}
+
+/** A throwaway workspace that keeps the extension off the network. */
+function createTestWorkspace(): string {
+    const workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), 'codebeat-test-'));
+    fs.mkdirSync(path.join(workspacePath, '.vscode'));
+    fs.writeFileSync(path.join(workspacePath, '.vscode', 'settings.json'), JSON.stringify({
+        'codebeat.backend': 'local',
+        'codebeat.analysisEngine': 'local'
+    }, null, 4));
+    fs.writeFileSync(path.join(workspacePath, 'index.ts'), 'export const answer: number = 42;\n');
+    return workspacePath;
+}
+
+main().catch(error => {
+    console.error('CodeBeat: Integration tests failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+suite('Extension', () => {
+    const extensionId = 'codebeat.codebeat';
+
+    suiteSetup(async () => {
+        await vscode.extensions.getExtension(extensionId)?.activate();
+    });
+
+    test('activates', () => {
+        assert.strictEqual(vscode.extensions.getExtension(extensionId)?.isActive, true);
+    });
+
+    test('registers every contributed command', async () => {
+        const contributed: { command: string }[] = vscode.extensions.getExtension(extensionId)?.packageJSON.contributes.commands;
+        const registered = await vscode.commands.getCommands(true);
+
+        const missing = contributed.map(({ command }) => command).filter(command => !registered.includes(command));
+        assert.deepStrictEqual(missing, []);
+    });
+
+    test('uses the workspace settings that keep it off the network', () => {
+        const config = vscode.workspace.getConfiguration('codebeat');
+
+        assert.strictEqual(config.get('backend'), 'local');
+        assert.strictEqual(config.get('analysisEngine'), 'local');
+    });
+
+    test('plays and stops from the command palette', async () => {
+        await vscode.commands.executeCommand('codebeat.play');
+        await vscode.commands.executeCommand('codebeat.stop');
+    });
+});
@@ -0,0 +1,22 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Mocha = require('mocha');
+
+/** Entry point VS Code calls inside the extension host to run the suite. */
+export function run(): Promise<void> {
+    const mocha = new Mocha({ ui: 'tdd', color: true, timeout: 20000 });
+
+    fs.readdirSync(__dirname)
+        .filter(file => file.endsWith('.test.js'))
+        .forEach(file => mocha.addFile(path.join(__dirname, file)));
+
+    return new Promise((resolve, reject) => {
+        mocha.run(failures => {
+            if (failures > 0) {
+                reject(new Error(`${failures} integration test(s) failed`));
+            } else {
+                resolve();
+            }
+        });
+    });
+}
@@ -0,0 +1,130 @@
+import * as assert from 'assert';
+import { DiagnosticTracker } from '../../diagnosticTracker';
+import { MusicParameterGenerator } from '../../musicParameterGenerator';
+import { CelebrationRegistry } from '../../celebrationRegistry';
+import { DiagnosticSeverity, Uri, fake } from '../fakes/vscode';
+import { RecordingMusicBackend, createProfileStore, createSessionRecorder } from '../fakes/testDoubles';
+
+const error = DiagnosticSeverity.Error;
+const warning = DiagnosticSeverity.Warning;
+const information = DiagnosticSeverity.Information;
+
+suite('DiagnosticTracker', () => {
+    let backend: RecordingMusicBackend;
+    let tracker: DiagnosticTracker;
+    let fileUri: Uri;
+
+    // Applies new diagnostics right away instead of after the debounce delay
+    const showDiagnostics = (severities: DiagnosticSeverity[]) => {
+        fake.setDiagnostics(fileUri, severities);
+        tracker['updateDiagnosticSummary']();
+    };
+    const messages = () => fake.getMessages().map(shown => shown.message);
+
+    setup(() => {
+        fake.reset();
+        fileUri = fake.openEditor('/workspace/src/app.ts', 'const answer = 42;\n').uri;
+        backend = new RecordingMusicBackend();
+        tracker = new DiagnosticTracker(
+            new MusicParameterGenerator(new CelebrationRegistry(), createProfileStore()),
+            backend,
+            createSessionRecorder()
+        );
+    });
+
+    teardown(() => {
+        tracker.dispose();
+        backend.dispose();
+    });
+
+    test('plays error feedback for the diagnostics of the active file when tracking starts', () => {
+        fake.setDiagnostics(fileUri, [error, error, warning, information]);
+        tracker.startTracking();
+
+        const summary = tracker.getCurrentDiagnosticSummary();
+        assert.strictEqual(summary?.errorCount, 2);
+        assert.strictEqual(summary?.warningCount, 1);
+        assert.strictEqual(summary?.infoCount, 1);
+        assert.strictEqual(summary?.totalCount, 4);
+        assert.strictEqual(backend.generated.length, 1);
+        assert.strictEqual(backend.generated[0].triggerType, 'error_feedback');
+        assert.strictEqual(backend.generated[0].params.complexity, 'medium');
+        assert.strictEqual(backend.generated[0].codeContext?.fileName, '/workspace/src/app.ts');
+    });
+
+    test('waits for diagnostics to settle before updating', () => {
+        tracker.startTracking();
+        fake.setDiagnostics(fileUri, [error]);
+        fake.setDiagnostics(fileUri, [error, error]);
+
+        assert.strictEqual(backend.generated.length, 1);
+        assert.ok(tracker['musicUpdateTimer']);
+    });
+
+    test('ignores diagnostics of files other than the active one', () => {
+        tracker.startTracking();
+        fake.setDiagnostics(Uri.file('/workspace/src/other.ts'), [error]);
+
+        assert.strictEqual(tracker['musicUpdateTimer'], undefined);
+    });
+
+    test('counts fewer errors, or fewer warnings at the same errors, as improvement', () => {
+        const summary = (errorCount: number, warningCount: number) =>
+            ({ errorCount, warningCount, infoCount: 0, hintCount: 0, totalCount: errorCount + warningCount, timestamp: new Date() });
+        const hasImproved = (previous: ReturnType<typeof summary>, current: ReturnType<typeof summary>): boolean =>
+            tracker['hasImproved'](previous, current);
+
+        assert.strictEqual(hasImproved(summary(3, 0), summary(2, 5)), true);
+        assert.strictEqual(hasImproved(summary(2, 4), summary(2, 3)), true);
+        assert.strictEqual(hasImproved(summary(2, 3), summary(2, 3)), false);
+        assert.strictEqual(hasImproved(summary(2, 0), summary(3, 0)), false);
+        assert.strictEqual(tracker['hasImproved'](undefined, summary(0, 0)), false);
+    });
+
+    test('plays hopeful music when errors go down', () => {
+        showDiagnostics([error, error, error, error]);
+        showDiagnostics([error, error]);
+
+        assert.strictEqual(backend.generated[1].params.mood, 'hopeful');
+        assert.ok(backend.generated[1].params.tags.includes('improvement'));
+    });
+
+    test('celebrates a bug fix when the last error is resolved', () => {
+        showDiagnostics([error, error, warning]);
+        showDiagnostics([warning]);
+
+        assert.deepStrictEqual(backend.celebrations, [{ celebrationType: 'bug_fix', context: 'Fixed 2 errors', intensity: undefined }]);
+        assert.ok(messages().some(message => message.includes('All errors resolved! Fixed 2 error(s)')));
+    });
+
+    test('cheers on a drop of three or more errors without a celebration', () => {
+        showDiagnostics([error, error, error, error, error]);
+        showDiagnostics([error, error]);
+
+        assert.strictEqual(backend.celebrations.length, 0);
+        assert.ok(messages().some(message => message.includes('Great progress! Resolved 3 error(s)')));
+    });
+
+    test('stays quiet for smaller improvements', () => {
+        showDiagnostics([error, error, warning, warning]);
+        showDiagnostics([error, warning]);
+        showDiagnostics([error]);
+
+        assert.strictEqual(backend.celebrations.length, 0);
+        assert.deepStrictEqual(messages(), []);
+    });
+
+    test('does not celebrate a file that never had errors', () => {
+        showDiagnostics([warning]);
+        showDiagnostics([]);
+
+        assert.strictEqual(backend.celebrations.length, 0);
+    });
+
+    test('does not play music while the extension is disabled', () => {
+        fake.setConfiguration({ 'codebeat.enabled': false });
+        showDiagnostics([error]);
+
+        assert.strictEqual(backend.generated.length, 0);
+    });
+});
@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import { FailureDetectionSystem, FailureEvent } from '../../failureDetectionSystem';
+import { MusicParameterGenerator } from '../../musicParameterGenerator';
+import { CelebrationRegistry } from '../../celebrationRegistry';
+import { isBuildCommand, isTestCommand, isDeployCommand } from '../../commandClassifier';
+import { fake } from '../fakes/vscode';
+import { RecordingMusicBackend, createProfileStore, createSessionRecorder, createSuccessRules } from '../fakes/testDoubles';
+
+suite('FailureDetectionSystem', () => {
+    let backend: RecordingMusicBackend;
+    let system: FailureDetectionSystem;
+
+    const failure = (command: string, output: string, origin: FailureEvent['origin'], exitCode = 1): FailureEvent =>
+        ({ taskName: origin === 'shell' ? 'bash' : command, command, origin, exitCode, output, timestamp: new Date() });
+    const classify = (event: FailureEvent) => system['classifyFailure'](event);
+
+    setup(() => {
+        fake.reset();
+        backend = new RecordingMusicBackend();
+        system = new FailureDetectionSystem(
+            new MusicParameterGenerator(new CelebrationRegistry(), createProfileStore()),
+            backend,
+            createSuccessRules(),
+            createSessionRecorder()
+        );
+    });
+
+    teardown(() => {
+        backend.dispose();
+    });
+
+    suite('command classification', () => {
+        test('recognizes programs and runner scripts as whole words', () => {
+            assert.ok(isTestCommand('bash', 'npx jest --watch'));
+            assert.ok(isTestCommand('bash', 'npm run test:unit'));
+            assert.ok(isTestCommand('bash', 'python -m pytest tests/'));
+            assert.ok(isTestCommand('bash', 'CI=1 go test ./...'));
+            assert.ok(isBuildCommand('bash', 'cargo build --release'));
+            assert.ok(isBuildCommand('bash', 'make -j8'));
+            assert.ok(isDeployCommand('bash', 'docker push registry/app:latest'));
+            assert.ok(isDeployCommand('ship', 'npm publish'));
+        });
+
+        test('ignores keywords inside other words and unrelated subcommands', () => {
+            assert.ok(!isTestCommand('bash', 'javac Foo.java'));
+            assert.ok(!isTestCommand('bash', 'cat latest.log'));
+            assert.ok(!isDeployCommand('bash', 'git push origin main'));
+            assert.ok(!isBuildCommand('bash', 'make lint'));
+        });
+
+        test('checks every command of a chained command line', () => {
+            assert.ok(isTestCommand('bash', 'cd app && npm test'));
+        });
+    });
+
+    test('classifies a failed task by its command', () => {
+        assert.strictEqual(classify(failure('npm test', '', 'task')), 'test_failure');
+        assert.strictEqual(classify(failure('npm run build', '', 'task')), 'compile_error');
+    });
+
+    test('needs failure output before a terminal command gets a sting', () => {
+        assert.strictEqual(classify(failure('npm test', 'Error: connect ECONNREFUSED', 'shell')), null);
+        assert.strictEqual(classify(failure('git push', 'rejected: non-fast-forward', 'shell')), null);
+        assert.strictEqual(classify(failure('npm test', '  3 failing', 'shell')), 'test_failure');
+        assert.strictEqual(classify(failure('javac Foo.java', "Foo.java:3: error: ';' expected", 'shell')), 'compile_error');
+    });
+
+    test('plays nothing for a command stopped with Ctrl+C', () => {
+        system.detectFailure(failure('npm test', '  3 failing', 'shell', 130));
+        system.detectFailure(failure('npm run watch', 'Terminated', 'task', 143));
+
+        assert.deepStrictEqual(backend.generated, []);
+        assert.deepStrictEqual(fake.getMessages(), []);
+    });
+});
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { GenerationQueue, GenerationRequest, getTriggerPriority, getPlaybackChannel } from '../../generationQueue';
+import { MusicTriggerType } from '../../musicBackend';
+import { MusicParameters } from '../../musicParameterGenerator';
+
+suite('GenerationQueue', () => {
+    let queue: GenerationQueue;
+    let nextId: number;
+
+    const request = (triggerType: MusicTriggerType, context = ''): GenerationRequest => ({
+        id: `request_${nextId++}`,
+        params: { context } as MusicParameters,
+        triggerType,
+        priority: getTriggerPriority(triggerType),
+        channel: getPlaybackChannel(triggerType),
+        enqueuedAt: nextId,
+        resolve: () => undefined
+    });
+    const pendingIds = () => queue.getPending().map(pending => pending.id);
+
+    setup(() => {
+        queue = new GenerationQueue();
+        nextId = 1;
+    });
+
+    test('orders requests by priority, then by age', () => {
+        const analysis = request('code_analysis');
+        const error = request('error_feedback');
+        const celebration = request('success_celebration');
+        const sting = request('failure_sting');
+        [analysis, error, celebration, sting].forEach(queued => queue.enqueue(queued));
+
+        assert.deepStrictEqual(pendingIds(), [celebration.id, sting.id, error.id, analysis.id]);
+    });
+
+    test('replaces a waiting background request of the same trigger type', () => {
+        const first = request('code_analysis', 'a.ts');
+        const debug = request('debug_session');
+        queue.enqueue(first);
+        queue.enqueue(debug);
+
+        const second = request('code_analysis', 'b.ts');
+        assert.deepStrictEqual(queue.enqueue(second), [first]);
+        assert.deepStrictEqual(pendingIds(), [debug.id, second.id]);
+    });
+
+    test('keeps every waiting celebration and sting', () => {
+        const testPass = request('success_celebration', 'test_pass');
+        const commit = request('success_celebration', 'commit');
+        const firstSting = request('failure_sting');
+        const secondSting = request('failure_sting');
+
+        const superseded = [testPass, commit, firstSting, secondSting].flatMap(queued => queue.enqueue(queued));
+
+        assert.deepStrictEqual(superseded, []);
+        assert.deepStrictEqual(pendingIds(), [testPass.id, commit.id, firstSting.id, secondSting.id]);
+    });
+
+    test('hands out the first request that is not blocked', () => {
+        const celebration = request('success_celebration');
+        const analysis = request('code_analysis');
+        queue.enqueue(celebration);
+        queue.enqueue(analysis);
+
+        assert.strictEqual(queue.takeNext(queued => queued.channel === 'interrupt'), analysis);
+        assert.deepStrictEqual(pendingIds(), [celebration.id]);
+    });
+});
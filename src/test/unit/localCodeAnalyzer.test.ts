@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import { LocalCodeAnalyzer } from '../../localCodeAnalyzer';
+
+suite('LocalCodeAnalyzer recursion detection', () => {
+    const analyzer = new LocalCodeAnalyzer();
+    const patterns = (code: string, languageId: string, extension: string) => analyzer.analyzeCode(code, languageId, extension).patterns;
+
+    test('finds a function that calls itself', () => {
+        const code = [
+            'function factorial(n: number): number {',
+            '    if (n <= 1) { return 1; }',
+            '    return n * factorial(n - 1);',
+            '}'
+        ].join('\n');
+
+        assert.ok(patterns(code, 'typescript', 'ts').includes('recursion'));
+    });
+
+    test('ignores a helper that is only called from elsewhere', () => {
+        const code = [
+            'function formatName({ first, last }: { first: string; last: string }) {',
+            '    return `${first} ${last}`;',
+            '}',
+            '',
+            'function greet(person) {',
+            '    return "Hello " + formatName(person);',
+            '}'
+        ].join('\n');
+
+        assert.ok(!patterns(code, 'typescript', 'ts').includes('recursion'));
+    });
+
+    test('uses indentation to find Python function bodies', () => {
+        const recursive = [
+            'def walk(node):',
+            '    for child in node.children:',
+            '        walk(child)',
+            '',
+            'walk(root)'
+        ].join('\n');
+        const helper = [
+            'def parse(line):',
+            '    return line.split(",")',
+            '',
+            'rows = [parse(line) for line in lines]'
+        ].join('\n');
+
+        assert.ok(patterns(recursive, 'python', 'py').includes('recursion'));
+        assert.ok(!patterns(helper, 'python', 'py').includes('recursion'));
+    });
+
+    test('ignores a call in a comment or string inside the body', () => {
+        const code = [
+            'function retry(task) {',
+            '    // retry(task) would loop forever here',
+            '    return task() || "retry(task) failed";',
+            '}'
+        ].join('\n');
+
+        assert.ok(!patterns(code, 'javascript', 'js').includes('recursion'));
+    });
+});
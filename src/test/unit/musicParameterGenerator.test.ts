@@ -0,0 +1,219 @@
+import * as assert from 'assert';
+import { MusicParameterGenerator } from '../../musicParameterGenerator';
+import { CelebrationRegistry } from '../../celebrationRegistry';
+import { MusicProfile } from '../../musicProfile';
+import { createAnalysis, createProfileStore } from '../fakes/testDoubles';
+
+function createGenerator(profile: Partial<MusicProfile> = {}): MusicParameterGenerator {
+    return new MusicParameterGenerator(new CelebrationRegistry(), createProfileStore(profile));
+}
+
+suite('MusicParameterGenerator', () => {
+    suite('generateFromAnalysis', () => {
+        test('uses the tempo and energy the analysis recommends', () => {
+            const params = createGenerator().generateFromAnalysis(createAnalysis({ recommendedBPM: 88, energy: 4 }), 'plaintext', 10);
+
+            assert.strictEqual(params.bpm, 88);
+            assert.strictEqual(params.energy, 4);
+            assert.strictEqual(params.context, 'code_analysis');
+        });
+
+        test('picks tempo and energy from the complexity range when the analysis has none', () => {
+            const generator = createGenerator();
+            for (let run = 0; run < 20; run++) {
+                const params = generator.generateFromAnalysis(
+                    createAnalysis({ complexity: 'very_complex', recommendedBPM: 0, energy: 0 }),
+                    'plaintext',
+                    10,
+                    `src/file${run}.txt`
+                );
+                assert.ok(params.bpm >= 130 && params.bpm <= 180, `bpm ${params.bpm}`);
+                assert.ok(params.energy >= 8 && params.energy <= 10, `energy ${params.energy}`);
+            }
+        });
+
+        test('maps each complexity level to its structure and tension', () => {
+            const generator = createGenerator();
+            const simple = generator.generateFromAnalysis(createAnalysis({ complexity: 'simple', recommendedBPM: 60 }), 'plaintext', 10);
+            const complex = generator.generateFromAnalysis(createAnalysis({ complexity: 'complex', recommendedBPM: 110 }), 'plaintext', 10);
+
+            assert.strictEqual(simple.structure, 'peaceful flowing melody with minimal changes');
+            assert.ok(simple.tags.includes('minimal'));
+            assert.ok(simple.prompt.includes('Simple and gentle.'));
+            assert.strictEqual(complex.structure, 'layered composition with escalating tension and rapid dynamic changes');
+            assert.ok(complex.tags.includes('escalating'));
+            assert.ok(complex.prompt.includes('Building tension and stress.'));
+        });
+
+        test('applies language modifications', () => {
+            const params = createGenerator().generateFromAnalysis(createAnalysis(), 'typescript', 10);
+
+            assert.strictEqual(params.genre, 'structured electronic');
+            assert.deepStrictEqual(params.instruments, ['piano', 'synth', 'strings']);
+            assert.ok(params.tags.includes('typed'));
+            assert.ok(params.tags.includes('10_lines'));
+        });
+
+        test('slows SQL down but not below 60 BPM', () => {
+            const generator = createGenerator();
+
+            assert.strictEqual(generator.generateFromAnalysis(createAnalysis({ recommendedBPM: 100 }), 'sql', 10).bpm, 90);
+            assert.strictEqual(generator.generateFromAnalysis(createAnalysis({ recommendedBPM: 65 }), 'sql', 10).bpm, 60);
+        });
+
+        test('raises energy for C++ up to the maximum of 10', () => {
+            const generator = createGenerator();
+
+            assert.strictEqual(generator.generateFromAnalysis(createAnalysis({ energy: 6 }), 'cpp', 10).energy, 7);
+            assert.strictEqual(generator.generateFromAnalysis(createAnalysis({ energy: 10 }), 'cpp', 10).energy, 10);
+        });
+
+        test('keeps the tempo between 40 and 200 BPM', () => {
+            const generator = createGenerator();
+
+            assert.strictEqual(generator.generateFromAnalysis(createAnalysis({ recommendedBPM: 250 }), 'plaintext', 10).bpm, 200);
+            assert.strictEqual(generator.generateFromAnalysis(createAnalysis({ recommendedBPM: 20 }), 'plaintext', 10).bpm, 40);
+        });
+
+        test('sets the track length from the file size', () => {
+            const params = createGenerator().generateFromAnalysis(createAnalysis(), 'plaintext', 120);
+
+            assert.strictEqual(params.duration, 75);
+            assert.ok(params.prompt.endsWith('Energy 5/10, 75s duration.'));
+        });
+
+        test('lets a workspace profile clamp the tempo and replace the genre', () => {
+            const generator = createGenerator({
+                complexity: { moderate: { bpm: [70, 80], genre: 'lofi' } }
+            });
+            const params = generator.generateFromAnalysis(createAnalysis({ recommendedBPM: 120 }), 'plaintext', 10);
+
+            assert.strictEqual(params.bpm, 80);
+            assert.strictEqual(params.genre, 'lofi');
+        });
+
+        test('leaves out banned instruments', () => {
+            const generator = createGenerator({ bannedInstruments: ['synth'] });
+            const params = generator.generateFromAnalysis(createAnalysis(), 'typescript', 10);
+
+            assert.deepStrictEqual(params.instruments, ['piano', 'strings']);
+            assert.ok(params.prompt.endsWith('No synth.'));
+        });
+    });
+
+    suite('seeding', () => {
+        const unspecified = createAnalysis({ complexity: 'very_complex', recommendedBPM: 0, energy: 0 });
+        const takes = (generator: MusicParameterGenerator, analysis = unspecified) =>
+            ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].map(name => {
+                const params = generator.generateFromAnalysis(analysis, 'plaintext', 10, `src/${name}.txt|hash`);
+                return `${params.bpm}/${params.energy}`;
+            });
+
+        test('gives identical inputs identical parameters', () => {
+            const first = createGenerator().generateFromAnalysis(unspecified, 'plaintext', 10, 'src/a.txt|1234');
+            const second = createGenerator().generateFromAnalysis(unspecified, 'plaintext', 10, 'src/a.txt|1234');
+
+            assert.deepStrictEqual(second, first);
+        });
+
+        test('derives the seed from the source key', () => {
+            const generator = createGenerator();
+
+            assert.ok(new Set(takes(generator)).size > 1);
+        });
+
+        test('derives the seed from the workspace profile', () => {
+            assert.notDeepStrictEqual(takes(createGenerator()), takes(createGenerator({ preferredGenres: ['lofi'] })));
+        });
+
+        test('picks a new take after a reshuffle and keeps it', () => {
+            const generator = createGenerator();
+            const before = takes(generator);
+            generator.reshuffle();
+            const after = takes(generator);
+
+            assert.notDeepStrictEqual(after, before);
+            assert.deepStrictEqual(takes(generator), after);
+        });
+
+        test('varies the recommended tempo and energy only after a reshuffle', () => {
+            const generator = createGenerator();
+            const analysis = createAnalysis({ recommendedBPM: 100, energy: 5 });
+
+            assert.deepStrictEqual(new Set(takes(generator, analysis)), new Set(['100/5']));
+            generator.reshuffle();
+            for (const take of takes(generator, analysis)) {
+                const [bpm, energy] = take.split('/').map(Number);
+                assert.ok(bpm >= 90 && bpm <= 110, `bpm ${bpm}`);
+                assert.ok(energy >= 4 && energy <= 6, `energy ${energy}`);
+            }
+        });
+    });
+
+    suite('getSizeModifier', () => {
+        const boundaries: [number, number][] = [
+            [0, 25], [24, 25],
+            [25, 40], [49, 40],
+            [50, 60], [99, 60],
+            [100, 75], [149, 75],
+            [150, 90], [299, 90],
+            [300, 120], [499, 120],
+            [500, 150], [5000, 150]
+        ];
+
+        for (const [lineCount, duration] of boundaries) {
+            test(`${lineCount} lines give a ${duration}s track`, () => {
+                assert.deepStrictEqual(createGenerator()['getSizeModifier'](lineCount), { duration });
+            });
+        }
+    });
+
+    suite('generateFromDiagnostics', () => {
+        const severities: { errors: number; warnings: number; severity: string; bpm: number; mood: string }[] = [
+            { errors: 0, warnings: 0, severity: 'low', bpm: 85, mood: 'contemplative' },
+            { errors: 1, warnings: 7, severity: 'low', bpm: 85, mood: 'contemplative' },
+            { errors: 2, warnings: 0, severity: 'medium', bpm: 75, mood: 'concerned' },
+            { errors: 0, warnings: 10, severity: 'medium', bpm: 75, mood: 'concerned' },
+            { errors: 5, warnings: 0, severity: 'high', bpm: 65, mood: 'troubled' },
+            { errors: 0, warnings: 20, severity: 'high', bpm: 65, mood: 'troubled' },
+            { errors: 10, warnings: 0, severity: 'critical', bpm: 55, mood: 'urgent' },
+            { errors: 0, warnings: 30, severity: 'critical', bpm: 55, mood: 'urgent' }
+        ];
+
+        for (const { errors, warnings, severity, bpm, mood } of severities) {
+            test(`${errors} errors and ${warnings} warnings are ${severity}`, () => {
+                const params = createGenerator().generateFromDiagnostics(errors, warnings);
+
+                assert.strictEqual(params.complexity, severity);
+                assert.strictEqual(params.bpm, bpm);
+                assert.strictEqual(params.mood, mood);
+                assert.strictEqual(params.context, 'diagnostic_feedback');
+                assert.ok(params.tags.includes(`${errors}_errors`));
+                assert.ok(params.tags.includes(`${warnings}_warnings`));
+            });
+        }
+
+        test('plays hopeful music when the error count drops', () => {
+            const params = createGenerator().generateFromDiagnostics(2, 0, 6);
+
+            assert.strictEqual(params.mood, 'hopeful');
+            assert.strictEqual(params.bpm, 95);
+            assert.ok(params.tags.includes('improvement'));
+        });
+
+        test('does not count an unchanged error count as improvement', () => {
+            const params = createGenerator().generateFromDiagnostics(3, 0, 3);
+
+            assert.strictEqual(params.mood, 'concerned');
+        });
+
+        test('lets a workspace profile override a severity', () => {
+            const generator = createGenerator({ severity: { critical: { bpm: 70, genre: 'drone' } } });
+            const params = generator.generateFromDiagnostics(12, 0);
+
+            assert.strictEqual(params.bpm, 70);
+            assert.strictEqual(params.genre, 'drone');
+            assert.strictEqual(params.mood, 'urgent');
+        });
+    });
+});
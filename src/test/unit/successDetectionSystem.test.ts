@@ -0,0 +1,150 @@
+import * as assert from 'assert';
+import { SuccessDetectionSystem, SuccessEvent, SuccessPattern } from '../../successDetectionSystem';
+import { CelebrationRegistry } from '../../celebrationRegistry';
+import { fake } from '../fakes/vscode';
+import { RecordingMusicBackend, createMemento, createSessionRecorder, createSuccessRules } from '../fakes/testDoubles';
+
+function terminalOutput(message: string): SuccessEvent {
+    return { type: 'terminal_output', details: { message }, timestamp: new Date() };
+}
+
+function taskSuccess(taskName: string, command: string, exitCode = 0): SuccessEvent {
+    return { type: 'task_success', details: { taskName, command, exitCode }, timestamp: new Date() };
+}
+
+suite('SuccessDetectionSystem', () => {
+    let backend: RecordingMusicBackend;
+    let system: SuccessDetectionSystem;
+
+    const createSystem = (rules: SuccessPattern[] = []) => new SuccessDetectionSystem(
+        backend,
+        createMemento(),
+        new CelebrationRegistry(),
+        createSuccessRules(rules),
+        createSessionRecorder()
+    );
+    const analyze = (event: SuccessEvent): SuccessPattern | null => system['analyzeEvent'](event);
+    // Moves the last celebration back in time instead of waiting the cooldown out
+    const rewindCooldowns = (ms: number, includingTypes: boolean) => {
+        system['lastCelebrationTime'] = new Date(system['lastCelebrationTime'].getTime() - ms);
+        if (includingTypes) {
+            const byType: Map<string, number> = system['lastCelebrationByType'];
+            byType.forEach((time, type) => byType.set(type, time - ms));
+        }
+    };
+
+    setup(() => {
+        fake.reset();
+        backend = new RecordingMusicBackend();
+        system = createSystem();
+    });
+
+    teardown(() => {
+        system.dispose();
+        backend.dispose();
+    });
+
+    suite('analyzeEvent', () => {
+        test('picks the pattern with the highest confidence', () => {
+            // Matches "\d+ passing" (0.8) and "mocha.*\d+.*passing" (0.9)
+            const match = analyze(terminalOutput('mocha: 12 passing (3s)'));
+
+            assert.strictEqual(match?.description, 'Mocha tests passing');
+            assert.strictEqual(match?.celebrationType, 'test_pass');
+        });
+
+        test('keeps the first of two patterns with equal confidence', () => {
+            // Both patterns have a confidence of 0.9
+            const match = analyze(terminalOutput('TypeScript compilation complete, compilation successful'));
+
+            assert.strictEqual(match?.description, 'TypeScript compilation complete');
+        });
+
+        test('returns null for output without a success pattern', () => {
+            assert.strictEqual(analyze(terminalOutput('Watching for file changes...')), null);
+            assert.strictEqual(analyze(terminalOutput('')), null);
+        });
+
+        test('lets a user rule win a tie with a built-in pattern', () => {
+            system.dispose();
+            system = createSystem([{
+                pattern: 'all tests passed',
+                celebrationType: 'deployment',
+                confidence: 0.95,
+                description: 'Release checks passed'
+            }]);
+
+            assert.strictEqual(analyze(terminalOutput('All tests passed'))?.description, 'Release checks passed');
+        });
+
+        test('skips user rules whose task filter does not match', () => {
+            system.dispose();
+            system = createSystem([{
+                pattern: /ok/i,
+                celebrationType: 'deployment',
+                confidence: 1,
+                description: 'Release task ok',
+                taskFilter: /release/
+            }]);
+
+            assert.strictEqual(analyze({ type: 'manual', details: { description: 'ok', taskName: 'lint' }, timestamp: new Date() }), null);
+            assert.strictEqual(
+                analyze({ type: 'manual', details: { description: 'ok', taskName: 'release' }, timestamp: new Date() })?.description,
+                'Release task ok'
+            );
+        });
+
+        test('classifies a task that exits with 0 by its command', () => {
+            assert.strictEqual(analyze(taskSuccess('build', 'npm run build'))?.celebrationType, 'compilation_success');
+            assert.strictEqual(analyze(taskSuccess('test', 'npm test'))?.celebrationType, 'test_pass');
+            assert.strictEqual(analyze(taskSuccess('ship', 'npm publish'))?.celebrationType, 'deployment');
+        });
+
+        test('does not treat a failed task as a success', () => {
+            assert.strictEqual(analyze(taskSuccess('build', 'npm run build', 1)), null);
+        });
+    });
+
+    suite('cooldown', () => {
+        test('celebrates a detected success', () => {
+            system.detectSuccess(terminalOutput('All tests passed'));
+
+            assert.strictEqual(backend.celebrations.length, 1);
+            assert.strictEqual(backend.celebrations[0].celebrationType, 'test_pass');
+            assert.ok(fake.getMessages().some(shown => shown.message.includes('All tests passed')));
+        });
+
+        test('ignores successes within five seconds of the last celebration', () => {
+            system.detectSuccess(terminalOutput('All tests passed'));
+            system.detectSuccess(terminalOutput('Deployment successful'));
+            rewindCooldowns(4000, true);
+            system.detectSuccess(terminalOutput('Deployment successful'));
+
+            assert.deepStrictEqual(backend.celebrations.map(c => c.celebrationType), ['test_pass']);
+        });
+
+        test('celebrates again once the cooldown has passed', () => {
+            system.detectSuccess(terminalOutput('All tests passed'));
+            rewindCooldowns(6000, true);
+            system.detectSuccess(terminalOutput('All tests passed'));
+
+            assert.strictEqual(backend.celebrations.length, 2);
+        });
+
+        test('keeps a type in its own cooldown after the shared one has passed', () => {
+            system.detectSuccess(terminalOutput('All tests passed'));
+            rewindCooldowns(6000, false);
+
+            assert.strictEqual(system.requestCelebration('test_pass', 'Again'), false);
+            assert.strictEqual(system.requestCelebration('deployment', 'Shipped'), true);
+            assert.deepStrictEqual(backend.celebrations.map(c => c.celebrationType), ['test_pass', 'deployment']);
+        });
+
+        test('stays quiet when celebration drops are turned off', () => {
+            fake.setConfiguration({ 'codebeat.celebrationDrops': false });
+            system.detectSuccess(terminalOutput('All tests passed'));
+
+            assert.strictEqual(backend.celebrations.length, 0);
+        });
+    });
+});
@@ -0,0 +1,182 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { SunoApiClient } from '../../sunoApiClient';
+import { SunoStubServer } from '../../sunoStubServer';
+import { HttpClient } from '../../httpClient';
+import { GenerationQuota } from '../../generationQuota';
+import { TrackCache } from '../../trackCache';
+import { CredentialStore } from '../../credentialStore';
+import { ActiveFolderTracker } from '../../activeFolder';
+import { MusicParameterGenerator, MusicParameters } from '../../musicParameterGenerator';
+import { TrackInfo, MusicTriggerType } from '../../musicBackend';
+import { GenerationRequest, getTriggerPriority, getPlaybackChannel } from '../../generationQueue';
+import { fake } from '../fakes/vscode';
+import { createMemento, createSessionRecorder } from '../fakes/testDoubles';
+
+suite('SunoApiClient against the Suno stub server', () => {
+    const token = 'stub-token';
+    let stub: SunoStubServer;
+    let client: SunoApiClient;
+    let http: HttpClient;
+    let quota: GenerationQuota;
+    let tracks: TrackInfo[];
+    let played: string[];
+    let cached: string[];
+
+    const params: MusicParameters = {
+        bpm: 96,
+        mood: 'focused',
+        genre: 'lofi',
+        energy: 4,
+        complexity: 'moderate',
+        instruments: ['piano'],
+        structure: 'loop',
+        duration: 30,
+        tags: ['lofi', 'focused'],
+        prompt: 'Calm focus music',
+        context: 'test'
+    };
+
+    // Resolves with the first track update that ends the generation
+    const waitForFinalStatus = () => new Promise<TrackInfo>(resolve => {
+        const listener = client.onDidChangeTrack(track => {
+            if (track.status === 'complete' || track.status === 'error') {
+                listener.dispose();
+                resolve(track);
+            }
+        });
+    });
+
+    setup(async () => {
+        fake.reset();
+        tracks = [];
+        played = [];
+        cached = [];
+
+        stub = new SunoStubServer({ stepMs: 50, validTokens: [token] });
+        fake.setConfiguration({ 'codebeat.sunoBaseUrl': await stub.start() });
+
+        const credentials = {
+            getSunoToken: () => token,
+            reportStatus: () => undefined,
+            onDidChange: new vscode.EventEmitter<void>().event
+        } as unknown as CredentialStore;
+        const folderTracker = {
+            getActiveFolder: () => undefined,
+            onDidChangeActiveFolder: new vscode.EventEmitter<void>().event
+        } as unknown as ActiveFolderTracker;
+        const trackCache = {
+            find: async () => undefined,
+            store: async (_params: MusicParameters, audioUrl: string) => {
+                cached.push(audioUrl);
+            }
+        } as unknown as TrackCache;
+
+        http = new HttpClient('Suno', { baseDelayMs: 10 });
+        quota = new GenerationQuota(createMemento());
+        client = new SunoApiClient(
+            {} as MusicParameterGenerator, trackCache, createSessionRecorder(), folderTracker, credentials, http, quota
+        );
+        client['pollInterval'] = 10;
+
+        // Nothing is played out loud, the URLs handed to the player are recorded instead
+        client['audioPlayer'].dispose();
+        client['audioPlayer'] = {
+            isAudioPlaying: () => false,
+            playAudio: async (url: string) => {
+                played.push(url);
+            },
+            dispose: () => undefined
+        } as any;
+        client.onDidChangeTrack(track => tracks.push(track));
+    });
+
+    teardown(async () => {
+        client.dispose();
+        http.dispose();
+        quota.dispose();
+        await stub.stop();
+    });
+
+    test('generates a clip, polls it to completion and plays the audio', async () => {
+        const finished = waitForFinalStatus();
+        const response = await client.generateMusic(params, 'code_analysis');
+        assert.strictEqual(response.status, 'submitted');
+
+        const track = await finished;
+        assert.strictEqual(track.status, 'complete');
+        assert.strictEqual(track.id, response.id);
+        assert.match(track.audioUrl || '', /^http:\/\/127\.0\.0\.1:\d+\/audio\/stub-clip-1\.wav$/);
+        assert.strictEqual(played[played.length - 1], track.audioUrl);
+        assert.deepStrictEqual(cached, [track.audioUrl]);
+
+        const requests = stub.getRequestLog();
+        assert.strictEqual(requests[0].endpoint, 'generate');
+        assert.strictEqual(requests[0].authorization, `Bearer ${token}`);
+        assert.match(requests[0].body.topic, /in lofi style at 96 BPM/);
+        assert.ok(requests.slice(1).every(request => request.endpoint === 'clips' && request.url.includes(`ids=${response.id}`)));
+        assert.strictEqual(quota.getUsage().used, 1);
+    });
+
+    test('stops polling and keeps the current audio when the clip fails', async () => {
+        stub.failNextGeneration('Stub generation failure');
+
+        const finished = waitForFinalStatus();
+        await client.generateMusic(params, 'code_analysis');
+
+        const track = await finished;
+        assert.strictEqual(track.status, 'error');
+        assert.deepStrictEqual(played, []);
+        assert.deepStrictEqual(cached, []);
+        assert.ok(fake.getMessages().some(message => message.level === 'error' && message.message.includes('Stub generation failure')));
+        assert.deepStrictEqual(client.getQueueState().polling, []);
+    });
+
+    test('retries a generate call the stub answers with a 503', async () => {
+        stub.failRequests('generate', 503);
+
+        const finished = waitForFinalStatus();
+        const response = await client.generateMusic(params, 'code_analysis');
+
+        assert.strictEqual(response.status, 'submitted');
+        assert.strictEqual((await finished).status, 'complete');
+        assert.deepStrictEqual(stub.getRequestLog().slice(0, 2).map(request => request.endpoint), ['generate', 'generate']);
+    });
+
+    test('cancels stale background clips but lets celebrations and stings finish', () => {
+        let requestCount = 0;
+        const createRequest = (triggerType: MusicTriggerType) => ({
+            id: `request_${++requestCount}`,
+            triggerType,
+            priority: getTriggerPriority(triggerType),
+            channel: getPlaybackChannel(triggerType),
+            enqueuedAt: Date.now()
+        } as GenerationRequest);
+        const poll = (triggerType: MusicTriggerType) => {
+            const request = createRequest(triggerType);
+            client['activeGenerations'].set(request.id, { request, interval: setInterval(() => undefined, 60000) });
+            return request.id;
+        };
+        const pollingIds = () => client.getQueueState().polling.map(generation => generation.requestId);
+
+        const analysis = poll('code_analysis');
+        const sting = poll('failure_sting');
+        const celebration = poll('success_celebration');
+
+        client['cancelStaleGenerations'](createRequest('success_celebration'));
+        assert.deepStrictEqual(pollingIds(), [analysis, sting, celebration]);
+
+        client['cancelStaleGenerations'](createRequest('code_analysis'));
+        assert.deepStrictEqual(pollingIds(), [sting, celebration]);
+    });
+
+    test('reports an error response for a token the API rejects', async () => {
+        client['apiToken'] = 'wrong-token';
+
+        const response = await client.generateMusic(params, 'code_analysis');
+
+        assert.strictEqual(response.status, 'error');
+        assert.strictEqual(response.metadata.error_type, 'api_error');
+        assert.deepStrictEqual(tracks, []);
+    });
+});
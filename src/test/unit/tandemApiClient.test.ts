@@ -0,0 +1,133 @@
+import * as assert from 'assert';
+import { TandemApiClient, CodeAnalysis } from '../../tandemApiClient';
+import { CredentialStore } from '../../credentialStore';
+import { HttpClient } from '../../httpClient';
+
+suite('TandemApiClient.parseAnalysisResponse', () => {
+    let client: TandemApiClient;
+    let http: HttpClient;
+
+    const parse = (text: string, languageId = 'python'): CodeAnalysis => client['parseAnalysisResponse'](text, languageId);
+
+    setup(() => {
+        http = new HttpClient('Tandemn');
+        client = new TandemApiClient({ getTandemApiKey: () => undefined } as unknown as CredentialStore, http);
+    });
+
+    teardown(() => {
+        http.dispose();
+    });
+
+    test('reads a well-formed answer', () => {
+        const analysis = parse(JSON.stringify({
+            complexity: 'complex',
+            mood: 'intense',
+            patterns: ['recursion'],
+            codeType: 'algorithm',
+            recommendedBPM: 120,
+            energy: 8,
+            genre: 'drum and bass',
+            description: 'A recursive solver'
+        }));
+
+        assert.deepStrictEqual(analysis, {
+            complexity: 'complex',
+            mood: 'intense',
+            patterns: ['recursion'],
+            codeType: 'algorithm',
+            recommendedBPM: 120,
+            energy: 8,
+            genre: 'drum and bass',
+            description: 'A recursive solver'
+        });
+    });
+
+    test('finds the JSON between reasoning and prose', () => {
+        const analysis = parse([
+            '<think>The user wants a JSON object. The code is simple.</think>',
+            'Here is the analysis:',
+            '```json',
+            '{"complexity": "simple", "mood": "calm", "recommendedBPM": 70, "energy": 2}',
+            '```',
+            'Let me know if you need more.'
+        ].join('\n'));
+
+        assert.strictEqual(analysis.complexity, 'simple');
+        assert.strictEqual(analysis.mood, 'calm');
+        assert.strictEqual(analysis.recommendedBPM, 70);
+        assert.strictEqual(analysis.energy, 2);
+    });
+
+    test('replaces values outside the allowed sets with defaults', () => {
+        const analysis = parse(JSON.stringify({
+            complexity: 'insane',
+            mood: 'sleepy',
+            patterns: 'loops',
+            codeType: 'spaghetti',
+            recommendedBPM: 220,
+            energy: 11
+        }));
+
+        assert.strictEqual(analysis.complexity, 'moderate');
+        assert.strictEqual(analysis.mood, 'focused');
+        assert.deepStrictEqual(analysis.patterns, []);
+        assert.strictEqual(analysis.codeType, 'utility');
+        assert.strictEqual(analysis.recommendedBPM, 90);
+        assert.strictEqual(analysis.energy, 5);
+        assert.strictEqual(analysis.genre, 'ambient');
+        assert.strictEqual(analysis.description, 'Code analysis');
+    });
+
+    test('accepts numbers written as strings and rejects other text', () => {
+        assert.strictEqual(parse('{"recommendedBPM": "100", "energy": "3"}').recommendedBPM, 100);
+        assert.strictEqual(parse('{"recommendedBPM": "100", "energy": "3"}').energy, 3);
+        assert.strictEqual(parse('{"recommendedBPM": "fast", "energy": null}').recommendedBPM, 90);
+        assert.strictEqual(parse('{"recommendedBPM": "fast", "energy": null}').energy, 5);
+    });
+
+    test('keeps the tempo bounds of 60 and 140 BPM', () => {
+        assert.strictEqual(parse('{"recommendedBPM": 60}').recommendedBPM, 60);
+        assert.strictEqual(parse('{"recommendedBPM": 140}').recommendedBPM, 140);
+        assert.strictEqual(parse('{"recommendedBPM": 59}').recommendedBPM, 90);
+        assert.strictEqual(parse('{"recommendedBPM": 141}').recommendedBPM, 90);
+    });
+
+    test('falls back to language defaults for truncated JSON', () => {
+        const analysis = parse('{"complexity": "simple", "mood": "calm", "energy": 3', 'rust');
+
+        assert.strictEqual(analysis.description, 'rust code analysis (fallback)');
+        assert.strictEqual(analysis.codeType, 'algorithm');
+        assert.strictEqual(analysis.recommendedBPM, 105);
+        assert.strictEqual(analysis.mood, 'intense');
+        assert.deepStrictEqual(analysis.patterns, ['rust']);
+    });
+
+    test('falls back when the answer has no JSON at all', () => {
+        const analysis = parse('I cannot analyze this code.', 'sql');
+
+        assert.strictEqual(analysis.description, 'sql code analysis (fallback)');
+        assert.strictEqual(analysis.recommendedBPM, 80);
+    });
+
+    test('falls back when the braces do not hold valid JSON', () => {
+        const analysis = parse('{complexity: simple, mood: calm}', 'go');
+
+        assert.strictEqual(analysis.description, 'go code analysis (fallback)');
+        assert.strictEqual(analysis.codeType, 'backend_api');
+    });
+
+    test('uses neutral defaults for a language without its own', () => {
+        const analysis = parse('', 'brainfuck');
+
+        assert.deepStrictEqual(analysis, {
+            complexity: 'moderate',
+            mood: 'focused',
+            patterns: ['brainfuck'],
+            codeType: 'utility',
+            recommendedBPM: 90,
+            energy: 5,
+            genre: 'ambient',
+            description: 'brainfuck code analysis (fallback)'
+        });
+    });
+});
@@ -0,0 +1,230 @@
+export interface TestRunResult {
+    framework: string;
+    passed: number;
+    failed: number;
+    skipped: number;
+    durationMs?: number;
+    scope: 'full' | 'partial'; // partial = single file or filtered run
+}
+
+type Counts = Omit<TestRunResult, 'framework' | 'scope'>;
+
+/**
+ * Turns the summary printed by common test runners (or a JUnit XML report)
+ * into structured pass/fail counts. Works on plain text, so ANSI escapes
+ * must be stripped beforehand.
+ */
+export class TestResultParser {
+    private readonly parsers: Array<{ framework: string; parse: (output: string) => Counts | null }> = [
+        { framework: 'cargo', parse: output => this.parseCargo(output) },
+        { framework: 'pytest', parse: output => this.parsePytest(output) },
+        { framework: 'go', parse: output => this.parseGoTest(output) },
+        { framework: 'vitest', parse: output => this.parseVitest(output) },
+        { framework: 'jest', parse: output => this.parseJest(output) },
+        { framework: 'mocha', parse: output => this.parseMocha(output) },
+        { framework: 'tap', parse: output => this.parseTap(output) }
+    ];
+
+    public parse(output: string, command: string = ''): TestRunResult | null {
+        for (const { framework, parse } of this.parsers) {
+            const counts = parse(output);
+            if (counts && counts.passed + counts.failed + counts.skipped > 0) {
+                return { framework, ...counts, scope: this.getScope(command) };
+            }
+        }
+        return null;
+    }
+
+    public parseJUnitXml(xml: string): TestRunResult | null {
+        // Prefer the <testsuites> totals, otherwise add up every <testsuite>
+        const rootMatch = xml.match(/<testsuites\b([^>]*)>/);
+        const suiteTags = rootMatch && /\btests="/.test(rootMatch[1])
+            ? [rootMatch[1]]
+            : Array.from(xml.matchAll(/<testsuite\b([^>]*)>/g), match => match[1]);
+
+        if (suiteTags.length === 0) {
+            return null;
+        }
+
+        const counts: Counts = { passed: 0, failed: 0, skipped: 0, durationMs: 0 };
+        for (const attributes of suiteTags) {
+            const tests = this.getXmlNumber(attributes, 'tests');
+            const failed = this.getXmlNumber(attributes, 'failures') + this.getXmlNumber(attributes, 'errors');
+            const skipped = this.getXmlNumber(attributes, 'skipped') + this.getXmlNumber(attributes, 'disabled');
+            counts.passed += Math.max(0, tests - failed - skipped);
+            counts.failed += failed;
+            counts.skipped += skipped;
+            counts.durationMs! += Math.round(this.getXmlNumber(attributes, 'time') * 1000);
+        }
+
+        return { framework: 'junit', ...counts, scope: 'full' };
+    }
+
+    private parseCargo(output: string): Counts | null {
+        // One "test result" line per test target
+        const results = Array.from(output.matchAll(
+            /test result: \w+\. (\d+) passed; (\d+) failed; (\d+) ignored;.*?(?:finished in ([\d.]+)s)?$/gm
+        ));
+        if (results.length === 0) {
+            return null;
+        }
+
+        return results.reduce<Counts>((counts, match) => ({
+            passed: counts.passed + Number(match[1]),
+            failed: counts.failed + Number(match[2]),
+            skipped: counts.skipped + Number(match[3]),
+            durationMs: (counts.durationMs || 0) + Math.round(Number(match[4] || 0) * 1000)
+        }), { passed: 0, failed: 0, skipped: 0 });
+    }
+
+    private parsePytest(output: string): Counts | null {
+        // ===== 2 failed, 10 passed, 1 skipped in 1.23s =====
+        const summary = output.match(/^=+ (.*\b(?:passed|failed|error|errors|skipped)\b.*) in ([\d.]+)\s?s(?:econds)?\b.*=+\s*$/m);
+        if (!summary) {
+            return null;
+        }
+
+        return {
+            passed: this.countLabel(summary[1], 'passed') + this.countLabel(summary[1], 'xpassed'),
+            failed: this.countLabel(summary[1], 'failed') + this.countLabel(summary[1], 'errors?'),
+            skipped: this.countLabel(summary[1], 'skipped') + this.countLabel(summary[1], 'xfailed'),
+            durationMs: Math.round(Number(summary[2]) * 1000)
+        };
+    }
+
+    private parseGoTest(output: string): Counts | null {
+        const packageLines = Array.from(output.matchAll(/^(ok|FAIL)\s+\S+\s+([\d.]+)s/gm));
+        if (packageLines.length === 0) {
+            return null;
+        }
+
+        const durationMs = packageLines.reduce((total, match) => total + Math.round(Number(match[2]) * 1000), 0);
+
+        // Verbose output lists every test; otherwise count packages
+        const testLines = Array.from(output.matchAll(/^\s*--- (PASS|FAIL|SKIP): /gm), match => match[1]);
+        if (testLines.length > 0) {
+            return {
+                passed: testLines.filter(status => status === 'PASS').length,
+                failed: testLines.filter(status => status === 'FAIL').length,
+                skipped: testLines.filter(status => status === 'SKIP').length,
+                durationMs
+            };
+        }
+
+        return {
+            passed: packageLines.filter(match => match[1] === 'ok').length,
+            failed: packageLines.filter(match => match[1] === 'FAIL').length,
+            skipped: 0,
+            durationMs
+        };
+    }
+
+    private parseVitest(output: string): Counts | null {
+        //       Tests  1 failed | 10 passed | 2 skipped (13)
+        const summary = output.match(/^\s*Tests\s{2,}(.*\b(?:passed|failed|skipped)\b.*?)\s*\(\d+\)\s*$/m);
+        if (!summary) {
+            return null;
+        }
+
+        const duration = output.match(/^\s*Duration\s+([\d.]+)(ms|s)\b/m);
+        return {
+            passed: this.countLabel(summary[1], 'passed'),
+            failed: this.countLabel(summary[1], 'failed'),
+            skipped: this.countLabel(summary[1], 'skipped') + this.countLabel(summary[1], 'todo'),
+            durationMs: duration ? this.toMs(duration[1], duration[2]) : undefined
+        };
+    }
+
+    private parseJest(output: string): Counts | null {
+        // Tests:       1 failed, 2 skipped, 10 passed, 13 total
+        const summary = output.match(/^Tests:\s+(.*\btotal)\s*$/m);
+        if (!summary) {
+            return null;
+        }
+
+        const duration = output.match(/^Time:\s+([\d.]+)\s*(ms|s)\b/m);
+        return {
+            passed: this.countLabel(summary[1], 'passed'),
+            failed: this.countLabel(summary[1], 'failed'),
+            skipped: this.countLabel(summary[1], 'skipped') + this.countLabel(summary[1], 'todo'),
+            durationMs: duration ? this.toMs(duration[1], duration[2]) : undefined
+        };
+    }
+
+    private parseMocha(output: string): Counts | null {
+        //   10 passing (45ms)
+        const passing = output.match(/^\s*(\d+) passing(?: \((\d+)(ms|s|m)\))?/m);
+        if (!passing) {
+            return null;
+        }
+
+        const failing = output.match(/^\s*(\d+) failing/m);
+        const pending = output.match(/^\s*(\d+) pending/m);
+        return {
+            passed: Number(passing[1]),
+            failed: failing ? Number(failing[1]) : 0,
+            skipped: pending ? Number(pending[1]) : 0,
+            durationMs: passing[2] ? this.toMs(passing[2], passing[3]) : undefined
+        };
+    }
+
+    private parseTap(output: string): Counts | null {
+        // node:test and tape print "# pass N" style totals at the end
+        const pass = output.match(/^# pass\s+(\d+)/m);
+        const fail = output.match(/^# fail\s+(\d+)/m);
+        if (pass || fail) {
+            const skip = output.match(/^# skip(?:ped)?\s+(\d+)/m);
+            const todo = output.match(/^# todo\s+(\d+)/m);
+            const duration = output.match(/^# duration_ms\s+([\d.]+)/m);
+            return {
+                passed: pass ? Number(pass[1]) : 0,
+                failed: fail ? Number(fail[1]) : 0,
+                skipped: (skip ? Number(skip[1]) : 0) + (todo ? Number(todo[1]) : 0),
+                durationMs: duration ? Math.round(Number(duration[1])) : undefined
+            };
+        }
+
+        // Plain TAP: a plan line plus one "ok"/"not ok" line per test
+        if (!/^\s*1\.\.\d+/m.test(output)) {
+            return null;
+        }
+
+        const counts: Counts = { passed: 0, failed: 0, skipped: 0 };
+        for (const match of output.matchAll(/^\s*(not )?ok\b.*$/gm)) {
+            if (/#\s*(skip|todo)\b/i.test(match[0])) {
+                counts.skipped++;
+            } else if (match[1]) {
+                counts.failed++;
+            } else {
+                counts.passed++;
+            }
+        }
+        return counts;
+    }
+
+    private getScope(command: string): TestRunResult['scope'] {
+        // A test file path or a name filter means only part of the suite ran
+        const partialPatterns = [
+            /\S+\.(test|spec)\.[jt]sx?\b/,
+            /\btest_\w+\.py\b|\w+_test\.(py|go)\b/,
+            /(^|\s)(-t|--testNamePattern|--grep|-g|-k|-run|--filter)(\s|=)/,
+            /::\w+/
+        ];
+        return partialPatterns.some(pattern => pattern.test(command)) ? 'partial' : 'full';
+    }
+
+    private countLabel(summary: string, label: string): number {
+        const match = summary.match(new RegExp(`(\\d+) ${label}\\b`));
+        return match ? Number(match[1]) : 0;
+    }
+
+    private getXmlNumber(attributes: string, name: string): number {
+        const match = attributes.match(new RegExp(`\\b${name}="([\\d.]+)"`));
+        return match ? Number(match[1]) : 0;
+    }
+
+    private toMs(value: string, unit: string): number {
+        const multipliers: { [unit: string]: number } = { ms: 1, s: 1000, m: 60000 };
+        return Math.round(Number(value) * (multipliers[unit] || 1));
+    }
+}
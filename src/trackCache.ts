@@ -0,0 +1,204 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+import { HttpClient } from './httpClient';
+import { MusicParameters } from './musicParameterGenerator';
+
+export interface CachedTrack {
+    fingerprint: string;
+    filePath: string;
+    title?: string;
+    imageUrl?: string;
+    bpm: number;
+    energy: number;
+    genre: string;
+    mood: string;
+    context: string;
+    sizeBytes: number;
+    createdAt: string;
+    lastUsedAt: string;
+}
+
+/**
+ * Disk cache of generated tracks under the extension's global storage.
+ * Tracks are keyed by a normalized fingerprint of the MusicParameters that
+ * produced them, so returning to a familiar file replays its music instantly
+ * instead of spending API quota on a near-identical clip.
+ */
+export class TrackCache {
+    private entries: CachedTrack[] = [];
+    private loadPromise: Promise<void> | undefined;
+    private readonly cacheDir: string;
+    private readonly indexPath: string;
+    private readonly bpmBucketSize = 10;
+    private indexWrite: Promise<void> = Promise.resolve();
+
+    constructor(storageUri: vscode.Uri, private http: HttpClient) {
+        this.cacheDir = path.join(storageUri.fsPath, 'tracks');
+        this.indexPath = path.join(this.cacheDir, 'index.json');
+    }
+
+    public getFingerprint(params: MusicParameters): string {
+        const bpmBucket = Math.round(params.bpm / this.bpmBucketSize) * this.bpmBucketSize;
+        const energyBucket = Math.round(params.energy);
+        return [
+            bpmBucket,
+            energyBucket,
+            this.normalize(params.genre),
+            this.normalize(params.mood),
+            this.normalize(params.context)
+        ].join('|');
+    }
+
+    public async find(params: MusicParameters): Promise<CachedTrack | undefined> {
+        if (!this.isEnabled()) {
+            return undefined;
+        }
+        await this.ensureLoaded();
+
+        const fingerprint = this.getFingerprint(params);
+        const tolerance = vscode.workspace.getConfiguration('codebeat').get('cacheBpmTolerance', 8);
+
+        // Exact fingerprint first, then the closest tempo within tolerance for the same style
+        let match = this.entries.find(entry => entry.fingerprint === fingerprint);
+        if (!match) {
+            const candidates = this.entries
+                .filter(entry =>
+                    entry.genre === this.normalize(params.genre) &&
+                    entry.mood === this.normalize(params.mood) &&
+                    entry.context === this.normalize(params.context) &&
+                    Math.abs(entry.bpm - params.bpm) <= tolerance &&
+                    Math.abs(entry.energy - params.energy) <= 1
+                )
+                .sort((a, b) => Math.abs(a.bpm - params.bpm) - Math.abs(b.bpm - params.bpm));
+            match = candidates[0];
+        }
+
+        if (!match) {
+            return undefined;
+        }
+
+        if (!fs.existsSync(match.filePath)) {
+            // File was removed behind our back; forget about it
+            this.entries = this.entries.filter(entry => entry !== match);
+            await this.saveIndex();
+            return undefined;
+        }
+
+        match.lastUsedAt = new Date().toISOString();
+        await this.saveIndex();
+        return match;
+    }
+
+    public async store(
+        params: MusicParameters,
+        audioUrl: string,
+        details: { title?: string; imageUrl?: string } = {}
+    ): Promise<CachedTrack | undefined> {
+        if (!this.isEnabled()) {
+            return undefined;
+        }
+        await this.ensureLoaded();
+
+        const response = await this.http.request(audioUrl);
+        if (!response.ok) {
+            throw new Error(`Track download failed: ${response.status} ${response.statusText}`);
+        }
+        const audio = await response.buffer();
+
+        const fingerprint = this.getFingerprint(params);
+        const extension = path.extname(new URL(audioUrl).pathname) || '.mp3';
+        const fileName = crypto.createHash('sha1').update(fingerprint).digest('hex').slice(0, 16) + extension;
+        const filePath = path.join(this.cacheDir, fileName);
+
+        await fs.promises.mkdir(this.cacheDir, { recursive: true });
+        await fs.promises.writeFile(filePath, audio);
+
+        const now = new Date().toISOString();
+        const entry: CachedTrack = {
+            fingerprint,
+            filePath,
+            title: details.title,
+            imageUrl: details.imageUrl,
+            bpm: params.bpm,
+            energy: params.energy,
+            genre: this.normalize(params.genre),
+            mood: this.normalize(params.mood),
+            context: this.normalize(params.context),
+            sizeBytes: audio.length,
+            createdAt: now,
+            lastUsedAt: now
+        };
+
+        this.entries = this.entries.filter(existing => existing.fingerprint !== fingerprint);
+        this.entries.push(entry);
+
+        await this.evictToSizeLimit();
+        await this.saveIndex();
+
+        console.log(`CodeBeat: Cached track ${fingerprint} (${Math.round(audio.length / 1024)} KB)`);
+        return entry;
+    }
+
+    private async evictToSizeLimit(): Promise<void> {
+        const maxSizeMB = vscode.workspace.getConfiguration('codebeat').get('cacheMaxSizeMB', 200);
+        const maxBytes = maxSizeMB * 1024 * 1024;
+
+        // Least recently used first
+        this.entries.sort((a, b) => a.lastUsedAt.localeCompare(b.lastUsedAt));
+
+        let totalBytes = this.entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+        while (totalBytes > maxBytes && this.entries.length > 0) {
+            const evicted = this.entries.shift()!;
+            totalBytes -= evicted.sizeBytes;
+            await fs.promises.unlink(evicted.filePath).catch(() => undefined);
+            console.log(`CodeBeat: Evicted cached track ${evicted.fingerprint}`);
+        }
+    }
+
+    private ensureLoaded(): Promise<void> {
+        if (!this.loadPromise) {
+            this.loadPromise = this.loadIndex();
+        }
+        return this.loadPromise;
+    }
+
+    private async loadIndex(): Promise<void> {
+        try {
+            const raw = await fs.promises.readFile(this.indexPath, 'utf8');
+            const parsed = JSON.parse(raw);
+            this.entries = Array.isArray(parsed)
+                ? parsed.filter((entry: CachedTrack) => entry && entry.filePath && fs.existsSync(entry.filePath))
+                : [];
+        } catch {
+            // Missing or corrupt index - start with an empty cache
+            this.entries = [];
+        }
+    }
+
+    /**
+     * Writes run one after another, and each replaces the index in one step,
+     * so a download finishing during a lookup cannot leave a corrupt index.
+     */
+    private saveIndex(): Promise<void> {
+        const content = JSON.stringify(this.entries, null, 2);
+        this.indexWrite = this.indexWrite
+            .catch(() => undefined)
+            .then(async () => {
+                const tempPath = `${this.indexPath}.tmp`;
+                await fs.promises.mkdir(this.cacheDir, { recursive: true });
+                await fs.promises.writeFile(tempPath, content);
+                await fs.promises.rename(tempPath, this.indexPath);
+            });
+        return this.indexWrite;
+    }
+
+    private isEnabled(): boolean {
+        return vscode.workspace.getConfiguration('codebeat').get('cacheTracks', true);
+    }
+
+    private normalize(value: string | undefined): string {
+        return (value || '').trim().toLowerCase();
+    }
+}
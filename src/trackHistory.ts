@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import { TrackInfo } from './musicBackend';
+import { ActiveFolderTracker } from './activeFolder';
+
+export interface TrackHistoryEntry {
+    track: TrackInfo;
+    pinned: boolean;
+}
+
+/**
+ * Keeps track of what is playing and being generated, and persists the
+ * tracks CodeBeat played so they can be replayed from the Now Playing panel.
+ * Each workspace folder has its own history; the panel shows the one of the
+ * active folder. Pinned tracks are never trimmed.
+ */
+export class TrackHistory implements vscode.Disposable {
+    private static readonly storageKey = 'codebeat.trackHistoryByFolder';
+    private static readonly legacyStorageKey = 'codebeat.trackHistory';
+    private readonly maxUnpinnedEntries = 50;
+    private histories: { [folderKey: string]: TrackHistoryEntry[] };
+    private trackFolders: Map<string, string> = new Map(); // folder each generating track was requested from
+    private nowPlaying?: TrackInfo;
+    private generating?: TrackInfo;
+    private changeEmitter = new vscode.EventEmitter<void>();
+    public readonly onDidChange = this.changeEmitter.event;
+    private folderListener: vscode.Disposable;
+
+    constructor(private memento: vscode.Memento, private folderTracker: ActiveFolderTracker) {
+        this.histories = memento.get<{ [folderKey: string]: TrackHistoryEntry[] }>(TrackHistory.storageKey, {});
+
+        // History from before it was kept per folder moves to the folder that is open now
+        const legacyEntries = memento.get<TrackHistoryEntry[]>(TrackHistory.legacyStorageKey);
+        if (legacyEntries) {
+            const key = this.getActiveFolderKey();
+            this.histories[key] = [...(this.histories[key] || []), ...legacyEntries];
+            memento.update(TrackHistory.legacyStorageKey, undefined);
+            memento.update(TrackHistory.storageKey, this.histories);
+        }
+
+        this.folderListener = folderTracker.onDidChangeActiveFolder(() => this.changeEmitter.fire());
+    }
+
+    public record(track: TrackInfo): void {
+        if (track.status === 'submitted' || track.status === 'queued') {
+            this.generating = track;
+            if (!this.trackFolders.has(track.id)) {
+                this.trackFolders.set(track.id, this.getActiveFolderKey());
+            }
+            this.changeEmitter.fire();
+            return;
+        }
+
+        if (this.generating?.id === track.id) {
+            this.generating = undefined;
+        }
+
+        const folderKey = this.trackFolders.get(track.id) ?? this.getActiveFolderKey();
+        if (track.status === 'complete' || track.status === 'error') {
+            this.trackFolders.delete(track.id);
+        }
+
+        // Only tracks that actually produced audio are worth replaying
+        if (track.status === 'error' || !track.audioUrl) {
+            this.changeEmitter.fire();
+            return;
+        }
+
+        this.nowPlaying = track;
+
+        const entries = this.histories[folderKey] || (this.histories[folderKey] = []);
+        const existing = entries.find(entry => entry.track.id === track.id);
+        if (existing) {
+            // Streaming URL gets replaced by the final MP3 once generation completes
+            existing.track = { ...existing.track, ...track };
+        } else {
+            entries.unshift({ track, pinned: false });
+        }
+
+        this.trim(folderKey);
+        this.save();
+    }
+
+    public getNowPlaying(): TrackInfo | undefined {
+        return this.nowPlaying;
+    }
+
+    public getGenerating(): TrackInfo | undefined {
+        return this.generating;
+    }
+
+    /** History of the active workspace folder. */
+    public getEntries(): TrackHistoryEntry[] {
+        return this.histories[this.getActiveFolderKey()] || [];
+    }
+
+    public getTrack(id: string): TrackInfo | undefined {
+        return this.findEntry(id)?.track;
+    }
+
+    public togglePin(id: string): void {
+        const entry = this.findEntry(id);
+        if (entry) {
+            entry.pinned = !entry.pinned;
+            this.save();
+        }
+    }
+
+    public remove(id: string): void {
+        for (const key of Object.keys(this.histories)) {
+            this.histories[key] = this.histories[key].filter(entry => entry.track.id !== id);
+        }
+        this.save();
+    }
+
+    private findEntry(id: string): TrackHistoryEntry | undefined {
+        for (const entries of Object.values(this.histories)) {
+            const entry = entries.find(candidate => candidate.track.id === id);
+            if (entry) {
+                return entry;
+            }
+        }
+        return undefined;
+    }
+
+    private getActiveFolderKey(): string {
+        return ActiveFolderTracker.getFolderKey(this.folderTracker.getActiveFolder());
+    }
+
+    private trim(folderKey: string): void {
+        let unpinnedCount = 0;
+        this.histories[folderKey] = this.histories[folderKey].filter(entry => entry.pinned || ++unpinnedCount <= this.maxUnpinnedEntries);
+    }
+
+    private save(): void {
+        this.memento.update(TrackHistory.storageKey, this.histories);
+        this.changeEmitter.fire();
+    }
+
+    public dispose(): void {
+        this.folderListener.dispose();
+        this.changeEmitter.dispose();
+    }
+}
@@ -0,0 +1,328 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { CodeAnalysis } from './tandemApiClient';
+import { LocalCodeAnalyzer } from './localCodeAnalyzer';
+import { ActiveFolderTracker } from './activeFolder';
+
+interface IndexedFile {
+    hash: string;
+    languageId: string;
+    lineCount: number;
+    complexity: CodeAnalysis['complexity'];
+    cyclomaticComplexity: number;
+    codeType: CodeAnalysis['codeType'];
+    isTest: boolean;
+    folder?: string; // workspace folder key; missing in indexes saved before multi-root support
+}
+
+export interface WorkspaceHotspot {
+    path: string;
+    cyclomaticComplexity: number;
+    lineCount: number;
+}
+
+export interface WorkspaceProfile {
+    fileCount: number;
+    totalLines: number;
+    languageMix: { [languageId: string]: number }; // share of lines, 0-1
+    dominantLanguage: string;
+    averageComplexity: number; // 1 (simple) - 4 (very complex), weighted by lines
+    complexity: CodeAnalysis['complexity'];
+    dominantCodeType: CodeAnalysis['codeType'];
+    testRatio: number; // share of files that are tests
+    hotspots: WorkspaceHotspot[];
+    updatedAt: string;
+}
+
+/**
+ * Builds an aggregate profile of each workspace folder in the background.
+ * Per-file analyses are cached in workspace state by content hash, so only
+ * changed files are re-analyzed after the first scan.
+ */
+export class WorkspaceIndexer implements vscode.Disposable {
+    private files: { [relativePath: string]: IndexedFile };
+    private profiles: Map<string, WorkspaceProfile> = new Map();
+    private disposables: vscode.Disposable[] = [];
+    private pendingUris: Map<string, vscode.Uri> = new Map();
+    private updateTimer: NodeJS.Timeout | undefined;
+    private isIndexing: boolean = false;
+    private reindexRequested: boolean = false;
+
+    private static readonly storageKey = 'codebeat.workspaceIndex';
+    private readonly maxFiles = 2000;
+    private readonly maxFileSize = 256 * 1024;
+    private readonly batchSize = 20;
+    private readonly excludedDirectories = ['node_modules', '.git', 'dist', 'build', 'out', 'target', 'vendor', '.next', 'coverage', '__pycache__'];
+
+    private readonly extensionLanguages: { [extension: string]: string } = {
+        'ts': 'typescript', 'tsx': 'typescriptreact', 'js': 'javascript', 'jsx': 'javascriptreact',
+        'mjs': 'javascript', 'cjs': 'javascript', 'py': 'python', 'java': 'java', 'go': 'go',
+        'rs': 'rust', 'c': 'c', 'h': 'c', 'cpp': 'cpp', 'cc': 'cpp', 'hpp': 'cpp', 'cs': 'csharp',
+        'rb': 'ruby', 'php': 'php', 'swift': 'swift', 'kt': 'kotlin', 'scala': 'scala',
+        'sh': 'shellscript', 'sql': 'sql', 'html': 'html', 'css': 'css', 'scss': 'scss',
+        'vue': 'vue', 'svelte': 'svelte', 'dart': 'dart', 'lua': 'lua'
+    };
+
+    private readonly complexityScores: { [key in CodeAnalysis['complexity']]: number } = {
+        'simple': 1,
+        'moderate': 2,
+        'complex': 3,
+        'very_complex': 4
+    };
+
+    constructor(
+        private localAnalyzer: LocalCodeAnalyzer,
+        private workspaceState: vscode.Memento,
+        private folderTracker: ActiveFolderTracker
+    ) {
+        this.files = this.workspaceState.get(WorkspaceIndexer.storageKey, {});
+        this.profiles = this.buildProfiles();
+    }
+
+    public start(): void {
+        if (this.disposables.length > 0 || !this.isEnabled()) {
+            return;
+        }
+
+        const watcher = vscode.workspace.createFileSystemWatcher(this.getIncludeGlob());
+        watcher.onDidCreate(uri => this.scheduleUpdate(uri));
+        watcher.onDidChange(uri => this.scheduleUpdate(uri));
+        watcher.onDidDelete(uri => this.removeFile(uri));
+        this.disposables.push(
+            watcher,
+            // Files of removed folders are forgotten and added folders are indexed by a rescan
+            vscode.workspace.onDidChangeWorkspaceFolders(() => {
+                this.indexWorkspace().catch(error => console.error('CodeBeat: Workspace indexing failed:', error));
+            })
+        );
+
+        this.indexWorkspace().catch(error => console.error('CodeBeat: Workspace indexing failed:', error));
+    }
+
+    /** Profile of the workspace folder the active file belongs to. */
+    public getProfile(): WorkspaceProfile | undefined {
+        return this.profiles.get(ActiveFolderTracker.getFolderKey(this.folderTracker.getActiveFolder()));
+    }
+
+    private async indexWorkspace(): Promise<void> {
+        if (this.isIndexing) {
+            this.reindexRequested = true;
+            return;
+        }
+        this.isIndexing = true;
+        this.reindexRequested = false;
+
+        try {
+            const startTime = Date.now();
+            const uris = await vscode.workspace.findFiles(this.getIncludeGlob(), `**/{${this.excludedDirectories.join(',')}}/**`, this.maxFiles);
+            console.log(`CodeBeat: Indexing ${uris.length} workspace files...`);
+
+            // Forget files that no longer exist
+            const present = new Set(uris.map(uri => vscode.workspace.asRelativePath(uri)));
+            for (const relativePath of Object.keys(this.files)) {
+                if (!present.has(relativePath)) {
+                    delete this.files[relativePath];
+                }
+            }
+
+            let analyzed = 0;
+            for (let i = 0; i < uris.length; i += this.batchSize) {
+                for (const uri of uris.slice(i, i + this.batchSize)) {
+                    if (await this.indexFile(uri)) {
+                        analyzed++;
+                    }
+                }
+                // Yield between batches so indexing stays in the background
+                await new Promise(resolve => setTimeout(resolve, 0));
+            }
+
+            console.log(`CodeBeat: Indexed workspace in ${Date.now() - startTime}ms (${analyzed} files analyzed, ${uris.length - analyzed} cached)`);
+            await this.saveAndUpdateProfile();
+        } finally {
+            this.isIndexing = false;
+        }
+
+        if (this.reindexRequested) {
+            await this.indexWorkspace();
+        }
+    }
+
+    /**
+     * Analyzes a single file unless its content hash is unchanged.
+     * Returns whether the file was (re-)analyzed.
+     */
+    private async indexFile(uri: vscode.Uri): Promise<boolean> {
+        const relativePath = vscode.workspace.asRelativePath(uri);
+        const folder = ActiveFolderTracker.getFolderKey(vscode.workspace.getWorkspaceFolder(uri));
+        const extension = path.extname(uri.fsPath).slice(1).toLowerCase();
+        const languageId = this.extensionLanguages[extension];
+        if (!languageId) {
+            return false;
+        }
+
+        try {
+            const stat = await vscode.workspace.fs.stat(uri);
+            if (stat.size > this.maxFileSize) {
+                delete this.files[relativePath];
+                return false;
+            }
+
+            const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+            const hash = crypto.createHash('sha1').update(content).digest('hex');
+            if (this.files[relativePath]?.hash === hash) {
+                this.files[relativePath].folder = folder;
+                return false;
+            }
+
+            const metrics = this.localAnalyzer.computeMetrics(content, languageId);
+            const analysis = this.localAnalyzer.analyzeCode(content, languageId, extension, metrics);
+            this.files[relativePath] = {
+                hash,
+                languageId,
+                lineCount: metrics.lineCount,
+                complexity: analysis.complexity,
+                cyclomaticComplexity: metrics.cyclomaticComplexity,
+                codeType: analysis.codeType,
+                isTest: analysis.codeType === 'test' || /(^|[\/\\])(tests?|__tests__|spec)[\/\\]|[._](test|spec)\.\w+$|(^|[\/\\])test_\w+\.py$/.test(relativePath),
+                folder
+            };
+            return true;
+        } catch (error) {
+            console.log(`CodeBeat: Could not index ${relativePath}:`, error);
+            return false;
+        }
+    }
+
+    private scheduleUpdate(uri: vscode.Uri): void {
+        // The watcher can't exclude folders, so filter build output and dependencies here
+        const segments = vscode.workspace.asRelativePath(uri).split(/[\/\\]/);
+        if (segments.some(segment => this.excludedDirectories.includes(segment))) {
+            return;
+        }
+
+        this.pendingUris.set(uri.toString(), uri);
+        if (this.updateTimer) {
+            clearTimeout(this.updateTimer);
+        }
+        // Saves often come in bursts (formatters, git checkouts)
+        this.updateTimer = setTimeout(() => this.processPendingUpdates(), 1500);
+    }
+
+    private async processPendingUpdates(): Promise<void> {
+        this.updateTimer = undefined;
+        const uris = Array.from(this.pendingUris.values());
+        this.pendingUris.clear();
+
+        let changed = false;
+        for (const uri of uris) {
+            changed = (await this.indexFile(uri)) || changed;
+        }
+        if (changed) {
+            await this.saveAndUpdateProfile();
+        }
+    }
+
+    private async removeFile(uri: vscode.Uri): Promise<void> {
+        const relativePath = vscode.workspace.asRelativePath(uri);
+        if (this.files[relativePath]) {
+            delete this.files[relativePath];
+            await this.saveAndUpdateProfile();
+        }
+    }
+
+    private async saveAndUpdateProfile(): Promise<void> {
+        await this.workspaceState.update(WorkspaceIndexer.storageKey, this.files);
+        this.profiles = this.buildProfiles();
+        this.profiles.forEach((profile, folder) => {
+            console.log(`CodeBeat: Workspace profile for ${folder ? vscode.Uri.parse(folder).fsPath : 'workspace'} - ${profile.fileCount} files, ${profile.totalLines} lines, ` +
+                `mostly ${profile.dominantLanguage}, ${profile.complexity} (${profile.averageComplexity})`);
+        });
+    }
+
+    private buildProfiles(): Map<string, WorkspaceProfile> {
+        // Indexes saved before multi-root support came from single-folder workspaces
+        const fallbackFolder = ActiveFolderTracker.getFolderKey(vscode.workspace.workspaceFolders?.[0]);
+        const entriesByFolder: Map<string, [string, IndexedFile][]> = new Map();
+        for (const entry of Object.entries(this.files)) {
+            const folder = entry[1].folder ?? fallbackFolder;
+            if (!entriesByFolder.has(folder)) {
+                entriesByFolder.set(folder, []);
+            }
+            entriesByFolder.get(folder)!.push(entry);
+        }
+
+        const profiles: Map<string, WorkspaceProfile> = new Map();
+        entriesByFolder.forEach((entries, folder) => profiles.set(folder, this.buildProfile(entries)));
+        return profiles;
+    }
+
+    private buildProfile(entries: [string, IndexedFile][]): WorkspaceProfile {
+        const totalLines = entries.reduce((sum, [, file]) => sum + file.lineCount, 0) || 1;
+        const linesByLanguage: { [languageId: string]: number } = {};
+        const linesByCodeType: { [codeType: string]: number } = {};
+        let weightedComplexity = 0;
+
+        for (const [, file] of entries) {
+            linesByLanguage[file.languageId] = (linesByLanguage[file.languageId] || 0) + file.lineCount;
+            linesByCodeType[file.codeType] = (linesByCodeType[file.codeType] || 0) + file.lineCount;
+            weightedComplexity += this.complexityScores[file.complexity] * file.lineCount;
+        }
+
+        const languageMix: { [languageId: string]: number } = {};
+        for (const [languageId, lines] of Object.entries(linesByLanguage)) {
+            languageMix[languageId] = Math.round((lines / totalLines) * 100) / 100;
+        }
+
+        const averageComplexity = Math.round((weightedComplexity / totalLines) * 100) / 100;
+        const hotspots = entries
+            .map(([relativePath, file]) => ({
+                path: relativePath,
+                cyclomaticComplexity: file.cyclomaticComplexity,
+                lineCount: file.lineCount
+            }))
+            .sort((a, b) => b.cyclomaticComplexity - a.cyclomaticComplexity)
+            .slice(0, 5);
+
+        return {
+            fileCount: entries.length,
+            totalLines,
+            languageMix,
+            dominantLanguage: this.getLargest(linesByLanguage),
+            averageComplexity,
+            complexity: this.classifyAverageComplexity(averageComplexity),
+            dominantCodeType: this.getLargest(linesByCodeType) as CodeAnalysis['codeType'],
+            testRatio: Math.round((entries.filter(([, file]) => file.isTest).length / entries.length) * 100) / 100,
+            hotspots,
+            updatedAt: new Date().toISOString()
+        };
+    }
+
+    private classifyAverageComplexity(score: number): CodeAnalysis['complexity'] {
+        if (score < 1.5) return 'simple';
+        if (score < 2.5) return 'moderate';
+        if (score < 3.3) return 'complex';
+        return 'very_complex';
+    }
+
+    private getLargest(values: { [key: string]: number }): string {
+        return Object.entries(values).sort((a, b) => b[1] - a[1])[0][0];
+    }
+
+    private getIncludeGlob(): string {
+        return `**/*.{${Object.keys(this.extensionLanguages).join(',')}}`;
+    }
+
+    private isEnabled(): boolean {
+        return vscode.workspace.getConfiguration('codebeat').get('workspaceProfile', true);
+    }
+
+    public dispose(): void {
+        if (this.updateTimer) {
+            clearTimeout(this.updateTimer);
+            this.updateTimer = undefined;
+        }
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}